@@ -0,0 +1,301 @@
+import express from "express";
+
+import { verifyApiToken, type ApiToken } from "./api_tokens";
+import { availabilityFor, confirmDateSlot, datePollOpen, datePollResults, parseDateSlots, slotKey } from "./date_poll";
+import { getDb } from "./db";
+import {
+  getDateNightFor,
+  listDateNightsFor,
+  newDateNightFromBody,
+  createDateNight,
+  itineraryFields,
+  itineraryFromBody,
+  saveItinerary,
+  deleteDateNight,
+  type FieldError,
+} from "./date_nights";
+import { DEFAULT_LOCALE } from "./i18n";
+import { inviteState, inviteUrl, createInvite, resendInvite } from "./invites";
+import { parseMenu, parsePicks, describePicks } from "./menu";
+import type { OutboxMessage } from "./outbox";
+import { parseReminderRules } from "./reminders";
+import { maskMenu, maskPicks, maskTally, surpriseHidden, teasers } from "./surprise";
+import { groupTally, parseGroupSettings } from "./voting";
+
+/**
+ * JSON API under `/api/v1`, authenticated with `Authorization: Bearer <token>` using tokens issued
+ * on the admin API tokens page. Errors are always `{ error: { code, message, field? } }`.
+ */
+export const api = express.Router();
+
+/** The shared validators speak in form field names; these are the API's names for the same inputs. */
+const API_FIELD_NAMES: Record<string, string> = {
+  lockIn: "lockInAt",
+  nudgeAfterHours: "reminders.nudgeAfterHours",
+  slots: "dateSlots",
+  revealAt: "surprise.revealAt",
+};
+
+function sendError(res: express.Response, status: number, code: string, message: string, field?: string) {
+  res.status(status).json({ error: { code, message, ...(field ? { field } : {}) } });
+}
+
+function sendValidationError(res: express.Response, e: FieldError) {
+  sendError(res, 422, "validation_failed", e.error, API_FIELD_NAMES[e.field] ?? e.field);
+}
+
+function jsonBody(req: express.Request): Record<string, any> {
+  return req.body && typeof req.body === "object" && !Array.isArray(req.body) ? req.body : {};
+}
+
+/** `dateSlots: [{ date, startTime }]` in the form's shape; null or [] means no candidate dates. */
+function slotsFromJson(raw: unknown) {
+  return Array.isArray(raw) ? raw.map(s => ({ date: s?.date ?? "", time: s?.startTime ?? "" })) : [];
+}
+
+/**
+ * Until a surprise is revealed the API only shows what partners see: teasers for the options and
+ * picks, and no blurb.
+ */
+function dateNightJson(dn: any) {
+  const menu = parseMenu(dn.menu_json);
+  const hidden = surpriseHidden(dn);
+  return {
+    id: dn.id,
+    title: dn.title,
+    themeId: dn.theme_id,
+    date: dn.date_iso,
+    startTime: dn.start_time,
+    durationMinutes: dn.duration_minutes,
+    location: dn.location,
+    blurb: hidden ? null : dn.blurb,
+    lockInAt: dn.lock_in_at,
+    timeZone: dn.time_zone,
+    maxOptionCost: dn.max_option_cost,
+    menu: hidden ? maskMenu(menu, teasers(menu)) : menu,
+    reminders: parseReminderRules(dn.reminder_rules_json),
+    group: parseGroupSettings(dn.group_json),
+    surprise: dn.reveal_at ? { revealAt: dn.reveal_at, revealed: !hidden } : null,
+    dateSlots: parseDateSlots(dn.date_slots_json).map(s => ({ date: s.dateIso, startTime: s.startTime })),
+    calendarSequence: dn.calendar_sequence ?? 0,
+    access: dn.access,
+    createdAt: dn.created_at,
+  };
+}
+
+function inviteJson(inv: any) {
+  return {
+    id: inv.id,
+    dateNightId: inv.date_night_id,
+    url: inviteUrl(inv.token),
+    recipientEmail: inv.recipient_email,
+    locale: inv.locale ?? DEFAULT_LOCALE,
+    state: inviteState(inv),
+    expiresAt: inv.expires_at,
+    usedAt: inv.used_at,
+    revokedAt: inv.revoked_at,
+    createdAt: inv.created_at,
+  };
+}
+
+function selectionJson(sel: any, dn: any) {
+  if (!sel) return null;
+  const menu = parseMenu(dn.menu_json);
+  const tz = surpriseHidden(dn) ? teasers(menu) : null;
+  const picks = tz ? maskPicks(parsePicks(sel.picks_json), tz) : parsePicks(sel.picks_json);
+  return {
+    id: sel.id,
+    inviteId: sel.invite_id,
+    picks,
+    summary: describePicks(tz ? maskMenu(menu, tz) : menu, picks),
+    notes: sel.notes,
+    availability: availabilityFor(sel.invite_id),
+    createdAt: sel.created_at,
+    updatedAt: sel.updated_at,
+  };
+}
+
+function deliveryJson(msg: OutboxMessage | null) {
+  return msg ? { id: msg.id, status: msg.status, attempts: msg.attempts, lastError: msg.lastError } : null;
+}
+
+function userId(res: express.Response): string {
+  return (res.locals.apiToken as ApiToken).userId!;
+}
+
+/** Invites are only visible through a date night the token's planner can see. */
+function getInviteFor(id: string, uid: string): { inv: any; dn: any } | undefined {
+  const inv = getDb().prepare(`SELECT * FROM invites WHERE id = ?`).get(id) as any;
+  const dn = inv ? getDateNightFor(inv.date_night_id, uid) : undefined;
+  return dn ? { inv, dn } : undefined;
+}
+
+function getSelection(inviteId: string): any {
+  return getDb().prepare(`SELECT * FROM selections WHERE invite_id = ?`).get(inviteId);
+}
+
+api.use(express.json({ limit: "256kb" }));
+
+api.use((req, res, next) => {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.get("authorization") || "");
+  const token = match ? verifyApiToken(match[1]) : undefined;
+  if (!token) return sendError(res, 401, "unauthorized", "Send a valid API token as `Authorization: Bearer <token>`.");
+  res.locals.apiToken = token;
+  next();
+});
+
+api.get("/date-nights", (req, res) => {
+  res.json({ dateNights: listDateNightsFor(userId(res)).map(dateNightJson) });
+});
+
+api.post("/date-nights", (req, res) => {
+  const body = jsonBody(req);
+  const input = newDateNightFromBody({ ...body, slots: slotsFromJson(body.dateSlots) });
+  if ("error" in input) return sendValidationError(res, input);
+
+  const id = createDateNight(input, userId(res));
+  res.status(201).json({ dateNight: dateNightJson(getDateNightFor(id, userId(res))) });
+});
+
+api.get("/date-nights/:id", (req, res) => {
+  const dn = getDateNightFor(String(req.params.id), userId(res));
+  if (!dn) return sendError(res, 404, "not_found", "Date night not found.");
+  res.json({ dateNight: dateNightJson(dn) });
+});
+
+/** Partial update: fields that are left out keep their current values. */
+api.patch("/date-nights/:id", (req, res) => {
+  const dn = getDateNightFor(String(req.params.id), userId(res));
+  if (!dn) return sendError(res, 404, "not_found", "Date night not found.");
+
+  const body = jsonBody(req);
+  if (body.categories !== undefined && surpriseHidden(dn)) {
+    return sendError(res, 409, "invalid_state", "The menu is hidden until the surprise is revealed; edit it on the itinerary page.");
+  }
+  const fields = itineraryFields(dn);
+  for (const key of ["title", "blurb", "date", "startTime", "durationMinutes", "location", "categories", "timeZone", "maxOptionCost"]) {
+    if (body[key] !== undefined) fields[key] = body[key];
+  }
+  if (body.lockInAt !== undefined) fields.lockIn = body.lockInAt ?? "";
+  if (body.dateSlots !== undefined) fields.slots = slotsFromJson(body.dateSlots);
+  if (body.surprise === null) fields.surprise = "";
+  if (body.surprise && typeof body.surprise === "object") {
+    fields.surprise = "1";
+    if (body.surprise.revealAt !== undefined) fields.revealAt = body.surprise.revealAt ?? "";
+  }
+  if (body.reminders && typeof body.reminders === "object") {
+    const r = body.reminders;
+    if (r.nudgeAfterHours !== undefined) fields.nudgeAfterHours = r.nudgeAfterHours ?? "";
+    if (r.dayBefore !== undefined) fields.remindDayBefore = r.dayBefore ? "1" : "";
+    if (r.dayOf !== undefined) fields.remindDayOf = r.dayOf ? "1" : "";
+  }
+  if (body.group === null) fields.groupMode = "";
+  if (body.group && typeof body.group === "object") {
+    fields.groupMode = "1";
+    if (body.group.rule !== undefined) fields.resolutionRule = body.group.rule;
+    if (body.group.showTally !== undefined) fields.showTally = body.group.showTally ? "1" : "";
+  }
+
+  const itinerary = itineraryFromBody(fields);
+  if ("error" in itinerary) return sendValidationError(res, itinerary);
+
+  saveItinerary(dn, itinerary);
+  res.json({ dateNight: dateNightJson(getDateNightFor(dn.id, userId(res))) });
+});
+
+api.delete("/date-nights/:id", (req, res) => {
+  const dn = getDateNightFor(String(req.params.id), userId(res));
+  if (!dn) return sendError(res, 404, "not_found", "Date night not found.");
+  if (dn.access !== "owner") return sendError(res, 403, "forbidden", "Only the owner can delete a date night.");
+  deleteDateNight(dn.id);
+  res.status(204).end();
+});
+
+api.get("/date-nights/:id/invites", (req, res) => {
+  const dn = getDateNightFor(String(req.params.id), userId(res));
+  if (!dn) return sendError(res, 404, "not_found", "Date night not found.");
+
+  const invites = getDb().prepare(`SELECT * FROM invites WHERE date_night_id = ? ORDER BY created_at DESC`).all(dn.id);
+  res.json({ invites: invites.map(inviteJson) });
+});
+
+api.post("/date-nights/:id/invites", async (req, res) => {
+  const dn = getDateNightFor(String(req.params.id), userId(res));
+  if (!dn) return sendError(res, 404, "not_found", "Date night not found.");
+
+  const created = await createInvite(dn, jsonBody(req));
+  if ("error" in created) return sendValidationError(res, created);
+
+  res.status(201).json({ invite: inviteJson(created.invite), delivery: deliveryJson(created.delivery) });
+});
+
+api.get("/date-nights/:id/selections", (req, res) => {
+  const dn = getDateNightFor(String(req.params.id), userId(res));
+  if (!dn) return sendError(res, 404, "not_found", "Date night not found.");
+
+  const rows = getDb().prepare(`
+    SELECT s.* FROM selections s JOIN invites i ON i.id = s.invite_id
+    WHERE i.date_night_id = ? ORDER BY s.created_at
+  `).all(dn.id);
+  res.json({ selections: rows.map(sel => selectionJson(sel, dn)) });
+});
+
+api.get("/date-nights/:id/tally", (req, res) => {
+  const dn = getDateNightFor(String(req.params.id), userId(res));
+  if (!dn) return sendError(res, 404, "not_found", "Date night not found.");
+
+  const tally = groupTally(dn);
+  if (!tally) return sendError(res, 409, "invalid_state", "This isn’t a group date night.");
+  res.json({ tally: surpriseHidden(dn) ? maskTally(tally, teasers(parseMenu(dn.menu_json))) : tally, finalPlanSentAt: dn.final_plan_sent_at });
+});
+
+api.get("/date-nights/:id/date-poll", (req, res) => {
+  const dn = getDateNightFor(String(req.params.id), userId(res));
+  if (!dn) return sendError(res, 404, "not_found", "Date night not found.");
+  if (!datePollOpen(dn)) return sendError(res, 409, "invalid_state", "This date night has no candidate dates.");
+
+  const slots = datePollResults(dn).map(s => ({
+    date: s.dateIso,
+    startTime: s.startTime,
+    counts: s.counts,
+    answers: s.answers,
+  }));
+  res.json({ slots });
+});
+
+/** Settles on one candidate (`{ date, startTime }`) and emails the invitees. */
+api.post("/date-nights/:id/date-poll/confirm", async (req, res) => {
+  const dn = getDateNightFor(String(req.params.id), userId(res));
+  if (!dn) return sendError(res, 404, "not_found", "Date night not found.");
+  if (!datePollOpen(dn)) return sendError(res, 409, "invalid_state", "This date night has no candidate dates.");
+
+  const body = jsonBody(req);
+  const key = slotKey({ dateIso: String(body.date ?? ""), startTime: body.startTime ? String(body.startTime) : null });
+  const confirmed = await confirmDateSlot(dn, key);
+  if ("error" in confirmed) return sendValidationError(res, { error: confirmed.error, field: "date" });
+  res.json({ dateNight: dateNightJson(getDateNightFor(dn.id, userId(res))) });
+});
+
+api.get("/invites/:id", (req, res) => {
+  const found = getInviteFor(String(req.params.id), userId(res));
+  if (!found) return sendError(res, 404, "not_found", "Invite not found.");
+
+  res.json({ invite: inviteJson(found.inv), selection: selectionJson(getSelection(found.inv.id), found.dn) });
+});
+
+api.post("/invites/:id/resend", async (req, res) => {
+  const found = getInviteFor(String(req.params.id), userId(res));
+  if (!found) return sendError(res, 404, "not_found", "Invite not found.");
+
+  const sent = await resendInvite(found.inv);
+  if ("error" in sent) return sendError(res, 409, "invalid_state", sent.error);
+  res.json({ invite: inviteJson(found.inv), delivery: deliveryJson(sent) });
+});
+
+api.use((req, res) => sendError(res, 404, "not_found", "No such endpoint."));
+
+api.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (err?.type === "entity.parse.failed") return sendError(res, 400, "invalid_json", "The request body isn’t valid JSON.");
+  console.error("[api] request failed", err);
+  sendError(res, 500, "internal_error", "Something went wrong.");
+});
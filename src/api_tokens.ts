@@ -0,0 +1,74 @@
+import crypto from "crypto";
+import { nanoid } from "nanoid";
+
+import { getDb } from "./db";
+
+export type ApiToken = {
+  id: string;
+  /** The planner the token acts as; it sees exactly what they can. */
+  userId: string | null;
+  name: string;
+  /** First few characters of the token, kept so planners can tell tokens apart. */
+  prefix: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+};
+
+const TOKEN_PREFIX = "dnc_";
+
+/** Tokens are long random strings, so a plain SHA-256 is enough; only the hash is stored. */
+function hashToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function rowToToken(row: any): ApiToken {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    prefix: row.token_prefix,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    revokedAt: row.revoked_at,
+  };
+}
+
+/** Returns the plain token exactly once; it cannot be recovered afterwards. */
+export function createApiToken(name: string, userId: string): { token: string; record: ApiToken } {
+  const id = nanoid(12);
+  const token = `${TOKEN_PREFIX}${nanoid(40)}`;
+  const now = new Date().toISOString();
+  getDb().prepare(`
+    INSERT INTO api_tokens (id, user_id, name, token_hash, token_prefix, created_at, last_used_at, revoked_at)
+    VALUES (?, ?, ?, ?, ?, ?, NULL, NULL)
+  `).run(id, userId, name, hashToken(token), token.slice(0, TOKEN_PREFIX.length + 6), now);
+  return { token, record: rowToToken(getDb().prepare(`SELECT * FROM api_tokens WHERE id = ?`).get(id)) };
+}
+
+export function listApiTokens(userId: string): ApiToken[] {
+  const rows = getDb().prepare(`
+    SELECT * FROM api_tokens WHERE user_id = ? ORDER BY revoked_at IS NOT NULL, created_at DESC
+  `).all(userId);
+  return rows.map(rowToToken);
+}
+
+export function revokeApiToken(id: string, userId: string) {
+  getDb().prepare(`UPDATE api_tokens SET revoked_at = ? WHERE id = ? AND user_id = ? AND revoked_at IS NULL`)
+    .run(new Date().toISOString(), id, userId);
+}
+
+/**
+ * Looks up a presented token, recording when it was last used. Revoked tokens never match, nor do
+ * tokens from before planner accounts that no account has claimed yet.
+ */
+export function verifyApiToken(token: string): ApiToken | undefined {
+  if (!token.startsWith(TOKEN_PREFIX)) return undefined;
+  const db = getDb();
+  const row = db.prepare(`SELECT * FROM api_tokens WHERE token_hash = ? AND revoked_at IS NULL AND user_id IS NOT NULL`).get(hashToken(token)) as any;
+  if (!row) return undefined;
+
+  const now = new Date().toISOString();
+  db.prepare(`UPDATE api_tokens SET last_used_at = ? WHERE id = ?`).run(now, row.id);
+  return rowToToken({ ...row, last_used_at: now });
+}
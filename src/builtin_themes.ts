@@ -0,0 +1,35 @@
+import type { Menu } from "./menu";
+
+/**
+ * Seeded into the `themes` table on first migrate; planners can edit or archive them afterwards.
+ * Plain data, so `db.ts` can seed it without importing `themes.ts`, which needs the database.
+ */
+export const BUILTIN_THEMES: Array<{ id: string; name: string; blurb: string; options: Menu }> = [
+  {
+    id: "cottagecore-classic",
+    name: "Cottagecore Classic",
+    blurb: "Warm bread, soft blankets, candlelight, and gentle joy.",
+    options: {
+      categories: [
+        {
+          key: "dinner",
+          label: "Dinner",
+          mode: "one",
+          options: ["Soup + fresh bread", "Pasta night", "Charcuterie + fruit", "Takeout plated nicely"],
+        },
+        {
+          key: "activity",
+          label: "Activity",
+          mode: "one",
+          options: ["Bake something sweet", "Cozy movie", "Board games", "Long chat + tea"],
+        },
+        {
+          key: "mood",
+          label: "Mood",
+          mode: "one",
+          options: ["Romantic", "Soft & slow", "Playful", "Deep & cozy"],
+        },
+      ],
+    },
+  },
+];
@@ -0,0 +1,113 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer for a single date night event.
+ * Times are "floating" (no time zone), matching how the planner typed them.
+ */
+
+export type CalendarEvent = {
+  uid: string;
+  /** Bumped whenever the date, time or place changes so calendar apps update rather than duplicate. */
+  sequence: number;
+  title: string;
+  description?: string;
+  location?: string | null;
+  url?: string;
+  dateIso: string;
+  /** "HH:MM"; without it the event is all-day. */
+  startTime?: string | null;
+  durationMinutes?: number | null;
+};
+
+const DEFAULT_DURATION_MINUTES = 180;
+
+function escapeText(s: string) {
+  return s.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/** Lines longer than 75 octets are folded with CRLF + space. */
+function fold(line: string) {
+  const out: string[] = [];
+  let current = "";
+  let bytes = 0;
+  for (const ch of line) {
+    const len = Buffer.byteLength(ch);
+    if (bytes + len > (out.length ? 74 : 75)) {
+      out.push(current);
+      current = "";
+      bytes = 0;
+    }
+    current += ch;
+    bytes += len;
+  }
+  out.push(current);
+  return out.join("\r\n ");
+}
+
+function pad(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+function formatUtc(d: Date) {
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+}
+
+/** Date arithmetic on the wall-clock values; UTC is only used as a calendar that has no DST. */
+function floating(dateIso: string, time: string, addMinutes = 0) {
+  const [y, m, d] = dateIso.split("-").map(Number);
+  const [hh, mm] = time.split(":").map(Number);
+  const dt = new Date(Date.UTC(y, m - 1, d, hh, mm + addMinutes));
+  return `${dt.getUTCFullYear()}${pad(dt.getUTCMonth() + 1)}${pad(dt.getUTCDate())}T${pad(dt.getUTCHours())}${pad(dt.getUTCMinutes())}00`;
+}
+
+function allDay(dateIso: string, addDays = 0) {
+  const [y, m, d] = dateIso.split("-").map(Number);
+  const dt = new Date(Date.UTC(y, m - 1, d + addDays));
+  return `${dt.getUTCFullYear()}${pad(dt.getUTCMonth() + 1)}${pad(dt.getUTCDate())}`;
+}
+
+export function isValidTime(s: string) {
+  return /^([01]\d|2[0-3]):[0-5]\d$/.test(s);
+}
+
+export function buildIcs(ev: CalendarEvent, now = new Date()): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Date Night Cottage//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "BEGIN:VEVENT",
+    `UID:${ev.uid}`,
+    `SEQUENCE:${ev.sequence}`,
+    `DTSTAMP:${formatUtc(now)}`,
+  ];
+
+  if (ev.startTime) {
+    const minutes = ev.durationMinutes && ev.durationMinutes > 0 ? ev.durationMinutes : DEFAULT_DURATION_MINUTES;
+    lines.push(`DTSTART:${floating(ev.dateIso, ev.startTime)}`, `DTEND:${floating(ev.dateIso, ev.startTime, minutes)}`);
+  } else {
+    lines.push(`DTSTART;VALUE=DATE:${allDay(ev.dateIso)}`, `DTEND;VALUE=DATE:${allDay(ev.dateIso, 1)}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(ev.title)}`);
+  if (ev.description) lines.push(`DESCRIPTION:${escapeText(ev.description)}`);
+  if (ev.location) lines.push(`LOCATION:${escapeText(ev.location)}`);
+  if (ev.url) lines.push(`URL:${ev.url}`);
+  lines.push("END:VEVENT", "END:VCALENDAR");
+
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
+
+/** A stored date night as an event; null until it has a date. */
+export function dateNightIcs(dn: any, extra: { description?: string; url?: string } = {}): string | null {
+  if (!dn.date_iso) return null;
+  return buildIcs({
+    uid: `${dn.id}@date-night-cottage`,
+    sequence: dn.calendar_sequence ?? 0,
+    title: dn.title,
+    location: dn.location,
+    dateIso: dn.date_iso,
+    startTime: dn.start_time,
+    durationMinutes: dn.duration_minutes,
+    ...extra,
+  });
+}
@@ -0,0 +1,81 @@
+/**
+ * Tiny server-rendered SVG charts for the insights page. Output is a self-contained `<svg>` string
+ * with every label escaped, so views can print it unescaped.
+ */
+
+export type Bar = { label: string; value: number; /** Shown after the bar instead of the raw value. */ note?: string };
+
+export type StackedBar = { label: string; parts: Array<{ key: string; value: number }> };
+
+const PALETTE = ["#c9826b", "#8fa37e", "#d9b26f", "#8a9bb5", "#b98aa7", "#7fb2a8", "#c4a484", "#a3a3c2"];
+
+const ROW_HEIGHT = 26;
+const LABEL_WIDTH = 170;
+const BAR_WIDTH = 300;
+const NOTE_WIDTH = 110;
+const WIDTH = LABEL_WIDTH + BAR_WIDTH + NOTE_WIDTH;
+
+function esc(s: string) {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function truncate(s: string, max = 24) {
+  return s.length > max ? `${s.slice(0, max - 1)}…` : s;
+}
+
+function svg(height: number, body: string, title: string) {
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${WIDTH} ${height}" width="100%" role="img" aria-label="${esc(title)}" style="max-width:${WIDTH}px; font-family:inherit; font-size:12px;">${body}</svg>`;
+}
+
+export function colorFor(index: number) {
+  return PALETTE[index % PALETTE.length];
+}
+
+/** One horizontal bar per row, scaled to the largest value (or `max`). */
+export function barChart(bars: Bar[], opts: { title: string; max?: number; color?: string }) {
+  const max = Math.max(opts.max ?? 0, ...bars.map(b => b.value), 1);
+  const body = bars.map((b, i) => {
+    const y = i * ROW_HEIGHT;
+    const w = Math.round((b.value / max) * BAR_WIDTH);
+    return `<g transform="translate(0 ${y})">`
+      + `<text x="${LABEL_WIDTH - 8}" y="17" text-anchor="end" fill="#5b4a42"><title>${esc(b.label)}</title>${esc(truncate(b.label))}</text>`
+      + `<rect x="${LABEL_WIDTH}" y="5" width="${BAR_WIDTH}" height="16" rx="4" fill="#f3ebe4" />`
+      + `<rect x="${LABEL_WIDTH}" y="5" width="${w}" height="16" rx="4" fill="${opts.color ?? colorFor(0)}" />`
+      + `<text x="${LABEL_WIDTH + BAR_WIDTH + 8}" y="17" fill="#5b4a42">${esc(b.note ?? String(b.value))}</text>`
+      + `</g>`;
+  }).join("");
+  return svg(Math.max(bars.length, 1) * ROW_HEIGHT + 4, body, opts.title);
+}
+
+/** One horizontal bar per row, split into coloured segments that share `keys`' order and colours. */
+export function stackedBarChart(rows: StackedBar[], keys: string[], opts: { title: string }) {
+  const max = Math.max(...rows.map(r => r.parts.reduce((a, p) => a + p.value, 0)), 1);
+  const body = rows.map((r, i) => {
+    const y = i * ROW_HEIGHT;
+    let x = LABEL_WIDTH;
+    const segments = keys.map((key, k) => {
+      const value = r.parts.find(p => p.key === key)?.value ?? 0;
+      if (!value) return "";
+      const w = (value / max) * BAR_WIDTH;
+      const seg = `<rect x="${x.toFixed(1)}" y="5" width="${w.toFixed(1)}" height="16" fill="${colorFor(k)}"><title>${esc(`${key}: ${value}`)}</title></rect>`;
+      x += w;
+      return seg;
+    }).join("");
+    const total = r.parts.reduce((a, p) => a + p.value, 0);
+    return `<g transform="translate(0 ${y})">`
+      + `<text x="${LABEL_WIDTH - 8}" y="17" text-anchor="end" fill="#5b4a42">${esc(truncate(r.label))}</text>`
+      + segments
+      + `<text x="${LABEL_WIDTH + BAR_WIDTH + 8}" y="17" fill="#5b4a42">${total}</text>`
+      + `</g>`;
+  }).join("");
+
+  const legendY = rows.length * ROW_HEIGHT + 10;
+  const legend = keys.map((key, k) => {
+    const x = (k % 4) * (WIDTH / 4);
+    const y = legendY + Math.floor(k / 4) * 18;
+    return `<rect x="${x}" y="${y}" width="10" height="10" rx="2" fill="${colorFor(k)}" />`
+      + `<text x="${x + 14}" y="${y + 9}" fill="#5b4a42">${esc(truncate(key, 20))}</text>`;
+  }).join("");
+
+  return svg(legendY + Math.ceil(keys.length / 4) * 18 + 4, body + legend, opts.title);
+}
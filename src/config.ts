@@ -0,0 +1,8 @@
+export function baseUrl() {
+  return (process.env.BASE_URL || "http://localhost:3000").replace(/\/$/, "");
+}
+
+/** ISO 4217 code that menu option costs are in. */
+export function currency() {
+  return (process.env.CURRENCY || "USD").toUpperCase();
+}
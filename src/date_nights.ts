@@ -0,0 +1,295 @@
+import { nanoid } from "nanoid";
+
+import { isValidTime } from "./calendar";
+import { parseDateSlots, slotsFromBody, type DateSlot } from "./date_poll";
+import { getDb } from "./db";
+import { isValidTimeZone, zonedParts, zonedToUtc } from "./format";
+import { parseMenu, menuFromForm, type Menu } from "./menu";
+import { parseReminderRules, type ReminderRules } from "./reminders";
+import { getTheme } from "./themes";
+import { groupFromBody, parseGroupSettings, type GroupSettings } from "./voting";
+import { notifyAddress, rowToUser, type User } from "./users";
+import { dateNightPayload, emitEvent } from "./webhooks";
+
+/**
+ * Validation shared by the admin forms and the JSON API. `field` names the input that was wrong
+ * (form field names, which the API uses too).
+ */
+export type FieldError = { error: string; field: string };
+
+export type Schedule = { dateIso: string | null; startTime: string | null; durationMinutes: number | null; location: string | null };
+
+export type NewDateNight = Schedule & { title: string; themeId: string; menu: Menu; blurb: string; dateSlots?: DateSlot[] };
+
+export type Itinerary = Schedule & {
+  title: string;
+  menu: Menu;
+  blurb: string | null;
+  lockInAt: string | null;
+  /** IANA zone the lock-in time is entered and shown in; null means the server's. */
+  timeZone: string | null;
+  /** Options costing more than this are left off the partner's invite page; null shows everything. */
+  maxOptionCost: number | null;
+  reminders: ReminderRules;
+  /** Set for a group date night, where every invitee's picks are votes; null for the usual one-on-one. */
+  group: GroupSettings | null;
+  /** Candidate dates partners are asked about while the date isn't set; empty when there's no poll. */
+  dateSlots: DateSlot[];
+  /** Surprise mode: partners see teasers instead of the options and blurb until then; null when off. */
+  revealAt: string | null;
+};
+
+/** Owners can do everything; co-planners can do everything except delete or change sharing. */
+export type Access = "owner" | "co-planner";
+
+const ACCESSIBLE = `(dn.owner_id = @userId OR EXISTS (
+  SELECT 1 FROM date_night_shares s WHERE s.date_night_id = dn.id AND s.user_id = @userId
+))`;
+
+export function getDateNight(id: string): any {
+  return getDb().prepare(`SELECT * FROM date_nights WHERE id = ?`).get(id);
+}
+
+/** The date night with an `access` column, or undefined when this planner may not see it. */
+export function getDateNightFor(id: string, userId: string): any {
+  return getDb().prepare(`
+    SELECT dn.*, CASE WHEN dn.owner_id = @userId THEN 'owner' ELSE 'co-planner' END AS access
+    FROM date_nights dn WHERE dn.id = @id AND ${ACCESSIBLE}
+  `).get({ id, userId });
+}
+
+export function listDateNightsFor(userId: string): any[] {
+  return getDb().prepare(`
+    SELECT dn.*,
+      CASE WHEN dn.owner_id = @userId THEN 'owner' ELSE 'co-planner' END AS access,
+      u.name AS owner_name,
+      (SELECT COUNT(*) FROM invites i WHERE i.date_night_id = dn.id) AS invite_count
+    FROM date_nights dn LEFT JOIN users u ON u.id = dn.owner_id
+    WHERE ${ACCESSIBLE}
+    ORDER BY dn.created_at DESC
+  `).all({ userId });
+}
+
+export function listCoPlanners(dateNightId: string): User[] {
+  return getDb().prepare(`
+    SELECT u.* FROM date_night_shares s JOIN users u ON u.id = s.user_id
+    WHERE s.date_night_id = ? ORDER BY u.name COLLATE NOCASE
+  `).all(dateNightId).map(rowToUser);
+}
+
+export function shareDateNight(dateNightId: string, userId: string) {
+  getDb().prepare(`INSERT OR IGNORE INTO date_night_shares (date_night_id, user_id, created_at) VALUES (?, ?, ?)`)
+    .run(dateNightId, userId, new Date().toISOString());
+}
+
+export function unshareDateNight(dateNightId: string, userId: string) {
+  getDb().prepare(`DELETE FROM date_night_shares WHERE date_night_id = ? AND user_id = ?`).run(dateNightId, userId);
+}
+
+/** Planner notifications for a date night go to its owner and every co-planner. */
+export function plannerRecipients(dn: { id: string; owner_id: string | null }): string[] {
+  const rows = getDb().prepare(`
+    SELECT u.email, u.notify_email FROM users u
+    WHERE u.id = ? OR u.id IN (SELECT user_id FROM date_night_shares WHERE date_night_id = ?)
+  `).all(dn.owner_id, dn.id) as any[];
+  return [...new Set(rows.map(r => notifyAddress({ email: r.email, notifyEmail: r.notify_email }).toLowerCase()))];
+}
+
+/** Without a lock-in time, picks are final as soon as they are sent. */
+export function picksLocked(dn: { lock_in_at: string | null }, now = new Date()) {
+  return !dn.lock_in_at || dn.lock_in_at <= now.toISOString();
+}
+
+/**
+ * `<input type="datetime-local">` values carry no zone, so they are read and written in the date
+ * night's time zone (server-local time when it has none). Values with an offset are taken as-is.
+ */
+export function fromDateTimeLocal(value: string, timeZone?: string | null): string | null {
+  if (!value) return null;
+  const wall = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/.exec(value);
+  const dt = wall && timeZone
+    ? zonedToUtc(Number(wall[1]), Number(wall[2]), Number(wall[3]), Number(wall[4]), Number(wall[5]), timeZone)
+    : new Date(value);
+  return Number.isNaN(dt.getTime()) ? null : dt.toISOString();
+}
+export function toDateTimeLocal(iso: string | null, timeZone?: string | null): string {
+  if (!iso) return "";
+  const dt = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  if (timeZone) {
+    const p = zonedParts(dt, timeZone);
+    return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}`;
+  }
+  return `${dt.getFullYear()}-${pad(dt.getMonth() + 1)}-${pad(dt.getDate())}T${pad(dt.getHours())}:${pad(dt.getMinutes())}`;
+}
+
+/** Reads the shared date/time/duration/location fields of the new and edit forms. */
+export function scheduleFromBody(body: any): Schedule | FieldError {
+  const dateIso = String(body.date || "").trim() || null;
+  const startTime = String(body.startTime || "").trim() || null;
+  const durationRaw = String(body.durationMinutes || "").trim();
+  const durationMinutes = durationRaw ? Math.floor(Number(durationRaw)) : null;
+  const location = String(body.location || "").trim() || null;
+
+  if (dateIso && !/^\d{4}-\d{2}-\d{2}$/.test(dateIso)) return { error: "That date doesn’t look right.", field: "date" };
+  if (startTime && !isValidTime(startTime)) return { error: "That start time doesn’t look right.", field: "startTime" };
+  if (durationMinutes !== null && !(durationMinutes > 0 && durationMinutes <= 24 * 60)) {
+    return { error: "Duration should be between 1 minute and 24 hours.", field: "durationMinutes" };
+  }
+  return { dateIso, startTime, durationMinutes, location };
+}
+
+/** Candidate dates stand in for the date until one is confirmed, so a form can't set both. */
+function dateSlotsFromBody(body: any, schedule: Schedule): { slots: DateSlot[] } | FieldError {
+  const parsed = slotsFromBody(body.slots);
+  if ("error" in parsed) return parsed;
+  if (parsed.slots.length && schedule.dateIso) return { error: "Pick either a date or candidate dates, not both.", field: "slots" };
+  return parsed;
+}
+
+/** An empty nudge field turns nudges off for this date night. */
+export function remindersFromBody(body: any): { rules: ReminderRules } | FieldError {
+  const nudgeRaw = String(body.nudgeAfterHours ?? "").trim();
+  const nudgeAfterHours = nudgeRaw ? Number(nudgeRaw) : null;
+  if (nudgeAfterHours !== null && !(Number.isFinite(nudgeAfterHours) && nudgeAfterHours > 0 && nudgeAfterHours <= 24 * 60)) {
+    return { error: "The nudge delay should be a number of hours (or empty to switch nudges off).", field: "nudgeAfterHours" };
+  }
+  return {
+    rules: {
+      nudgeAfterHours,
+      dayBefore: body.remindDayBefore === "1",
+      dayOf: body.remindDayOf === "1",
+    },
+  };
+}
+
+/** Checks the "new date night" fields; the menu and blurb start as copies of the theme's. */
+export function newDateNightFromBody(body: any): NewDateNight | FieldError {
+  const title = String(body.title || "").trim();
+  const themeId = String(body.themeId || "").trim();
+  const theme = getTheme(themeId);
+  const schedule = scheduleFromBody(body);
+
+  if (!title) return { error: "Please add a title.", field: "title" };
+  if (!theme) return { error: "That theme doesn’t exist.", field: "themeId" };
+  if (theme.archivedAt) return { error: "That theme is archived. Restore it first or pick another.", field: "themeId" };
+  if ("error" in schedule) return schedule;
+  const slots = dateSlotsFromBody(body, schedule);
+  if ("error" in slots) return slots;
+
+  return { ...schedule, title, themeId, menu: theme.options, blurb: theme.blurb, dateSlots: slots.slots };
+}
+
+export function createDateNight(input: NewDateNight, ownerId: string, seriesId: string | null = null): string {
+  const id = nanoid(12);
+  getDb().prepare(`
+    INSERT INTO date_nights
+      (id, owner_id, series_id, title, theme_id, date_iso, start_time, duration_minutes, location, menu_json, blurb, date_slots_json, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id, ownerId, seriesId, input.title, input.themeId, input.dateIso, input.startTime, input.durationMinutes, input.location,
+    JSON.stringify(input.menu), input.blurb, input.dateSlots?.length ? JSON.stringify(input.dateSlots) : null, new Date().toISOString()
+  );
+  const dn = getDateNight(id);
+  emitEvent("date_night.created", dn, { dateNight: dateNightPayload(dn) });
+  return id;
+}
+
+/** The edit form's field values for a stored date night, so partial updates can be merged over it. */
+export function itineraryFields(dn: any): Record<string, unknown> {
+  const reminders = parseReminderRules(dn.reminder_rules_json);
+  const group = parseGroupSettings(dn.group_json);
+  return {
+    title: dn.title,
+    blurb: dn.blurb ?? "",
+    date: dn.date_iso ?? "",
+    startTime: dn.start_time ?? "",
+    durationMinutes: dn.duration_minutes ?? "",
+    location: dn.location ?? "",
+    lockIn: dn.lock_in_at ?? "",
+    timeZone: dn.time_zone ?? "",
+    maxOptionCost: dn.max_option_cost ?? "",
+    categories: parseMenu(dn.menu_json).categories,
+    nudgeAfterHours: reminders.nudgeAfterHours ?? "",
+    remindDayBefore: reminders.dayBefore ? "1" : "",
+    remindDayOf: reminders.dayOf ? "1" : "",
+    groupMode: group ? "1" : "",
+    resolutionRule: group?.rule ?? "",
+    showTally: group?.showTally ? "1" : "",
+    slots: parseDateSlots(dn.date_slots_json).map(s => ({ date: s.dateIso, time: s.startTime ?? "" })),
+    surprise: dn.reveal_at ? "1" : "",
+    revealAt: dn.reveal_at ?? "",
+  };
+}
+
+export function itineraryFromBody(body: any): Itinerary | FieldError {
+  const title = String(body.title || "").trim();
+  const parsed = menuFromForm(body.categories);
+  const schedule = scheduleFromBody(body);
+  const blurb = String(body.blurb || "").trim() || null;
+  const timeZoneRaw = String(body.timeZone || "").trim();
+  const timeZone = timeZoneRaw && isValidTimeZone(timeZoneRaw) ? timeZoneRaw : null;
+  const lockInRaw = String(body.lockIn || "").trim();
+  const lockInAt = fromDateTimeLocal(lockInRaw, timeZone);
+  const surprise = body.surprise === "1";
+  const revealRaw = String(body.revealAt || "").trim();
+  const revealAt = surprise ? fromDateTimeLocal(revealRaw, timeZone) : null;
+  const maxCostRaw = String(body.maxOptionCost ?? "").trim();
+  const maxOptionCost = maxCostRaw === "" ? null : Number(maxCostRaw);
+  const reminders = remindersFromBody(body);
+  const group = groupFromBody(body);
+  const slots = "error" in schedule ? null : dateSlotsFromBody(body, schedule);
+
+  if (!title) return { error: "Please add a title.", field: "title" };
+  if ("error" in parsed) return { error: parsed.error, field: "categories" };
+  if (timeZoneRaw && !timeZone) return { error: "That time zone isn’t one we know.", field: "timeZone" };
+  if (lockInRaw && !lockInAt) return { error: "That lock-in time doesn’t look right.", field: "lockIn" };
+  if (surprise && !revealAt) {
+    return { error: revealRaw ? "That reveal time doesn’t look right." : "Pick when the surprise is revealed.", field: "revealAt" };
+  }
+  if (maxOptionCost !== null && !(Number.isFinite(maxOptionCost) && maxOptionCost >= 0)) {
+    return { error: "The budget per option should be a number (or empty).", field: "maxOptionCost" };
+  }
+  if ("error" in schedule) return schedule;
+  if ("error" in reminders) return reminders;
+  if ("error" in group) return group;
+  if (slots && "error" in slots) return slots;
+
+  return {
+    ...schedule, title, menu: parsed.menu, blurb, lockInAt, timeZone, maxOptionCost, reminders: reminders.rules, group: group.group,
+    dateSlots: slots?.slots ?? [],
+    revealAt,
+  };
+}
+
+/** A new reveal time means the reveal email goes out again when it comes. */
+export function saveItinerary(dn: any, it: Itinerary) {
+  // Calendar apps only replace an event they already have when its SEQUENCE goes up.
+  const rescheduled =
+    (dn.date_iso ?? null) !== it.dateIso || (dn.start_time ?? null) !== it.startTime ||
+    (dn.duration_minutes ?? null) !== it.durationMinutes || (dn.location ?? null) !== it.location ||
+    dn.title !== it.title;
+
+  getDb().prepare(`
+    UPDATE date_nights
+    SET title = ?, menu_json = ?, blurb = ?, lock_in_at = ?, time_zone = ?, max_option_cost = ?,
+        date_iso = ?, start_time = ?, duration_minutes = ?, location = ?,
+        calendar_sequence = calendar_sequence + ?, reminder_rules_json = ?, group_json = ?, date_slots_json = ?,
+        reveal_sent_at = CASE WHEN reveal_at IS ? THEN reveal_sent_at END, reveal_at = ?
+    WHERE id = ?
+  `).run(
+    it.title, JSON.stringify(it.menu), it.blurb, it.lockInAt, it.timeZone, it.maxOptionCost,
+    it.dateIso, it.startTime, it.durationMinutes, it.location,
+    rescheduled ? 1 : 0, JSON.stringify(it.reminders), it.group ? JSON.stringify(it.group) : null,
+    it.dateSlots.length ? JSON.stringify(it.dateSlots) : null,
+    it.revealAt, it.revealAt, dn.id
+  );
+}
+
+/** Invites, selections, revisions and sent reminders go with it (ON DELETE CASCADE). */
+export function deleteDateNight(id: string) {
+  // Sent first: who to tell depends on the co-planners, who go with it.
+  const dn = getDateNight(id);
+  if (dn) emitEvent("date_night.deleted", dn, { dateNight: dateNightPayload(dn) });
+  getDb().prepare(`DELETE FROM date_nights WHERE id = ?`).run(id);
+}
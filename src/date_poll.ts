@@ -0,0 +1,165 @@
+import { dateNightIcs, isValidTime } from "./calendar";
+import type { FieldError } from "./date_nights";
+import { getDb } from "./db";
+import { renderDateConfirmedEmail } from "./email";
+import { formatWhen } from "./format";
+import { inviteState, inviteUrl } from "./invites";
+import { queueEmail } from "./outbox";
+import { partnerBlurb } from "./surprise";
+
+/**
+ * Candidate dates a planner offers before the day is fixed. Partners say which suit them next to
+ * their picks; the planner then confirms one, which becomes the date night's date and is emailed
+ * to everyone invited. A slot is known by its own date and time ("2030-01-05T19:00"), so editing
+ * the list keeps the answers for slots that stay.
+ */
+export type DateSlot = { dateIso: string; startTime: string | null };
+
+export type Availability = "yes" | "maybe" | "no";
+
+export const AVAILABILITY: Availability[] = ["yes", "maybe", "no"];
+
+export const MAX_DATE_SLOTS = 8;
+
+export type SlotResult = DateSlot & {
+  key: string;
+  counts: Record<Availability, number>;
+  answers: Array<{ inviteId: string; recipientEmail: string | null; answer: Availability }>;
+};
+
+export function slotKey(s: DateSlot) {
+  return s.startTime ? `${s.dateIso}T${s.startTime}` : s.dateIso;
+}
+
+/** How a slot reads on pages and in emails ("January 5, 2030 at 7:00 PM"). */
+export function slotWhen(s: DateSlot, locale?: string | null) {
+  return formatWhen({ date_iso: s.dateIso, start_time: s.startTime }, locale) ?? s.dateIso;
+}
+
+export function parseDateSlots(json: string | null | undefined): DateSlot[] {
+  if (!json) return [];
+  try {
+    const raw = JSON.parse(json);
+    return Array.isArray(raw)
+      ? raw.filter(s => s && typeof s.dateIso === "string").map(s => ({ dateIso: s.dateIso, startTime: typeof s.startTime === "string" ? s.startTime : null }))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/** The slot rows of the new and edit forms (`slots[i][date]`, `slots[i][time]`); blank rows are skipped. */
+export function slotsFromBody(raw: unknown): { slots: DateSlot[] } | FieldError {
+  const rows: unknown[] = Array.isArray(raw) ? raw : raw && typeof raw === "object" ? Object.values(raw) : [];
+  const slots = new Map<string, DateSlot>();
+  for (const row of rows) {
+    if (!row || typeof row !== "object") continue;
+    const dateIso = String((row as any).date ?? "").trim();
+    const startTime = String((row as any).time ?? "").trim() || null;
+    if (!dateIso && !startTime) continue;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateIso)) return { error: "Each candidate date needs a day.", field: "slots" };
+    if (startTime && !isValidTime(startTime)) return { error: "That candidate start time doesn’t look right.", field: "slots" };
+    slots.set(slotKey({ dateIso, startTime }), { dateIso, startTime });
+  }
+  if (slots.size > MAX_DATE_SLOTS) return { error: `Offer at most ${MAX_DATE_SLOTS} candidate dates.`, field: "slots" };
+  return { slots: [...slots.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([, s]) => s) };
+}
+
+/** Partners are asked while there are candidate dates; confirming one ends the poll. */
+export function datePollOpen(dn: any) {
+  return parseDateSlots(dn.date_slots_json).length > 0;
+}
+
+/**
+ * Saves a partner's `availability[slot]` answers from the invite form, replacing earlier ones.
+ * Unknown slots and answers are ignored; true when anything changed.
+ */
+export function recordAvailability(dn: any, inviteId: string, raw: unknown): boolean {
+  const keys = new Set(parseDateSlots(dn.date_slots_json).map(slotKey));
+  const answers = Object.entries(raw && typeof raw === "object" ? raw : {})
+    .filter((e): e is [string, Availability] => keys.has(e[0]) && AVAILABILITY.includes(e[1] as Availability));
+  const before = availabilityFor(inviteId);
+  const changed = answers.length !== Object.keys(before).length || answers.some(([slot, answer]) => before[slot] !== answer);
+  if (!changed) return false;
+
+  const db = getDb();
+  const now = new Date().toISOString();
+  db.transaction(() => {
+    db.prepare(`DELETE FROM date_poll_answers WHERE invite_id = ?`).run(inviteId);
+    const insert = db.prepare(`INSERT INTO date_poll_answers (invite_id, slot, answer, updated_at) VALUES (?, ?, ?, ?)`);
+    for (const [slot, answer] of answers) insert.run(inviteId, slot, answer, now);
+  })();
+  return true;
+}
+
+export function availabilityFor(inviteId: string): Record<string, Availability> {
+  const rows = getDb().prepare(`SELECT slot, answer FROM date_poll_answers WHERE invite_id = ?`).all(inviteId) as any[];
+  return Object.fromEntries(rows.map(r => [r.slot, r.answer]));
+}
+
+/** One invitee's answers as a line for planner emails ("January 5, 2030: works • …"), or null when they gave none. */
+export function describeAvailability(dn: any, inviteId: string): string | null {
+  const mine = availabilityFor(inviteId);
+  const words: Record<Availability, string> = { yes: "works", maybe: "maybe", no: "can’t" };
+  const parts = parseDateSlots(dn.date_slots_json)
+    .filter(s => mine[slotKey(s)])
+    .map(s => `${slotWhen({ ...s, startTime: s.startTime ?? dn.start_time })}: ${words[mine[slotKey(s)]]}`);
+  return parts.length ? parts.join(" • ") : null;
+}
+
+/** Each candidate date, in date order, with the answers from invites that are still valid. */
+export function datePollResults(dn: any): SlotResult[] {
+  const rows = getDb().prepare(`
+    SELECT a.*, i.recipient_email FROM date_poll_answers a JOIN invites i ON i.id = a.invite_id
+    WHERE i.date_night_id = ? AND i.revoked_at IS NULL ORDER BY i.created_at
+  `).all(dn.id) as any[];
+  return parseDateSlots(dn.date_slots_json).map(s => {
+    const key = slotKey(s);
+    const answers = rows.filter(r => r.slot === key).map(r => ({ inviteId: r.invite_id, recipientEmail: r.recipient_email, answer: r.answer }));
+    const counts = { yes: 0, maybe: 0, no: 0 };
+    for (const a of answers) counts[a.answer as Availability]++;
+    return { ...s, key, counts, answers };
+  });
+}
+
+/**
+ * Makes a candidate the date night's date (keeping the usual start time when the slot has none)
+ * and closes the poll, then emails every invitee with an address the settled date (in their
+ * language, with a calendar invite).
+ */
+export async function confirmDateSlot(dn: any, key: string): Promise<{ ok: true } | { error: string }> {
+  const slot = parseDateSlots(dn.date_slots_json).find(s => slotKey(s) === key);
+  if (!slot) return { error: "That date isn’t one of the candidates." };
+
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE date_nights SET date_iso = ?, start_time = ?, date_slots_json = NULL, calendar_sequence = calendar_sequence + 1
+      WHERE id = ?
+    `).run(slot.dateIso, slot.startTime ?? dn.start_time, dn.id);
+    db.prepare(`DELETE FROM date_poll_answers WHERE invite_id IN (SELECT id FROM invites WHERE date_night_id = ?)`).run(dn.id);
+  })();
+
+  const updated = db.prepare(`SELECT * FROM date_nights WHERE id = ?`).get(dn.id) as any;
+  const invites = (db.prepare(`SELECT * FROM invites WHERE date_night_id = ? AND recipient_email IS NOT NULL`).all(dn.id) as any[])
+    .filter(inv => inviteState(inv) !== "revoked");
+  for (const inv of invites) {
+    const url = inviteUrl(inv.token);
+    const ics = dateNightIcs(updated, { description: partnerBlurb(updated, updated.blurb, inv.locale) || undefined, url });
+    const email = renderDateConfirmedEmail({
+      title: updated.title,
+      whenText: formatWhen(updated, inv.locale) ?? slotWhen(slot, inv.locale),
+      location: updated.location,
+      inviteUrl: url,
+      locale: inv.locale,
+    });
+    await queueEmail({
+      kind: "date_confirmed",
+      inviteId: inv.id,
+      to: inv.recipient_email,
+      ...email,
+      attachments: ics ? [{ filename: "date-night.ics", content: ics, contentType: "text/calendar; charset=utf-8; method=PUBLISH" }] : undefined,
+    });
+  }
+  return { ok: true };
+}
@@ -1,6 +1,9 @@
 import Database from "better-sqlite3";
 import path from "path";
 
+import { MIGRATIONS } from "./migrations";
+import { BUILTIN_THEMES } from "./builtin_themes";
+
 const DB_PATH = process.env.DB_PATH || path.join(process.cwd(), "data.sqlite");
 let db: Database.Database;
 
@@ -8,42 +11,82 @@ export function getDb() {
   if (!db) {
     db = new Database(DB_PATH);
     db.pragma("journal_mode = WAL");
+    db.pragma("foreign_keys = ON");
     migrate(db);
+    seedThemes(db);
   }
   return db;
 }
 
-function migrate(d: Database.Database) {
-  d.exec(`
-    CREATE TABLE IF NOT EXISTS date_nights (
-        id TEXT PRIMARY KEY,
-        title TEXT NOT NULL,
-        theme_id TEXT NOT NULL,
-        date_iso TEXT,
-        menu_json TEXT NOT NULL,
-        blurb TEXT,
-        created_at TEXT NOT NULL
-    );
-
-    CREATE TABLE IF NOT EXISTS invites (
-      id TEXT PRIMARY KEY,
-      date_night_id TEXT NOT NULL,
-      token TEXT NOT NULL UNIQUE,
-      recipient_email TEXT,
-      used_at TEXT,
-      created_at TEXT NOT NULL
-    );
-
-    CREATE TABLE IF NOT EXISTS selections (
-      id TEXT PRIMARY KEY,
-      invite_id TEXT NOT NULL UNIQUE,
-      dinner_choice TEXT NOT NULL,
-      activity_choice TEXT NOT NULL,
-      mood_choice TEXT NOT NULL,
-      notes TEXT,
-      created_at TEXT NOT NULL
-    );
-  `);
+export function dbPath() {
+  return DB_PATH;
+}
+
+export function schemaVersion(d: Database.Database = getDb()): number {
+  return d.pragma("user_version", { simple: true }) as number;
 }
 
+export function latestSchemaVersion() {
+  return MIGRATIONS[MIGRATIONS.length - 1].version;
+}
+
+/**
+ * Writes a consistent copy of the database next to it (`VACUUM INTO` is safe while the app is
+ * running) and returns its path.
+ */
+export function backupDatabase(label = "manual", d: Database.Database = getDb()): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const file = `${DB_PATH}.${stamp}.${label}.bak`;
+  d.prepare(`VACUUM INTO ?`).run(file);
+  return file;
+}
+
+/**
+ * Applies pending migrations one transaction each. An existing database is backed up first
+ * unless DB_BACKUP_BEFORE_MIGRATE=off.
+ */
+function migrate(d: Database.Database) {
+  const current = schemaVersion(d);
+  if (current > latestSchemaVersion()) {
+    throw new Error(`Database schema v${current} is newer than this app understands (v${latestSchemaVersion()}).`);
+  }
+
+  const pending = MIGRATIONS.filter(m => m.version > current);
+  if (pending.length === 0) return;
+
+  const hasData = d.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'`).get();
+  if (hasData && process.env.DB_BACKUP_BEFORE_MIGRATE !== "off" && DB_PATH !== ":memory:") {
+    const file = backupDatabase(`before-v${pending[pending.length - 1].version}`, d);
+    console.log(`[db] backed up schema v${current} to ${file}`);
+  }
+
+  for (const m of pending) {
+    // Foreign key enforcement can only be switched outside a transaction.
+    if (m.rebuildsTables) d.pragma("foreign_keys = OFF");
+    try {
+      d.transaction(() => {
+        m.up(d);
+        if (m.rebuildsTables) {
+          const problems = d.pragma("foreign_key_check") as unknown[];
+          if (problems.length) throw new Error(`Migration ${m.version} left ${problems.length} broken foreign keys`);
+        }
+        d.pragma(`user_version = ${m.version}`);
+      })();
+    } finally {
+      d.pragma("foreign_keys = ON");
+    }
+    console.log(`[db] applied migration ${m.version} (${m.name})`);
+  }
+}
 
+/** Built-in themes are (re)inserted if missing; planners can edit or archive them afterwards. */
+function seedThemes(d: Database.Database) {
+  const seedTheme = d.prepare(`
+    INSERT OR IGNORE INTO themes (id, name, blurb, options_json, archived_at, created_at, updated_at)
+    VALUES (?, ?, ?, ?, NULL, ?, ?)
+  `);
+  const now = new Date().toISOString();
+  for (const t of BUILTIN_THEMES) {
+    seedTheme.run(t.id, t.name, t.blurb, JSON.stringify(t.options), now, now);
+  }
+}
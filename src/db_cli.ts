@@ -0,0 +1,94 @@
+import "dotenv/config";
+import Database from "better-sqlite3";
+import fs from "fs";
+
+import { backupDatabase, dbPath, getDb, latestSchemaVersion, schemaVersion } from "./db";
+import { MIGRATIONS } from "./migrations";
+import { describeImport, exportDateNights, importExport, validateExport, type ExportDocument } from "./transfer";
+import { getUserByEmail, listUsers } from "./users";
+
+/**
+ * Usage: `npm run db -- status | migrate | backup | export | import`.
+ * The app migrates on startup too; this lets a planner check or back up first.
+ *
+ *   export [--date-night <id>] [--out <file>]    JSON export of one or every date night (stdout by default)
+ *   import <file> [--owner <email>] [--dry-run]  import an export for a planner (the only one if omitted)
+ */
+const command = process.argv[2] || "status";
+const args = process.argv.slice(3);
+
+function option(name: string): string | undefined {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 ? args[i + 1] : undefined;
+}
+
+/** Reads the version without opening through getDb(), which would migrate. */
+function onDiskVersion() {
+  if (!fs.existsSync(dbPath())) return 0;
+  const d = new Database(dbPath(), { readonly: true });
+  try {
+    return schemaVersion(d);
+  } finally {
+    d.close();
+  }
+}
+
+function runExport() {
+  const id = option("date-night");
+  const rows = id
+    ? getDb().prepare(`SELECT * FROM date_nights WHERE id = ?`).all(id)
+    : getDb().prepare(`SELECT * FROM date_nights ORDER BY created_at`).all();
+  if (id && rows.length === 0) throw new Error(`No date night with id "${id}".`);
+
+  const json = JSON.stringify(exportDateNights(rows), null, 2);
+  const out = option("out");
+  if (!out) return console.log(json);
+  fs.writeFileSync(out, json);
+  console.error(`Exported ${rows.length} date night${rows.length === 1 ? "" : "s"} to ${out}`);
+}
+
+function runImport() {
+  const file = args.find(a => !a.startsWith("--") && a !== option("owner"));
+  if (!file) throw new Error("Usage: import <file> [--owner <email>] [--dry-run]");
+
+  const email = option("owner");
+  const users = listUsers();
+  const owner = email ? getUserByEmail(email) : users.length === 1 ? users[0] : undefined;
+  if (!owner) {
+    throw new Error(email ? `No planner with email "${email}".` : "Pass --owner <email> to say whose date nights these become.");
+  }
+
+  const doc = JSON.parse(fs.readFileSync(file, "utf8"));
+  const errors = validateExport(doc);
+  if (errors.length) throw new Error(`The export can’t be imported:\n  ${errors.join("\n  ")}`);
+
+  const report = importExport(doc as ExportDocument, owner.id, { dryRun: args.includes("--dry-run") });
+  console.log(`${report.dryRun ? "Would import" : "Imported"} ${describeImport(report)} for ${owner.email}.`);
+  if (report.themesKept.length) console.log(`Kept existing themes: ${report.themesKept.join(", ")}`);
+  if (report.remappedIds) console.log(`Fresh ids for ${report.remappedIds} clashing records.`);
+  if (report.regeneratedTokens) console.log(`New links for ${report.regeneratedTokens} clashing invites.`);
+}
+
+try {
+  if (command === "status") {
+    const current = onDiskVersion();
+    console.log(`${dbPath()}: schema v${current} of v${latestSchemaVersion()}`);
+    for (const m of MIGRATIONS.filter(m => m.version > current)) console.log(`  pending: ${m.version} ${m.name}`);
+  } else if (command === "migrate") {
+    const before = onDiskVersion();
+    getDb();
+    console.log(before === latestSchemaVersion() ? "Already up to date." : `Migrated v${before} → v${latestSchemaVersion()}.`);
+  } else if (command === "backup") {
+    console.log(`Backed up to ${backupDatabase()}`);
+  } else if (command === "export") {
+    runExport();
+  } else if (command === "import") {
+    runImport();
+  } else {
+    console.error(`Unknown command "${command}". Try status, migrate, backup, export or import.`);
+    process.exitCode = 1;
+  }
+} catch (e) {
+  console.error(e instanceof Error ? e.message : e);
+  process.exitCode = 1;
+}
@@ -1,99 +1,314 @@
-function esc(s: string) {
-  return s.replace(/[&<>"']/g, c => ({ "&":"&amp;","<":"&lt;",">":"&gt;",'"':"&quot;","'":"&#39;" }[c] as string));
+import { esc, renderEmailTemplate, tHtml, type EmailTemplateVars } from "./email_templates";
+import { getEmailTransport, type EmailAttachment } from "./email_transport";
+import { t } from "./i18n";
+
+/** Fills in the variables an email kind doesn't have, so every template sees the same set. */
+function templateVars(vars: Partial<EmailTemplateVars> & { title: string; themeName: string }): EmailTemplateVars {
+  return { blurb: "", inviteUrl: "", whenText: "", notes: "", picks: [], tasks: [], shopping: [], checklistUrl: "", ...vars };
+}
+
+/**
+ * Emails to a partner take the invite's `locale`; planner emails are always English. Values like
+ * `whenText` should already be formatted in that locale.
+ */
+export function renderInviteEmail(args: {
+  themeId: string; title: string; themeName: string; blurb: string; inviteUrl: string; locale?: string | null;
+}) {
+  const { themeId, locale, ...vars } = args;
+  return renderEmailTemplate("invite", themeId, templateVars(vars), locale);
 }
 
-export function renderInviteEmail(args: { title: string; themeName: string; themeBlurb: string; inviteUrl: string }) {
+/**
+ * One chosen category, already formatted for display (see `describePicks`); `details` describes the
+ * chosen option (description, cost, tags) when it has any.
+ */
+export type PickLine = { label: string; value: string; details?: string };
+
+export function renderPlannerEmail(args: {
+  themeId: string; title: string; themeName: string; blurb?: string | null; inviteUrl: string;
+  picks: PickLine[]; notes?: string | null;
+  checklist?: { tasks: Array<{ text: string; due: string }>; shopping: Array<{ item: string; forOptions: string }>; url: string };
+}) {
+  const { themeId, blurb, notes, checklist, ...vars } = args;
+  const prep = checklist && (checklist.tasks.length || checklist.shopping.length)
+    ? { tasks: checklist.tasks, shopping: checklist.shopping, checklistUrl: checklist.url }
+    : {};
+  return renderEmailTemplate("planner", themeId, templateVars({ ...vars, ...prep, blurb: blurb ?? "", notes: notes?.trim() ?? "" }));
+}
+
+type PicksSnapshot = { picks: PickLine[]; notes?: string | null };
+
+/** Same shape as the planner email, but each changed pick is marked with what it was before. */
+export function renderPlannerUpdateEmail(args: {
+  title: string; themeName: string; inviteUrl: string;
+  previous: PicksSnapshot; current: PicksSnapshot;
+}) {
+  const previousByLabel = new Map(args.previous.picks.map(p => [p.label, p.value]));
+  const rows: Array<[string, string, string]> = args.current.picks.map(p => [p.label, previousByLabel.get(p.label) ?? "", p.value]);
+  rows.push(["Note", args.previous.notes?.trim() || "", args.current.notes?.trim() || ""]);
+  const shown = rows.filter(([label, before, now]) => label !== "Note" || before || now);
+  const changed = (before: string, now: string) => before !== now;
+
   return {
-    subject: `A cozy invite: ${args.title} 🌿`,
+    subject: `Updated picks for "${args.title}" ✨`,
     html: `
       <div style="font-family:system-ui;background:#fbf6ee;padding:24px;">
         <div style="max-width:640px;margin:0 auto;background:#fffaf2;border:1px solid #e7dccb;border-radius:18px;padding:18px;">
-          <h2 style="margin:0 0 10px;">🌼 You’ve got a cozy invite</h2>
+          <h2 style="margin:0 0 10px;">✨ Picks were updated</h2>
           <p style="margin:0 0 12px;color:#6b645b;line-height:1.6">
-            <strong>${esc(args.title)}</strong><br/>
-            Theme: <strong>${esc(args.themeName)}</strong><br/>
-            <em>${esc(args.themeBlurb)}</em>
+            <strong>${esc(args.title)}</strong> • Theme: <strong>${esc(args.themeName)}</strong>
+          </p>
+          <ul style="margin:0;padding-left:18px;line-height:1.7">
+            ${shown.map(([label, before, now]) => changed(before, now)
+              ? `<li style="background:#f3ecd9;border-radius:6px;"><strong>${esc(label)}:</strong> ${esc(now || "—")} <span style="color:#6b645b;font-size:12px;">(was ${esc(before || "—")})</span></li>`
+              : `<li><strong>${esc(label)}:</strong> ${esc(now)}</li>`).join("\n            ")}
+          </ul>
+          <p style="margin:12px 0 0;color:#6b645b;font-size:12px;">Invite link: ${esc(args.inviteUrl)}</p>
+        </div>
+      </div>
+    `,
+    text:
+      `Updated picks for "${args.title}" (Theme: ${args.themeName})\n` +
+      shown.map(([label, before, now]) =>
+        changed(before, now) ? `* ${label}: ${now || "—"} (was ${before || "—"})` : `- ${label}: ${now}`
+      ).join("\n") +
+      `\nInvite: ${args.inviteUrl}`,
+  };
+}
+
+export function renderPartnerConfirmationEmail(args: {
+  themeId: string; title: string; themeName: string; blurb?: string | null; inviteUrl: string;
+  whenText?: string | null; picks: PickLine[]; notes?: string | null; locale?: string | null;
+}) {
+  const { themeId, blurb, whenText, notes, locale, ...vars } = args;
+  return renderEmailTemplate(
+    "partner_confirmation",
+    themeId,
+    templateVars({ ...vars, blurb: blurb ?? "", whenText: whenText ?? "", notes: notes?.trim() ?? "" }),
+    locale
+  );
+}
+
+export async function sendEmail(opts: {
+  to: string; subject: string; html: string; text?: string; attachments?: EmailAttachment[];
+}) {
+  const from = process.env.EMAIL_FROM?.trim() || "Date Night Cottage <onboarding@resend.dev>";
+  await getEmailTransport().send({ from, ...opts });
+}
+
+export function renderNudgeEmail(args: { title: string; themeName: string; inviteUrl: string; locale?: string | null }) {
+  const l = args.locale;
+  return {
+    subject: t(l, "email.nudge.subject", { title: args.title }),
+    html: `
+      <div style="font-family:system-ui;background:#fbf6ee;padding:24px;">
+        <div style="max-width:640px;margin:0 auto;background:#fffaf2;border:1px solid #e7dccb;border-radius:18px;padding:18px;">
+          <h2 style="margin:0 0 10px;">${tHtml(l, "email.nudge.heading")}</h2>
+          <p style="margin:0 0 12px;color:#6b645b;line-height:1.6">
+            ${tHtml(l, "email.nudge.body", { title: `<strong>${esc(args.title)}</strong>`, theme: esc(args.themeName) })}
           </p>
-          <p style="margin:0 0 14px;line-height:1.6">Tap below to choose a few sweet options.</p>
           <a href="${args.inviteUrl}" style="display:inline-block;background:#7a8f62;color:#fff;text-decoration:none;padding:12px 16px;border-radius:14px;font-weight:700;">
-            Choose my cozy picks 🌿
+            ${tHtml(l, "email.pickButton")}
           </a>
-          <p style="margin:12px 0 0;color:#6b645b;font-size:12px;">Link: ${esc(args.inviteUrl)}</p>
+          <p style="margin:12px 0 0;color:#6b645b;font-size:12px;">${tHtml(l, "label.link")} ${esc(args.inviteUrl)}</p>
         </div>
       </div>
     `,
-    text: `Cozy invite: ${args.title}\nTheme: ${args.themeName}\nPick here: ${args.inviteUrl}`,
+    text: t(l, "email.nudge.text", { title: args.title, url: args.inviteUrl }),
   };
 }
 
-export function renderPlannerEmail(args: {
-  title: string; themeName: string; inviteUrl: string;
-  dinner: string; activity: string; mood: string; notes?: string | null;
+export function renderDayBeforeEmail(args: { title: string; whenText: string; location?: string | null; locale?: string | null }) {
+  const l = args.locale;
+  return {
+    subject: t(l, "email.dayBefore.subject", { title: args.title }),
+    html: `
+      <div style="font-family:system-ui;background:#fbf6ee;padding:24px;">
+        <div style="max-width:640px;margin:0 auto;background:#fffaf2;border:1px solid #e7dccb;border-radius:18px;padding:18px;">
+          <h2 style="margin:0 0 10px;">${tHtml(l, "email.dayBefore.heading")}</h2>
+          <p style="margin:0;color:#6b645b;line-height:1.7">
+            <strong>${esc(args.title)}</strong><br/>
+            ${tHtml(l, "label.when")} <strong>${esc(args.whenText)}</strong>
+            ${args.location ? `<br/>${tHtml(l, "label.where")} <strong>${esc(args.location)}</strong>` : ""}
+          </p>
+        </div>
+      </div>
+    `,
+    text:
+      `${t(l, "email.dayBefore.text", { title: args.title })}\n${t(l, "label.when")} ${args.whenText}` +
+      (args.location ? `\n${t(l, "label.where")} ${args.location}` : ""),
+  };
+}
+
+export function renderDayOfEmail(args: {
+  title: string; whenText: string; location?: string | null; picks: PickLine[]; locale?: string | null;
 }) {
-  const notes = args.notes?.trim() ? `\nNote: ${args.notes.trim()}` : "";
+  const l = args.locale;
   return {
-    subject: `Selections for "${args.title}" 👀`,
+    subject: t(l, "email.dayOf.subject", { title: args.title }),
     html: `
       <div style="font-family:system-ui;background:#fbf6ee;padding:24px;">
         <div style="max-width:640px;margin:0 auto;background:#fffaf2;border:1px solid #e7dccb;border-radius:18px;padding:18px;">
-          <h2 style="margin:0 0 10px;">👀 Picks are in</h2>
+          <h2 style="margin:0 0 10px;">${tHtml(l, "email.dayOf.heading")}</h2>
           <p style="margin:0 0 12px;color:#6b645b;line-height:1.6">
-            <strong>${esc(args.title)}</strong> • Theme: <strong>${esc(args.themeName)}</strong>
+            <strong>${esc(args.title)}</strong> • ${esc(args.whenText)}
+            ${args.location ? `<br/>${tHtml(l, "label.where")} <strong>${esc(args.location)}</strong>` : ""}
           </p>
           <ul style="margin:0;padding-left:18px;line-height:1.7">
-            <li><strong>Dinner:</strong> ${esc(args.dinner)}</li>
-            <li><strong>Activity:</strong> ${esc(args.activity)}</li>
-            <li><strong>Mood:</strong> ${esc(args.mood)}</li>
+            ${args.picks.map(p => `<li><strong>${esc(p.label)}:</strong> ${esc(p.value)}</li>`).join("\n            ")}
           </ul>
-          ${args.notes?.trim() ? `<p style="margin:12px 0 0;"><strong>Note:</strong> ${esc(args.notes.trim())}</p>` : ""}
-          <p style="margin:12px 0 0;color:#6b645b;font-size:12px;">Invite link: ${esc(args.inviteUrl)}</p>
         </div>
       </div>
     `,
     text:
-      `Selections for "${args.title}" (Theme: ${args.themeName})\n` +
-      `- Dinner: ${args.dinner}\n- Activity: ${args.activity}\n- Mood: ${args.mood}\n` +
-      `${notes}\nInvite: ${args.inviteUrl}`,
+      `${t(l, "email.dayOf.text", { title: args.title, when: args.whenText })}\n` +
+      (args.location ? `${t(l, "label.where")} ${args.location}\n` : "") +
+      args.picks.map(p => `- ${p.label}: ${p.value}\n`).join(""),
   };
 }
 
-export function renderPartnerConfirmationEmail(args: { title: string; themeName: string }) {
+/** A group date night's outcome, to every invitee (in their language) and, without a link, to planners. */
+export function renderFinalPlanEmail(args: {
+  title: string; whenText: string | null; location?: string | null; picks: PickLine[]; url: string | null; locale?: string | null;
+}) {
+  const l = args.locale;
   return {
-    subject: `You’re all set for "${args.title}" 🕯️`,
+    subject: t(l, "email.finalPlan.subject", { title: args.title }),
     html: `
       <div style="font-family:system-ui;background:#fbf6ee;padding:24px;">
         <div style="max-width:640px;margin:0 auto;background:#fffaf2;border:1px solid #e7dccb;border-radius:18px;padding:18px;">
-          <h2 style="margin:0 0 10px;">🕯️ All set, love</h2>
-          <p style="margin:0;color:#6b645b;line-height:1.7">
-            Your choices are in for <strong>${esc(args.title)}</strong>.<br/>
-            Theme: <strong>${esc(args.themeName)}</strong>.
-          </p>
-          <p style="margin:12px 0 0;line-height:1.7">
-            You don’t need to plan a thing — just show up and be cozy.<br/>
-            <strong>You’ll be taken care of.</strong> 💛
+          <h2 style="margin:0 0 10px;">${tHtml(l, "email.finalPlan.heading")}</h2>
+          <p style="margin:0 0 12px;color:#6b645b;line-height:1.6">
+            ${tHtml(l, "email.finalPlan.intro", { title: `<strong>${esc(args.title)}</strong>` })}
+            ${args.whenText ? `<br/>${tHtml(l, "label.when")} <strong>${esc(args.whenText)}</strong>` : ""}
+            ${args.location ? `<br/>${tHtml(l, "label.where")} <strong>${esc(args.location)}</strong>` : ""}
           </p>
+          <ul style="margin:0;padding-left:18px;line-height:1.7">
+            ${args.picks.map(p => `<li><strong>${esc(p.label)}:</strong> ${esc(p.value)}</li>`).join("\n            ")}
+          </ul>
+          ${args.url ? `<p style="margin:12px 0 0;color:#6b645b;font-size:12px;">${tHtml(l, "label.link")} ${esc(args.url)}</p>` : ""}
         </div>
       </div>
     `,
-    text: `You're all set for "${args.title}" (Theme: ${args.themeName}). You’ll be taken care of 💛`,
+    text:
+      `${t(l, "email.finalPlan.intro", { title: args.title })}\n` +
+      (args.whenText ? `${t(l, "label.when")} ${args.whenText}\n` : "") +
+      (args.location ? `${t(l, "label.where")} ${args.location}\n` : "") +
+      args.picks.map(p => `- ${p.label}: ${p.value}\n`).join("") +
+      (args.url ? `${t(l, "label.link")} ${args.url}` : ""),
   };
 }
 
+/** To each partner who picked, at a surprise date night's reveal time: the real picks and blurb. */
+export function renderRevealEmail(args: {
+  title: string; whenText: string | null; location?: string | null; blurb?: string | null; picks: PickLine[]; planUrl: string; locale?: string | null;
+}) {
+  const l = args.locale;
+  return {
+    subject: t(l, "email.reveal.subject", { title: args.title }),
+    html: `
+      <div style="font-family:system-ui;background:#fbf6ee;padding:24px;">
+        <div style="max-width:640px;margin:0 auto;background:#fffaf2;border:1px solid #e7dccb;border-radius:18px;padding:18px;">
+          <h2 style="margin:0 0 10px;">${tHtml(l, "email.reveal.heading")}</h2>
+          <p style="margin:0 0 12px;color:#6b645b;line-height:1.6">
+            ${tHtml(l, "email.reveal.intro", { title: `<strong>${esc(args.title)}</strong>` })}
+            ${args.whenText ? `<br/>${tHtml(l, "label.when")} <strong>${esc(args.whenText)}</strong>` : ""}
+            ${args.location ? `<br/>${tHtml(l, "label.where")} <strong>${esc(args.location)}</strong>` : ""}
+          </p>
+          ${args.blurb ? `<p style="margin:0 0 12px;line-height:1.6"><em>${esc(args.blurb)}</em></p>` : ""}
+          <ul style="margin:0;padding-left:18px;line-height:1.7">
+            ${args.picks.map(p => `<li><strong>${esc(p.label)}:</strong> ${esc(p.value)}${p.details ? `<br/><span style="color:#6b645b;font-size:13px;">${esc(p.details)}</span>` : ""}</li>`).join("\n            ")}
+          </ul>
+          <p style="margin:12px 0 0;color:#6b645b;font-size:12px;">${tHtml(l, "email.reveal.planLink")} ${esc(args.planUrl)}</p>
+        </div>
+      </div>
+    `,
+    text:
+      `${t(l, "email.reveal.intro", { title: args.title })}\n` +
+      (args.whenText ? `${t(l, "label.when")} ${args.whenText}\n` : "") +
+      (args.location ? `${t(l, "label.where")} ${args.location}\n` : "") +
+      (args.blurb ? `${args.blurb}\n` : "") +
+      args.picks.map(p => `- ${p.label}: ${p.value}${p.details ? ` (${p.details})` : ""}\n`).join("") +
+      `${t(l, "email.reveal.planLink")} ${args.planUrl}`,
+  };
+}
 
-export async function sendEmail(opts: { to: string; subject: string; html: string; text?: string }) {
-  const apiKey = process.env.RESEND_API_KEY?.trim();
-  const from = process.env.EMAIL_FROM?.trim() || "Date Night Cottage <onboarding@resend.dev>";
-
-  if (!apiKey) {
-    console.log("[email:stub]", { from, ...opts });
-    return;
-  }
+/** To each invitee once the planner settles on one of the candidate dates; the calendar invite is attached. */
+export function renderDateConfirmedEmail(args: {
+  title: string; whenText: string; location?: string | null; inviteUrl: string; locale?: string | null;
+}) {
+  const l = args.locale;
+  return {
+    subject: t(l, "email.dateConfirmed.subject", { title: args.title }),
+    html: `
+      <div style="font-family:system-ui;background:#fbf6ee;padding:24px;">
+        <div style="max-width:640px;margin:0 auto;background:#fffaf2;border:1px solid #e7dccb;border-radius:18px;padding:18px;">
+          <h2 style="margin:0 0 10px;">${tHtml(l, "email.dateConfirmed.heading")}</h2>
+          <p style="margin:0;color:#6b645b;line-height:1.7">
+            ${tHtml(l, "email.dateConfirmed.body", { title: `<strong>${esc(args.title)}</strong>`, when: `<strong>${esc(args.whenText)}</strong>` })}
+            ${args.location ? `<br/>${tHtml(l, "label.where")} <strong>${esc(args.location)}</strong>` : ""}
+          </p>
+          <p style="margin:12px 0 0;color:#6b645b;font-size:12px;">${tHtml(l, "label.link")} ${esc(args.inviteUrl)}</p>
+        </div>
+      </div>
+    `,
+    text:
+      `${t(l, "email.dateConfirmed.body", { title: args.title, when: args.whenText })}\n` +
+      `${t(l, "email.confirmation.textWhen", { when: args.whenText })}\n` +
+      (args.location ? `${t(l, "label.where")} ${args.location}\n` : "") +
+      `${t(l, "label.link")} ${args.inviteUrl}`,
+  };
+}
 
-  const res = await fetch("https://api.resend.com/emails", {
-    method: "POST",
-    headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
-    body: JSON.stringify({ from, ...opts }),
-  });
+/** To planners when a partner writes in something that isn't on the menu. */
+export function renderPlannerSuggestionEmail(args: {
+  title: string; themeName: string; suggestions: Array<{ label: string; text: string }>; reviewUrl: string;
+}) {
+  return {
+    subject: `A new idea for "${args.title}" 💡`,
+    html: `
+      <div style="font-family:system-ui;background:#fbf6ee;padding:24px;">
+        <div style="max-width:640px;margin:0 auto;background:#fffaf2;border:1px solid #e7dccb;border-radius:18px;padding:18px;">
+          <h2 style="margin:0 0 10px;">💡 Your partner suggested something</h2>
+          <p style="margin:0 0 12px;color:#6b645b;line-height:1.6">
+            <strong>${esc(args.title)}</strong> • Theme: <strong>${esc(args.themeName)}</strong>
+          </p>
+          <ul style="margin:0;padding-left:18px;line-height:1.7">
+            ${args.suggestions.map(s => `<li><strong>${esc(s.label)}:</strong> ${esc(s.text)}</li>`).join("\n            ")}
+          </ul>
+          <p style="margin:12px 0 0;"><a href="${esc(args.reviewUrl)}" style="color:#7a8f62;">Accept or decline 🌿</a></p>
+        </div>
+      </div>
+    `,
+    text:
+      `A new idea for "${args.title}" (Theme: ${args.themeName})\n` +
+      args.suggestions.map(s => `- ${s.label}: ${s.text}\n`).join("") +
+      `Accept or decline: ${args.reviewUrl}`,
+  };
+}
 
-  if (!res.ok) throw new Error(`Resend failed: ${res.status} ${await res.text()}`);
+/** Back to the partner once a planner answers their suggestion, with the planner's note if any. */
+export function renderSuggestionReplyEmail(args: {
+  title: string; suggestion: string; accepted: boolean; reply?: string | null; inviteUrl: string; locale?: string | null;
+}) {
+  const l = args.locale;
+  const vars = { suggestion: args.suggestion, title: args.title };
+  const body = args.accepted ? "email.suggestion.accepted" : "email.suggestion.declined";
+  const reply = args.reply?.trim();
+  return {
+    subject: t(l, args.accepted ? "email.suggestion.acceptedSubject" : "email.suggestion.declinedSubject", vars),
+    html: `
+      <div style="font-family:system-ui;background:#fbf6ee;padding:24px;">
+        <div style="max-width:640px;margin:0 auto;background:#fffaf2;border:1px solid #e7dccb;border-radius:18px;padding:18px;">
+          <h2 style="margin:0 0 10px;">${tHtml(l, args.accepted ? "email.suggestion.acceptedHeading" : "email.suggestion.declinedHeading")}</h2>
+          <p style="margin:0;line-height:1.7">
+            ${tHtml(l, body, { suggestion: `<strong>${esc(args.suggestion)}</strong>`, title: `<strong>${esc(args.title)}</strong>` })}
+          </p>
+          ${reply ? `<p style="margin:12px 0 0;line-height:1.7;"><em>“${esc(reply)}”</em></p>` : ""}
+          <p style="margin:12px 0 0;color:#6b645b;font-size:12px;">${tHtml(l, "label.link")} ${esc(args.inviteUrl)}</p>
+        </div>
+      </div>
+    `,
+    text: t(l, body, vars) + (reply ? `\n\n“${reply}”` : "") + `\n${t(l, "label.link")} ${args.inviteUrl}`,
+  };
 }
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { defaultTemplate, EMAIL_TEMPLATE_KINDS, renderTemplate, validateTemplate, type EmailTemplateVars } from "./email_templates";
+import { LOCALES } from "./i18n";
+
+const vars: EmailTemplateVars = {
+  title: "Fish & <chips>",
+  themeName: "Seaside",
+  blurb: "",
+  inviteUrl: "http://cottage.test/invite/abc",
+  whenText: "",
+  notes: "Extra vinegar",
+  picks: [{ label: "Dinner", value: "Chips", details: "" }, { label: "Mood", value: "Breezy", details: "£5" }],
+  tasks: [],
+  shopping: [],
+  checklistUrl: "",
+};
+
+const template = (subject: string, html = "<p>{{title}}</p>", text = "") => ({ subject, html, text });
+
+test("fills in variables, escaping them in the HTML body only", () => {
+  const out = renderTemplate(template("Picks for {{title}}", "<h1>{{ title }}</h1>", "{{title}} • {{themeName}}"), vars);
+  assert.equal(out.subject, "Picks for Fish & <chips>");
+  assert.equal(out.html, "<h1>Fish &amp; &lt;chips&gt;</h1>");
+  assert.equal(out.text, "Fish & <chips> • Seaside");
+});
+
+test("sections show when set, inverted ones when not, and lists repeat with their own fields", () => {
+  const html = "{{#notes}}Note: {{notes}}{{/notes}}{{^whenText}} (no date yet){{/whenText}}{{#picks}}[{{label}}: {{value}}{{#details}} ({{details}}){{/details}}]{{/picks}}{{#tasks}}never{{/tasks}}";
+  assert.equal(renderTemplate(template("x", html), vars).html, "Note: Extra vinegar (no date yet)[Dinner: Chips][Mood: Breezy (£5)]");
+});
+
+test("a template that wouldn't render can't be saved, and the error says where", () => {
+  const cases: Array<[ReturnType<typeof template>, string]> = [
+    [template("Hi {{name}}"), "Subject: Unknown variable {{name}}."],
+    [template("Hi", "{{picks}}"), "HTML body: {{picks}} is a list; use {{#picks}}…{{/picks}}."],
+    [template("Hi", "{{label}}"), "HTML body: Unknown variable {{label}}."],
+    [template("Hi", "{{#notes}}open"), "HTML body: {{#notes}} is never closed."],
+    [template("Hi", "{{#notes}}x{{/title}}"), "HTML body: {{/title}} doesn’t close an open {{#title}}."],
+    [template("Hi", "<p>ok</p>", "{{ broken"), "Text body: There’s a “{{” that isn’t a valid tag near “{{ broken”."],
+    [template("Two\nlines"), "The subject has to fit on one line."],
+  ];
+  for (const [t, error] of cases) assert.equal(validateTemplate(t)?.error, error);
+});
+
+test("every built-in template is valid in every language", () => {
+  for (const { kind } of EMAIL_TEMPLATE_KINDS) {
+    for (const { code } of LOCALES) assert.equal(validateTemplate(defaultTemplate(kind, code)), null, `${kind} (${code})`);
+  }
+});
@@ -0,0 +1,299 @@
+import { nanoid } from "nanoid";
+
+import { getDb } from "./db";
+import type { PickLine } from "./email";
+import { interpolate, message, t, type MessageKey } from "./i18n";
+
+/**
+ * Editable email templates. Each kind has a built-in default that can be overridden for every
+ * theme at once or for one theme; the most specific one wins.
+ *
+ * Templates use a tiny Mustache-like syntax: `{{title}}` inserts a value (HTML-escaped in the HTML
+ * body), `{{#picks}}…{{/picks}}` repeats for each pick with `{{label}}`, `{{value}}` and `{{details}}`, and
+ * `{{#notes}}…{{/notes}}` / `{{^notes}}…{{/notes}}` show a block only when a value is (or isn't) set.
+ *
+ * The built-in templates for partner emails follow the invite's language; a stored override is sent
+ * as written, whatever the language.
+ */
+export type EmailTemplateKind = "invite" | "planner" | "partner_confirmation";
+
+export type EmailTemplate = { subject: string; html: string; text: string };
+
+export type EmailTemplateVars = {
+  title: string;
+  themeName: string;
+  blurb: string;
+  inviteUrl: string;
+  whenText: string;
+  notes: string;
+  picks: PickLine[];
+  /** Planner email only: the prep checklist built from the picks (see `prep.ts`). */
+  tasks: Array<{ text: string; due: string }>;
+  shopping: Array<{ item: string; forOptions: string }>;
+  checklistUrl: string;
+};
+
+export const EMAIL_TEMPLATE_KINDS: Array<{ kind: EmailTemplateKind; label: string }> = [
+  { kind: "invite", label: "Invite (to your partner)" },
+  { kind: "planner", label: "Picks are in (to planners)" },
+  { kind: "partner_confirmation", label: "All set (to your partner)" },
+];
+
+export const TEMPLATE_VARIABLES: Array<{ name: string; description: string }> = [
+  { name: "title", description: "Date night title" },
+  { name: "themeName", description: "Theme name" },
+  { name: "blurb", description: "Date night blurb (or the theme’s)" },
+  { name: "inviteUrl", description: "The partner’s invite link" },
+  { name: "whenText", description: "Date and time, when scheduled" },
+  { name: "notes", description: "The partner’s note, if any" },
+  { name: "picks", description: "List of picks; inside use {{label}}, {{value}} and {{details}} (the chosen option’s description, cost and tags)" },
+  { name: "tasks", description: "Prep tasks for the picks; inside use {{text}} and {{due}}" },
+  { name: "shopping", description: "Merged shopping list; inside use {{item}} and {{forOptions}}" },
+  { name: "checklistUrl", description: "Link to tick off the checklist (set only when there is one)" },
+];
+
+const LIST_VARIABLES: Record<string, string[]> = {
+  picks: ["label", "value", "details"],
+  tasks: ["text", "due"],
+  shopping: ["item", "forOptions"],
+};
+const TEXT_VARIABLES = new Set(TEMPLATE_VARIABLES.map(v => v.name).filter(n => !(n in LIST_VARIABLES)));
+
+export function esc(s: string) {
+  return s.replace(/[&<>"']/g, c => ({ "&":"&amp;","<":"&lt;",">":"&gt;",'"':"&quot;","'":"&#39;" }[c] as string));
+}
+
+/** A catalog message for HTML: the text escaped, with `{name}` placeholders filled by ready-made HTML. */
+export function tHtml(locale: string | null | undefined, key: MessageKey, html: Record<string, string> = {}) {
+  return interpolate(esc(message(locale, key)), html);
+}
+
+const CARD_OPEN = `
+      <div style="font-family:system-ui;background:#fbf6ee;padding:24px;">
+        <div style="max-width:640px;margin:0 auto;background:#fffaf2;border:1px solid #e7dccb;border-radius:18px;padding:18px;">`;
+const CARD_CLOSE = `
+        </div>
+      </div>
+    `;
+
+const PLANNER_TEMPLATE: EmailTemplate = {
+  subject: `Selections for "{{title}}" 👀`,
+  html: `${CARD_OPEN}
+          <h2 style="margin:0 0 10px;">👀 Picks are in</h2>
+          <p style="margin:0 0 12px;color:#6b645b;line-height:1.6">
+            <strong>{{title}}</strong> • Theme: <strong>{{themeName}}</strong>
+          </p>
+          <ul style="margin:0;padding-left:18px;line-height:1.7">
+            {{#picks}}<li><strong>{{label}}:</strong> {{value}}{{#details}}<br/><span style="color:#6b645b;font-size:13px;">{{details}}</span>{{/details}}</li>
+            {{/picks}}
+          </ul>
+          {{#notes}}<p style="margin:12px 0 0;"><strong>Note:</strong> {{notes}}</p>{{/notes}}
+          {{#checklistUrl}}
+          <h3 style="margin:16px 0 6px;">📝 Prep checklist</h3>
+          <ul style="margin:0;padding-left:18px;line-height:1.7">
+            {{#tasks}}<li>{{text}}{{#due}} <span style="color:#6b645b;font-size:13px;">— by {{due}}</span>{{/due}}</li>
+            {{/tasks}}{{^tasks}}<li style="color:#6b645b;">Nothing to prepare 🌿</li>{{/tasks}}
+          </ul>
+          <h3 style="margin:16px 0 6px;">🛒 Shopping list</h3>
+          <ul style="margin:0;padding-left:18px;line-height:1.7">
+            {{#shopping}}<li>{{item}} <span style="color:#6b645b;font-size:13px;">(for {{forOptions}})</span></li>
+            {{/shopping}}{{^shopping}}<li style="color:#6b645b;">Nothing to buy 🌿</li>{{/shopping}}
+          </ul>
+          <p style="margin:8px 0 0;"><a href="{{checklistUrl}}" style="color:#7a8f62;">Tick things off ✅</a></p>
+          {{/checklistUrl}}
+          <p style="margin:12px 0 0;color:#6b645b;font-size:12px;">Invite link: {{inviteUrl}}</p>${CARD_CLOSE}`,
+  text: `Selections for "{{title}}" (Theme: {{themeName}})\n{{#picks}}- {{label}}: {{value}}\n{{#details}}  {{details}}\n{{/details}}{{/picks}}{{#notes}}\nNote: {{notes}}{{/notes}}` +
+    `{{#checklistUrl}}\nPrep checklist:\n{{#tasks}}[ ] {{text}}{{#due}} (by {{due}}){{/due}}\n{{/tasks}}` +
+    `\nShopping list:\n{{#shopping}}[ ] {{item}} (for {{forOptions}})\n{{/shopping}}\nTick things off: {{checklistUrl}}\n{{/checklistUrl}}` +
+    `\nInvite: {{inviteUrl}}`,
+};
+
+/** The built-in template for a kind; partner emails are built from the catalog, planner ones stay English. */
+export function defaultTemplate(kind: EmailTemplateKind, locale?: string | null): EmailTemplate {
+  if (kind === "planner") return PLANNER_TEMPLATE;
+
+  if (kind === "invite") {
+    return {
+      subject: t(locale, "email.invite.subject", { title: "{{title}}" }),
+      html: `${CARD_OPEN}
+          <h2 style="margin:0 0 10px;">${tHtml(locale, "email.invite.heading")}</h2>
+          <p style="margin:0 0 12px;color:#6b645b;line-height:1.6">
+            <strong>{{title}}</strong><br/>
+            ${tHtml(locale, "label.theme")} <strong>{{themeName}}</strong><br/>
+            <em>{{blurb}}</em>
+          </p>
+          <p style="margin:0 0 14px;line-height:1.6">${tHtml(locale, "email.invite.body")}</p>
+          <a href="{{inviteUrl}}" style="display:inline-block;background:#7a8f62;color:#fff;text-decoration:none;padding:12px 16px;border-radius:14px;font-weight:700;">
+            ${tHtml(locale, "email.pickButton")}
+          </a>
+          <p style="margin:12px 0 0;color:#6b645b;font-size:12px;">${tHtml(locale, "label.link")} {{inviteUrl}}</p>${CARD_CLOSE}`,
+      text: t(locale, "email.invite.text", { title: "{{title}}", theme: "{{themeName}}", url: "{{inviteUrl}}" }),
+    };
+  }
+
+  return {
+    subject: t(locale, "email.confirmation.subject", { title: "{{title}}" }),
+    html: `${CARD_OPEN}
+          <h2 style="margin:0 0 10px;">${tHtml(locale, "email.confirmation.heading")}</h2>
+          <p style="margin:0;color:#6b645b;line-height:1.7">
+            ${tHtml(locale, "email.confirmation.intro", { title: "<strong>{{title}}</strong>" })}<br/>
+            ${tHtml(locale, "label.theme")} <strong>{{themeName}}</strong>.
+            {{#whenText}}<br/>${tHtml(locale, "email.confirmation.when", { when: "<strong>{{whenText}}</strong>" })}{{/whenText}}
+          </p>
+          <p style="margin:12px 0 0;line-height:1.7">
+            ${tHtml(locale, "email.confirmation.relax")}<br/>
+            <strong>${tHtml(locale, "email.confirmation.takenCare")}</strong> 💛
+          </p>${CARD_CLOSE}`,
+    text:
+      t(locale, "email.confirmation.text", { title: "{{title}}", theme: "{{themeName}}" }) +
+      `{{#whenText}} ${t(locale, "email.confirmation.textWhen", { when: "{{whenText}}" })}{{/whenText}} ` +
+      t(locale, "email.confirmation.textOutro"),
+  };
+}
+
+type Node =
+  | { type: "text"; value: string }
+  | { type: "var"; name: string }
+  | { type: "section"; name: string; inverted: boolean; children: Node[] };
+
+const TAG = /\{\{\s*([#^/]?)\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+
+/** Parses and checks a template against the known variables; errors say what and where. */
+function compile(src: string): { nodes: Node[] } | { error: string } {
+  const root: Node[] = [];
+  const stack: Array<{ name: string; children: Node[] }> = [];
+  let current = root;
+  let last = 0;
+
+  const scopeHas = (name: string) =>
+    TEXT_VARIABLES.has(name) || name in LIST_VARIABLES || stack.some(s => LIST_VARIABLES[s.name]?.includes(name));
+
+  for (const m of src.matchAll(TAG)) {
+    const text = src.slice(last, m.index);
+    if (text.includes("{{")) return { error: `There’s a “{{” that isn’t a valid tag near “${text.slice(text.indexOf("{{"), text.indexOf("{{") + 20)}”.` };
+    if (text) current.push({ type: "text", value: text });
+    last = m.index! + m[0].length;
+
+    const [, sigil, name] = m;
+    if (sigil === "/") {
+      const open = stack.pop();
+      if (!open || open.name !== name) return { error: `{{/${name}}} doesn’t close an open {{#${name}}}.` };
+      current = stack.length ? stack[stack.length - 1].children : root;
+      continue;
+    }
+    if (!scopeHas(name)) return { error: `Unknown variable {{${name}}}.` };
+    if (sigil) {
+      const node: Node = { type: "section", name, inverted: sigil === "^", children: [] };
+      current.push(node);
+      stack.push({ name, children: node.children });
+      current = node.children;
+    } else {
+      if (name in LIST_VARIABLES) return { error: `{{${name}}} is a list; use {{#${name}}}…{{/${name}}}.` };
+      current.push({ type: "var", name });
+    }
+  }
+
+  const rest = src.slice(last);
+  if (rest.includes("{{")) return { error: `There’s a “{{” that isn’t a valid tag near “${rest.slice(rest.indexOf("{{"), rest.indexOf("{{") + 20)}”.` };
+  if (stack.length) return { error: `{{#${stack[stack.length - 1].name}}} is never closed.` };
+  if (rest) root.push({ type: "text", value: rest });
+  return { nodes: root };
+}
+
+function renderNodes(nodes: Node[], scopes: Array<Record<string, unknown>>, escape: (s: string) => string): string {
+  const lookup = (name: string) => {
+    for (let i = scopes.length - 1; i >= 0; i--) if (name in scopes[i]) return scopes[i][name];
+    return "";
+  };
+  return nodes.map(n => {
+    if (n.type === "text") return n.value;
+    if (n.type === "var") return escape(String(lookup(n.name) ?? ""));
+
+    const value = lookup(n.name);
+    const truthy = Array.isArray(value) ? value.length > 0 : Boolean(value);
+    if (n.inverted) return truthy ? "" : renderNodes(n.children, scopes, escape);
+    if (!truthy) return "";
+    if (Array.isArray(value)) return value.map(item => renderNodes(n.children, [...scopes, item], escape)).join("");
+    return renderNodes(n.children, scopes, escape);
+  }).join("");
+}
+
+/** Checks a template before it is saved so a bad one never reaches an outgoing email. */
+export function validateTemplate(t: EmailTemplate): { error: string; field: keyof EmailTemplate } | null {
+  if (!t.subject.trim()) return { error: "Please add a subject.", field: "subject" };
+  if (/[\r\n]/.test(t.subject)) return { error: "The subject has to fit on one line.", field: "subject" };
+  if (!t.html.trim()) return { error: "Please add an HTML body.", field: "html" };
+  for (const field of ["subject", "html", "text"] as const) {
+    const compiled = compile(t[field]);
+    if ("error" in compiled) return { error: `${field === "html" ? "HTML body" : field === "text" ? "Text body" : "Subject"}: ${compiled.error}`, field };
+  }
+  return null;
+}
+
+export function renderTemplate(t: EmailTemplate, vars: EmailTemplateVars) {
+  const run = (src: string, escape: (s: string) => string) => {
+    const compiled = compile(src);
+    if ("error" in compiled) throw new Error(compiled.error);
+    return renderNodes(compiled.nodes, [vars], escape);
+  };
+  const plain = (s: string) => s;
+  return {
+    subject: run(t.subject, plain).trim(),
+    html: run(t.html, esc),
+    text: t.text.trim() ? run(t.text, plain) : undefined,
+  };
+}
+
+/** A stored override, for one theme or (with `themeId` null) for every theme. */
+export function getStoredTemplate(kind: EmailTemplateKind, themeId: string | null): EmailTemplate | undefined {
+  const row = getDb().prepare(`SELECT * FROM email_templates WHERE kind = ? AND theme_id IS ?`).get(kind, themeId) as any;
+  return row ? { subject: row.subject, html: row.html, text: row.text ?? "" } : undefined;
+}
+
+/** `kind` and theme id (or "" for all themes) of every stored override. */
+export function listTemplateOverrides(): Array<{ kind: EmailTemplateKind; themeId: string | null; updatedAt: string }> {
+  return (getDb().prepare(`SELECT kind, theme_id, updated_at FROM email_templates`).all() as any[])
+    .map(r => ({ kind: r.kind, themeId: r.theme_id, updatedAt: r.updated_at }));
+}
+
+export function effectiveTemplate(
+  kind: EmailTemplateKind, themeId: string | null, locale?: string | null
+): { template: EmailTemplate; source: "theme" | "global" | "default" } {
+  const forTheme = themeId ? getStoredTemplate(kind, themeId) : undefined;
+  if (forTheme) return { template: forTheme, source: "theme" };
+  const global = getStoredTemplate(kind, null);
+  if (global) return { template: global, source: "global" };
+  return { template: defaultTemplate(kind, locale), source: "default" };
+}
+
+export function saveTemplate(kind: EmailTemplateKind, themeId: string | null, t: EmailTemplate) {
+  const db = getDb();
+  const now = new Date().toISOString();
+  db.transaction(() => {
+    db.prepare(`DELETE FROM email_templates WHERE kind = ? AND theme_id IS ?`).run(kind, themeId);
+    db.prepare(`
+      INSERT INTO email_templates (id, kind, theme_id, subject, html, text, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(nanoid(12), kind, themeId, t.subject.trim(), t.html, t.text, now);
+  })();
+}
+
+/** Drops an override so the next level up (all themes, then the built-in default) applies again. */
+export function resetTemplate(kind: EmailTemplateKind, themeId: string | null) {
+  getDb().prepare(`DELETE FROM email_templates WHERE kind = ? AND theme_id IS ?`).run(kind, themeId);
+}
+
+/**
+ * Renders the template that applies to this theme. Stored templates were validated on save; should
+ * one still fail (say, edited in the database by hand) the built-in default is used instead.
+ */
+export function renderEmailTemplate(
+  kind: EmailTemplateKind, themeId: string | null, vars: EmailTemplateVars, locale?: string | null
+) {
+  const { template, source } = effectiveTemplate(kind, themeId, locale);
+  try {
+    return renderTemplate(template, vars);
+  } catch (e) {
+    console.error(`[email] ${source} ${kind} template failed, using the default`, e);
+    return renderTemplate(defaultTemplate(kind, locale), vars);
+  }
+}
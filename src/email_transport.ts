@@ -0,0 +1,118 @@
+import fs from "fs";
+import path from "path";
+import nodemailer from "nodemailer";
+import { nanoid } from "nanoid";
+
+export type EmailAttachment = { filename: string; content: string; contentType: string };
+
+export type EmailMessage = {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  attachments?: EmailAttachment[];
+};
+
+export type EmailTransport = {
+  /** Short human label shown on admin pages, e.g. "SMTP (localhost:1025)". */
+  label: string;
+  send(msg: EmailMessage): Promise<void>;
+};
+
+function consoleTransport(): EmailTransport {
+  return {
+    label: "Console (emails are logged, not sent)",
+    async send(msg) {
+      console.log("[email:stub]", msg);
+    },
+  };
+}
+
+function resendTransport(apiKey: string): EmailTransport {
+  return {
+    label: "Resend",
+    async send(msg) {
+      const res = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...msg,
+          attachments: msg.attachments?.map(a => ({
+            filename: a.filename,
+            content: Buffer.from(a.content).toString("base64"),
+            content_type: a.contentType,
+          })),
+        }),
+      });
+
+      if (!res.ok) throw new Error(`Resend failed: ${res.status} ${await res.text()}`);
+    },
+  };
+}
+
+function smtpTransport(opts: { host: string; port: number; secure: boolean; user?: string; pass?: string }): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: opts.host,
+    port: opts.port,
+    secure: opts.secure,
+    auth: opts.user ? { user: opts.user, pass: opts.pass || "" } : undefined,
+  });
+  return {
+    label: `SMTP (${opts.host}:${opts.port})`,
+    async send(msg) {
+      await transporter.sendMail(msg);
+    },
+  };
+}
+
+/** Writes each message as an .eml file so development and tests never touch a real inbox. */
+function directoryTransport(dir: string): EmailTransport {
+  const composer = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+  return {
+    label: `Outbox directory (${dir})`,
+    async send(msg) {
+      const info = await composer.sendMail(msg);
+      fs.mkdirSync(dir, { recursive: true });
+      const safeTo = msg.to.replace(/[^a-z0-9@._-]/gi, "_");
+      const file = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, "-")}-${nanoid(6)}-${safeTo}.eml`);
+      fs.writeFileSync(file, info.message as Buffer);
+    },
+  };
+}
+
+function createTransport(): EmailTransport {
+  const kind = (process.env.EMAIL_TRANSPORT || "").trim().toLowerCase();
+  const resendKey = process.env.RESEND_API_KEY?.trim();
+
+  switch (kind) {
+    case "resend":
+      if (!resendKey) throw new Error("EMAIL_TRANSPORT=resend requires RESEND_API_KEY");
+      return resendTransport(resendKey);
+    case "smtp":
+      return smtpTransport({
+        host: process.env.SMTP_HOST?.trim() || "localhost",
+        port: Number(process.env.SMTP_PORT || 1025),
+        secure: process.env.SMTP_SECURE === "true",
+        user: process.env.SMTP_USER?.trim() || undefined,
+        pass: process.env.SMTP_PASS,
+      });
+    case "file":
+    case "maildir":
+      return directoryTransport(process.env.EMAIL_OUTBOX_DIR?.trim() || path.join(process.cwd(), "outbox"));
+    case "console":
+      return consoleTransport();
+    case "":
+      // Backwards compatible default: Resend when a key is present, otherwise log to console.
+      return resendKey ? resendTransport(resendKey) : consoleTransport();
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${kind}" (expected resend, smtp, file or console)`);
+  }
+}
+
+let transport: EmailTransport;
+
+export function getEmailTransport() {
+  if (!transport) transport = createTransport();
+  return transport;
+}
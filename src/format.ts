@@ -0,0 +1,75 @@
+import { DEFAULT_LOCALE, parseLocale, t } from "./i18n";
+
+/** The Intl locale for a partner's language; anything unsupported formats as English. */
+function intlLocale(locale: string | null | undefined) {
+  return parseLocale(locale) ?? DEFAULT_LOCALE;
+}
+
+/** `date_iso` is a calendar date with no zone, so it is formatted as-is (UTC is only used as a calendar). */
+export function formatDateIso(iso: string | null, locale?: string | null): string | null {
+  if (!iso) return null;
+  try {
+    const [y, m, d] = iso.split("-").map(Number);
+    const dt = new Date(Date.UTC(y, m - 1, d));
+    return dt.toLocaleDateString(intlLocale(locale), { year: "numeric", month: "long", day: "numeric", timeZone: "UTC" });
+  } catch {
+    return iso;
+  }
+}
+
+/** "HH:MM" as the locale writes a time of day ("7:00 PM", "19:00"). */
+export function formatTime(hhmm: string, locale?: string | null): string {
+  const [hh, mm] = hhmm.split(":").map(Number);
+  const dt = new Date(Date.UTC(2000, 0, 1, hh, mm));
+  return Number.isNaN(dt.getTime()) ? hhmm : dt.toLocaleTimeString(intlLocale(locale), { hour: "numeric", minute: "2-digit", timeZone: "UTC" });
+}
+
+export function formatWhen(dn: { date_iso: string | null; start_time?: string | null }, locale?: string | null): string | null {
+  const date = formatDateIso(dn.date_iso, locale);
+  if (!date) return null;
+  return dn.start_time ? t(locale, "when.dateAtTime", { date, time: formatTime(dn.start_time, locale) }) : date;
+}
+
+/** A stored instant (e.g. `lock_in_at`) on the date night's wall clock; no zone means the server's. */
+export function formatInstant(iso: string, locale?: string | null, timeZone?: string | null): string {
+  return new Date(iso).toLocaleString(intlLocale(locale), { dateStyle: "long", timeStyle: "short", timeZone: timeZone || undefined });
+}
+
+export function isValidTimeZone(tz: string) {
+  try {
+    new Intl.DateTimeFormat("en", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function serverTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/** Year, month, day, hour, minute and second of an instant on a zone's wall clock. */
+export function zonedParts(d: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone, hourCycle: "h23", year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", second: "2-digit",
+  }).formatToParts(d);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return { year: get("year"), month: get("month"), day: get("day"), hour: get("hour"), minute: get("minute"), second: get("second") };
+}
+
+/** The instant a wall-clock time in `timeZone` refers to (the later reading when DST repeats an hour). */
+export function zonedToUtc(y: number, m: number, d: number, hh: number, mm: number, timeZone: string): Date {
+  const wall = Date.UTC(y, m - 1, d, hh, mm);
+  const offsetAt = (ms: number) => {
+    const p = zonedParts(new Date(ms), timeZone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - ms;
+  };
+  const guess = wall - offsetAt(wall);
+  return new Date(wall - offsetAt(guess));
+}
+
+/** The calendar date in the server's time zone, as stored in `date_iso`. */
+export function localDateIso(d: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
@@ -0,0 +1,71 @@
+import { en } from "./locales/en";
+import { es } from "./locales/es";
+import { fr } from "./locales/fr";
+import { de } from "./locales/de";
+
+/**
+ * Message catalogs for everything a partner sees: the invite pages and the emails sent to them.
+ * Planner pages stay in English. A message missing from a catalog falls back to the English one;
+ * `npm run i18n:check` lists what is missing.
+ */
+export type MessageKey = keyof typeof en;
+
+export type Messages = Partial<Record<MessageKey, string>>;
+
+export const LOCALES = [
+  { code: "en", name: "English" },
+  { code: "es", name: "Español" },
+  { code: "fr", name: "Français" },
+  { code: "de", name: "Deutsch" },
+] as const;
+
+export type Locale = (typeof LOCALES)[number]["code"];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+const CATALOGS: Record<Locale, Messages> = { en, es, fr, de };
+
+/** A supported locale for a code such as "fr" or "fr-CA"; undefined when there is none. */
+export function parseLocale(raw: unknown): Locale | undefined {
+  const base = String(raw ?? "").trim().toLowerCase().split(/[-_]/)[0];
+  return LOCALES.find(l => l.code === base)?.code;
+}
+
+/** The message in this locale, or the English one when it has not been translated yet. */
+export function message(locale: string | null | undefined, key: MessageKey): string {
+  return CATALOGS[parseLocale(locale) ?? DEFAULT_LOCALE][key] ?? en[key];
+}
+
+/** Fills `{name}` placeholders; unknown ones are left as they are so a mistake stays visible. */
+export function interpolate(text: string, vars: Record<string, string | number> = {}) {
+  return text.replace(/\{(\w+)\}/g, (match, name) => (name in vars ? String(vars[name]) : match));
+}
+
+export function t(locale: string | null | undefined, key: MessageKey, vars?: Record<string, string | number>) {
+  return interpolate(message(locale, key), vars);
+}
+
+export type CatalogProblem = { locale: Locale; key: string; problem: "missing" | "placeholders" };
+
+function placeholders(text: string) {
+  return [...text.matchAll(/\{(\w+)\}/g)].map(m => m[1]).sort().join(",");
+}
+
+/**
+ * Keys each translation lacks and translations whose placeholders differ from the English ones.
+ * (Keys English doesn't have are already type errors.)
+ */
+export function catalogProblems(): CatalogProblem[] {
+  const problems: CatalogProblem[] = [];
+  const keys = Object.keys(en) as MessageKey[];
+  for (const { code } of LOCALES) {
+    if (code === DEFAULT_LOCALE) continue;
+    const catalog = CATALOGS[code];
+    for (const key of keys) {
+      const text = catalog[key];
+      if (text === undefined) problems.push({ locale: code, key, problem: "missing" });
+      else if (placeholders(text) !== placeholders(en[key])) problems.push({ locale: code, key, problem: "placeholders" });
+    }
+  }
+  return problems;
+}
@@ -0,0 +1,21 @@
+import { catalogProblems, LOCALES } from "./i18n";
+
+/**
+ * Usage: `npm run i18n:check`. Lists untranslated messages (shown in English until someone
+ * translates them) and translations whose `{placeholders}` don't match; exits non-zero if any.
+ */
+const problems = catalogProblems();
+
+for (const { code, name } of LOCALES) {
+  const own = problems.filter(p => p.locale === code);
+  if (own.length === 0) continue;
+  console.log(`${name} (${code}):`);
+  for (const p of own) console.log(`  ${p.problem === "missing" ? "missing     " : "placeholders"} ${p.key}`);
+}
+
+if (problems.length === 0) {
+  console.log(`All ${LOCALES.length - 1} translations are complete.`);
+} else {
+  console.log(`${problems.length} message${problems.length === 1 ? "" : "s"} need attention.`);
+  process.exitCode = 1;
+}
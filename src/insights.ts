@@ -0,0 +1,197 @@
+import { listDateNightsFor } from "./date_nights";
+import { getDb } from "./db";
+import { inviteState } from "./invites";
+import { menuWithinBudget, parseMenu, parsePicks, type MenuCategory } from "./menu";
+import { getTheme } from "./themes";
+
+export type OptionStat = {
+  categoryKey: string;
+  categoryLabel: string;
+  option: string;
+  /** Answered invites whose menu offered this option. */
+  offered: number;
+  picked: number;
+};
+
+export type ThemeDefaultStat = { themeId: string; themeName: string; picks: number; defaultPicks: number };
+
+export type MoodCount = { month: string; mood: string; count: number };
+
+export type ResponseTimeStat = { month: string; answered: number; averageHours: number; medianHours: number };
+
+export type InviteUsage = { total: number; answered: number; open: number; expired: number; revoked: number };
+
+export type Insights = {
+  dateNightCount: number;
+  options: OptionStat[];
+  themeDefaults: ThemeDefaultStat[];
+  moods: MoodCount[];
+  /** Invite created → first submission, grouped by the month the invite was made. */
+  responseTimes: ResponseTimeStat[];
+  overallResponse: { answered: number; averageHours: number; medianHours: number } | null;
+  invites: InviteUsage;
+};
+
+/** A ranked category counts only its first place as "picked"; the rest of the ordering isn't a choice. */
+function chosenValues(c: Pick<MenuCategory, "mode">, values: string[]) {
+  return c.mode === "rank" ? values.slice(0, 1) : values;
+}
+
+function isMoodCategory(c: MenuCategory) {
+  return c.key === "mood" || c.label.trim().toLowerCase() === "mood";
+}
+
+function median(xs: number[]) {
+  const s = [...xs].sort((a, b) => a - b);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+}
+
+function average(xs: number[]) {
+  return xs.reduce((a, b) => a + b, 0) / xs.length;
+}
+
+function round1(n: number) {
+  return Math.round(n * 10) / 10;
+}
+
+/** Aggregates every invite and selection on the date nights this planner can see. */
+export function loadInsights(userId: string): Insights {
+  const dateNights = listDateNightsFor(userId);
+  const byId = new Map(dateNights.map(dn => [dn.id, dn]));
+
+  const rows = getDb().prepare(`
+    SELECT i.*, s.picks_json, s.created_at AS submitted_at
+    FROM invites i LEFT JOIN selections s ON s.invite_id = i.id
+    WHERE i.date_night_id IN (SELECT value FROM json_each(?))
+    ORDER BY i.created_at
+  `).all(JSON.stringify([...byId.keys()])) as any[];
+
+  const options = new Map<string, OptionStat>();
+  const themeDefaults = new Map<string, ThemeDefaultStat>();
+  const moods = new Map<string, MoodCount>();
+  const hoursByMonth = new Map<string, number[]>();
+  const invites: InviteUsage = { total: 0, answered: 0, open: 0, expired: 0, revoked: 0 };
+
+  for (const r of rows) {
+    invites.total++;
+    if (!r.submitted_at) {
+      const state = inviteState(r);
+      if (state === "open" || state === "expired" || state === "revoked") invites[state]++;
+      continue;
+    }
+    invites.answered++;
+
+    const dn = byId.get(r.date_night_id);
+    // Options hidden by the budget weren't on offer to this partner.
+    const menu = menuWithinBudget(parseMenu(dn.menu_json), dn.max_option_cost);
+    const picks = parsePicks(r.picks_json);
+    const theme = getTheme(dn.theme_id);
+    const defaults = new Map((theme?.options.categories ?? []).map(c => [c.key, new Set(c.options)]));
+    const themeStat = themeDefaults.get(dn.theme_id)
+      ?? { themeId: dn.theme_id, themeName: theme?.name ?? dn.theme_id, picks: 0, defaultPicks: 0 };
+    themeDefaults.set(dn.theme_id, themeStat);
+    const month = (dn.date_iso || r.submitted_at).slice(0, 7);
+
+    for (const c of menu.categories) {
+      const chosen = new Set(chosenValues(c, picks[c.key] ?? []));
+      for (const option of c.options) {
+        const id = `${c.key}\u0000${option}`;
+        const stat = options.get(id) ?? { categoryKey: c.key, categoryLabel: c.label, option, offered: 0, picked: 0 };
+        stat.categoryLabel = c.label;
+        stat.offered++;
+        if (chosen.has(option)) stat.picked++;
+        options.set(id, stat);
+      }
+      for (const value of chosen) {
+        themeStat.picks++;
+        if (defaults.get(c.key)?.has(value)) themeStat.defaultPicks++;
+        if (isMoodCategory(c)) {
+          const id = `${month}\u0000${value}`;
+          const m = moods.get(id) ?? { month, mood: value, count: 0 };
+          m.count++;
+          moods.set(id, m);
+        }
+      }
+    }
+
+    const hours = (Date.parse(r.submitted_at) - Date.parse(r.created_at)) / 3_600_000;
+    if (Number.isFinite(hours) && hours >= 0) {
+      const key = r.created_at.slice(0, 7);
+      hoursByMonth.set(key, [...(hoursByMonth.get(key) ?? []), hours]);
+    }
+  }
+
+  const allHours = [...hoursByMonth.values()].flat();
+  return {
+    dateNightCount: dateNights.length,
+    options: [...options.values()].sort((a, b) =>
+      a.categoryLabel.localeCompare(b.categoryLabel) || b.picked - a.picked || a.option.localeCompare(b.option)),
+    themeDefaults: [...themeDefaults.values()].sort((a, b) => a.themeName.localeCompare(b.themeName)),
+    moods: [...moods.values()].sort((a, b) => a.month.localeCompare(b.month) || b.count - a.count),
+    responseTimes: [...hoursByMonth.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([month, hs]) => ({
+      month,
+      answered: hs.length,
+      averageHours: round1(average(hs)),
+      medianHours: round1(median(hs)),
+    })),
+    overallResponse: allHours.length
+      ? { answered: allHours.length, averageHours: round1(average(allHours)), medianHours: round1(median(allHours)) }
+      : null,
+    invites,
+  };
+}
+
+/** Most and least picked options per category, in menu-label order. */
+export function optionsByCategory(stats: OptionStat[]) {
+  const groups = new Map<string, { key: string; label: string; options: OptionStat[] }>();
+  for (const s of stats) {
+    const g = groups.get(s.categoryKey) ?? { key: s.categoryKey, label: s.categoryLabel, options: [] };
+    g.options.push(s);
+    groups.set(s.categoryKey, g);
+  }
+  return [...groups.values()].map(g => ({
+    ...g,
+    most: g.options[0],
+    least: g.options[g.options.length - 1],
+  }));
+}
+
+/**
+ * Option names can be partners' own write-ins, so text that a spreadsheet would read as a formula
+ * (starting with =, +, -, @, a tab or a carriage return) gets a leading apostrophe.
+ */
+function csvField(v: unknown) {
+  const text = v === null || v === undefined ? "" : String(v);
+  const s = typeof v === "string" && /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function toCsv(header: string[], rows: unknown[][]) {
+  return [header, ...rows].map(r => r.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+function percent(part: number, whole: number) {
+  return whole ? round1((part / whole) * 100) : 0;
+}
+
+/** Every aggregate on the insights page as a downloadable CSV, keyed by the download's file name. */
+export const INSIGHT_CSVS: Record<string, (i: Insights) => string> = {
+  options: i => toCsv(
+    ["category", "option", "offered", "picked", "pick_rate_percent"],
+    i.options.map(o => [o.categoryLabel, o.option, o.offered, o.picked, percent(o.picked, o.offered)])
+  ),
+  "theme-defaults": i => toCsv(
+    ["theme", "picks", "default_picks", "default_rate_percent"],
+    i.themeDefaults.map(t => [t.themeName, t.picks, t.defaultPicks, percent(t.defaultPicks, t.picks)])
+  ),
+  moods: i => toCsv(["month", "mood", "count"], i.moods.map(m => [m.month, m.mood, m.count])),
+  "response-times": i => toCsv(
+    ["month", "answered", "average_hours", "median_hours"],
+    i.responseTimes.map(r => [r.month, r.answered, r.averageHours, r.medianHours])
+  ),
+  invites: i => toCsv(
+    ["state", "count", "percent"],
+    (["answered", "open", "expired", "revoked"] as const).map(k => [k, i.invites[k], percent(i.invites[k], i.invites.total)])
+  ),
+};
@@ -0,0 +1,99 @@
+import { nanoid } from "nanoid";
+
+import { baseUrl } from "./config";
+import { getDb } from "./db";
+import type { FieldError } from "./date_nights";
+import { renderInviteEmail } from "./email";
+import { serverTimeZone, zonedToUtc } from "./format";
+import { DEFAULT_LOCALE, parseLocale } from "./i18n";
+import { queueEmail, type OutboxMessage } from "./outbox";
+import { partnerBlurb } from "./surprise";
+import { getTheme, type Theme } from "./themes";
+import { dateNightPayload, emitEvent, invitePayload } from "./webhooks";
+
+export type InviteState = "open" | "used" | "expired" | "revoked";
+
+export function inviteState(inv: { used_at: string | null; expires_at: string | null; revoked_at: string | null }, now = new Date()): InviteState {
+  if (inv.revoked_at) return "revoked";
+  if (inv.used_at) return "used";
+  if (inv.expires_at && inv.expires_at <= now.toISOString()) return "expired";
+  return "open";
+}
+
+export function inviteUrl(token: string) {
+  return `${baseUrl()}/invite/${token}`;
+}
+
+/**
+ * A picked expiry day means "through the end of that day" on the date night's clock (the server's
+ * when it has no time zone). Null for anything that isn't a real calendar day.
+ */
+export function endOfDayIso(dateIso: string, timeZone?: string | null): string | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateIso);
+  if (!match) return null;
+  const [y, m, d] = match.slice(1).map(Number);
+  const day = new Date(Date.UTC(y, m - 1, d));
+  if (day.getUTCFullYear() !== y || day.getUTCMonth() !== m - 1 || day.getUTCDate() !== d) return null;
+  return new Date(zonedToUtc(y, m, d, 23, 59, timeZone || serverTimeZone()).getTime() + 59_999).toISOString();
+}
+
+export async function emailInvite(inv: { id: string; token: string; recipient_email: string; locale?: string | null }, dn: any, theme: Theme) {
+  const email = renderInviteEmail({
+    themeId: theme.id,
+    title: dn.title,
+    themeName: theme.name,
+    blurb: partnerBlurb(dn, dn.blurb || theme.blurb, inv.locale) ?? "",
+    inviteUrl: inviteUrl(inv.token),
+    locale: inv.locale,
+  });
+  return queueEmail({ kind: "invite", inviteId: inv.id, to: inv.recipient_email, ...email });
+}
+
+/**
+ * Creates an invite link and, when there is a recipient, queues the invite email in the chosen language.
+ * Without an `expiresOn` the link expires after the date night's day; an empty one means it never does.
+ */
+export async function createInvite(dn: any, body: any): Promise<{ invite: any; delivery: OutboxMessage | null } | FieldError> {
+  const recipientEmail = String(body.recipientEmail || "").trim() || null;
+  const expiresOn = String((body.expiresOn === undefined ? dn.date_iso : body.expiresOn) || "").trim();
+  const localeRaw = String(body.locale || "").trim();
+  const locale = localeRaw ? parseLocale(localeRaw) : DEFAULT_LOCALE;
+  if (!locale) return { error: "We don’t have that language yet.", field: "locale" };
+
+  const expiresAt = expiresOn ? endOfDayIso(expiresOn, dn.time_zone) : null;
+  if (expiresOn && !expiresAt) return { error: "That expiry date doesn’t look right.", field: "expiresOn" };
+  if (expiresAt && expiresAt <= new Date().toISOString()) {
+    return body.expiresOn === undefined
+      ? { error: "This date night’s day has passed, so pick an expiry date (or leave it empty for none).", field: "expiresOn" }
+      : { error: "Pick an expiry date that hasn’t passed yet.", field: "expiresOn" };
+  }
+
+  const db = getDb();
+  const id = nanoid(12);
+  db.prepare(`
+    INSERT INTO invites (id, date_night_id, token, recipient_email, locale, used_at, expires_at, revoked_at, nudge_eligible, created_at)
+    VALUES (?, ?, ?, ?, ?, NULL, ?, NULL, 1, ?)
+  `).run(id, dn.id, nanoid(22), recipientEmail, locale, expiresAt, new Date().toISOString());
+  const invite = db.prepare(`SELECT * FROM invites WHERE id = ?`).get(id) as any;
+  emitEvent("invite.created", dn, { dateNight: dateNightPayload(dn), invite: invitePayload(invite) });
+
+  const theme = getTheme(dn.theme_id);
+  const delivery = recipientEmail && theme ? await emailInvite(invite, dn, theme) : null;
+  return { invite, delivery };
+}
+
+/** Re-sends the same link; only open or already-answered invites with a recipient can be re-sent. */
+export async function resendInvite(inv: any): Promise<OutboxMessage | { error: string }> {
+  if (!inv.recipient_email) return { error: "This invite has no recipient email." };
+
+  const state = inviteState(inv);
+  if (state === "revoked" || state === "expired") {
+    return { error: `This invite is ${state}, so there’s nothing to re-send.` };
+  }
+
+  const dn = getDb().prepare(`SELECT * FROM date_nights WHERE id = ?`).get(inv.date_night_id) as any;
+  const theme = dn ? getTheme(dn.theme_id) : undefined;
+  if (!dn || !theme) return { error: "This invite is missing its date night." };
+
+  return emailInvite(inv, dn, theme);
+}
@@ -0,0 +1,169 @@
+import type { Messages } from "../i18n";
+
+export const de: Messages = {
+  "layout.tagline": "süß & gemütlich planen zu zweit",
+
+  "label.theme": "Thema:",
+  "label.when": "Wann:",
+  "label.where": "Wo:",
+  "label.note": "Notiz:",
+  "label.link": "Link:",
+
+  "when.dateAtTime": "{date} um {time}",
+
+  "menu.pickOne": "wähle eins",
+  "menu.pickAny": "wähle beliebig viele",
+  "menu.pickUpTo": "wähle bis zu {count}",
+  "menu.rankAll": "bring alle in eine Reihenfolge",
+
+  "option.cost": "≈ {cost}",
+  "option.prep": "{minutes} Min. Vorbereitung",
+  "tag.vegetarian": "Vegetarisch",
+  "tag.gluten-free": "Glutenfrei",
+  "tag.stay-in": "Zu Hause",
+  "tag.go-out": "Ausgehen",
+
+  "picks.check": "Bitte prüfe deine Auswahl bei „{label}“ und versuch es noch einmal.",
+  "picks.one": "Bitte wähle eine Option bei „{label}“.",
+  "picks.upTo": "Bitte wähle 1 bis {max} Optionen bei „{label}“.",
+  "picks.atLeastOne": "Bitte wähle mindestens 1 Option bei „{label}“.",
+  "picks.rank": "Bitte bring alle Optionen bei „{label}“ in eine Reihenfolge (jede genau einmal).",
+
+  "invite.pageTitle": "Einladung • {title}",
+  "invite.heading": "🌼 Eine kleine gemütliche Auswahl",
+  "invite.invitedTo": "Du bist eingeladen zu:",
+  "invite.addToCalendar": "📅 Zu meinem Kalender hinzufügen",
+  "invite.language": "Sprache",
+  "invite.changeLanguage": "Ändern",
+  "invite.lockedPlan": "🔒 Deine Auswahl steht fest. Das ist der Plan:",
+  "invite.alreadyUsed": "Diese Einladung wurde schon benutzt. Wenn du einen neuen Link brauchst, frag die Person, die plant 💛",
+  "invite.expired": "⏳ Diese Einladung ist abgelaufen, darüber kann nichts mehr ausgewählt werden. Wenn du trotzdem wählen möchtest, frag nach einem neuen Link 💛",
+  "invite.revoked": "🔒 Dieser Link wurde von der Person, die plant, zurückgezogen. Vielleicht hast du schon einen neueren bekommen — schau in dein Postfach 💛",
+  "invite.canChange": "✨ Deine Auswahl ist angekommen! Anders entschieden? Du kannst sie bis {time} ändern.",
+  "invite.notesLabel": "Gibt es etwas, das du dir wünschst? (optional)",
+  "invite.notesPlaceholder": "Ich hätte Lust auf etwas Warmes und Gemütliches…",
+  "invite.send": "Meine Auswahl senden 🌿",
+  "invite.update": "Meine Auswahl ändern ✨",
+  "invite.nothingChanged": "Nichts geändert — deine Auswahl ist genau wie vorher 🌿",
+  "invite.updated": "Auswahl geändert ✨ Die Person, die plant, weiß Bescheid.",
+  "invite.languageChanged": "Sprache geändert 🌿",
+  "invite.suggestLabel": "Oder schlag etwas anderes vor (optional)",
+  "invite.suggestPlaceholder": "Etwas, das nicht auf der Liste steht…",
+  "invite.suggestionsHeading": "Deine Vorschläge",
+  "invite.suggestionPending": "wartet auf Antwort",
+  "invite.suggestionAccepted": "aufgenommen 💛",
+  "invite.suggestionDeclined": "diesmal nicht",
+  "invite.suggestionSent": "Danke für die Idee 💡 Die Person, die plant, meldet sich bei dir.",
+  "invite.suggestOnly": "💡 Nur meine Ideen senden",
+  "invite.noSuggestion": "Schreib zuerst eine Idee in eines der Felder – oder schick stattdessen deine Auswahl.",
+  "invite.pollHeading": "📅 Wann passt es dir?",
+  "invite.pollHint": "Der Tag steht noch nicht fest. Sag uns, welche Termine dir passen, und die Person, die plant, wählt einen aus.",
+  "invite.pollYes": "Passt",
+  "invite.pollMaybe": "Vielleicht",
+  "invite.pollNo": "Geht nicht",
+  "invite.pollYours": "Wann es dir passt",
+  "invite.surpriseHint": "🎁 Das hier ist eine Überraschung! Wähl nach den Hinweisen – was wirklich dahintersteckt, bleibt bis {time} geheim.",
+  "invite.seePlan": "Deinen Plan ansehen 🗺️",
+  "invite.pickForMe": "🎲 Wähl für mich",
+  "invite.pickedForYou": "Alles zufällig ausgewählt — ändere, was du magst, und schick es dann ab.",
+  "invite.tallyHeading": "🗳️ So stimmt die Gruppe ab",
+  "invite.tallyVoted": "{voted} von {invited} haben abgestimmt.",
+  "invite.tallyLeading": "vorne",
+  "invite.tallyTied": "Gleichstand — die Person, die plant, entscheidet",
+  "invite.tallyFinal": "✨ Die Stimmen sind ausgezählt — das ist der Plan.",
+
+  "memories.heading": "📸 Erinnerungen an den Abend",
+  "memories.intro": "Wie war’s? Bewerte den Abend und deine Auswahl, schreib ein paar Worte und füge Fotos hinzu. Alle bei diesem Date können sie sehen.",
+  "memories.overall": "Der Abend insgesamt",
+  "memories.noRating": "Keine Bewertung",
+  "memories.optionsHeading": "Was du gewählt hast",
+  "memories.reflectionLabel": "Ein paar Worte zur Erinnerung (optional)",
+  "memories.reflectionPlaceholder": "Das Brot war noch warm, als…",
+  "memories.save": "Meine Erinnerungen speichern 💛",
+  "memories.saved": "Erinnerungen gespeichert 💛",
+  "memories.photos": "Deine Fotos",
+  "memories.addPhoto": "Foto hinzufügen",
+  "memories.photoLimit": "Bis zu {max} Fotos pro Person.",
+  "memories.uploading": "Wird hochgeladen…",
+  "memories.uploadFailed": "Hochladen fehlgeschlagen.",
+  "memories.removePhoto": "Entfernen",
+  "memories.photoRemoved": "Foto entfernt.",
+  "memories.others": "Von allen anderen",
+  "memories.nothingYet": "Sonst hat noch niemand etwas geteilt.",
+  "memories.guest": "Ein Gast",
+  "memories.notOpen": "Erinnerungen gibt es, sobald das Date begonnen hat 🌙",
+  "memories.badRating": "Bewertungen gehen von 1 bis 5 Sternen.",
+  "memories.tooLong": "Bitte bleib unter {max} Zeichen.",
+  "memories.empty": "Gib zuerst eine Bewertung oder ein paar Worte ein.",
+  "memories.tooManyPhotos": "Du kannst bis zu {max} Fotos hinzufügen.",
+  "memories.badPhoto": "Bitte lade ein PNG-, JPEG-, GIF- oder WebP-Bild hoch (höchstens 5 MB).",
+
+  "thanks.pageTitle": "Danke • Date Night Cottage",
+  "thanks.heading": "🕯️ Alles erledigt",
+  "thanks.body": "Deine Auswahl wurde gesendet. Du musst sonst nichts tun — um alles wird sich gekümmert 💛",
+  "thanks.seePlan": "Deinen Plan ansehen 🗺️",
+
+  "plan.pageTitle": "Dein Plan • {title}",
+  "plan.heading": "🗺️ Dein Plan",
+  "plan.surpriseHeading": "🎁 Es ist eine Überraschung",
+  "plan.countdownLabel": "Zeit bis zur Enthüllung:",
+  "plan.countdown": "{d} T. {h} Std. {m} Min. {s} Sek.",
+  "plan.revealed": "✨ Die Überraschung ist gelüftet! Das ist wirklich geplant.",
+  "plan.yourPicks": "Deine Auswahl",
+  "plan.noPicks": "Du hast noch nichts ausgewählt.",
+  "plan.makePicks": "Jetzt auswählen →",
+  "plan.backToInvite": "← Zurück zu deiner Einladung",
+
+  "surprise.teaser": "Überraschung Nr. {n}",
+  "surprise.blurb": "Es ist eine Überraschung 🎁 Alles wird am {time} enthüllt.",
+
+  "email.pickButton": "Meine Auswahl treffen 🌿",
+
+  "email.invite.subject": "Eine gemütliche Einladung: {title} 🌿",
+  "email.invite.heading": "🌼 Du hast eine gemütliche Einladung",
+  "email.invite.body": "Tippe unten, um ein paar schöne Optionen auszuwählen.",
+  "email.invite.text": "Gemütliche Einladung: {title}\nThema: {theme}\nHier auswählen: {url}",
+
+  "email.confirmation.subject": "Alles bereit für „{title}“ 🕯️",
+  "email.confirmation.heading": "🕯️ Alles bereit, Liebling",
+  "email.confirmation.intro": "Deine Auswahl für {title} ist angekommen.",
+  "email.confirmation.when": "Wann: {when} — für deinen Kalender hängt es an 📅",
+  "email.confirmation.relax": "Du musst nichts planen — komm einfach und mach es dir gemütlich.",
+  "email.confirmation.takenCare": "Um alles wird sich gekümmert.",
+  "email.confirmation.text": "Alles bereit für „{title}“ (Thema: {theme}).",
+  "email.confirmation.textWhen": "Wann: {when} (Kalendereinladung im Anhang).",
+  "email.confirmation.textOutro": "Um alles wird sich gekümmert 💛",
+
+  "email.nudge.subject": "Dein Platz ist noch frei: {title} 🌿",
+  "email.nudge.heading": "🌿 Eine sanfte kleine Erinnerung",
+  "email.nudge.body": "Deine Auswahl für {title} ({theme}) ist noch offen — keine Eile, nur eine Erinnerung.",
+  "email.nudge.text": "Eine sanfte Erinnerung: deine Auswahl für „{title}“ ist noch offen.\nHier auswählen: {url}",
+
+  "email.dayBefore.subject": "Morgen: {title} 🕯️",
+  "email.dayBefore.heading": "🕯️ Euer Date ist morgen",
+  "email.dayBefore.text": "Euer Date ist morgen: „{title}“",
+
+  "email.dayOf.subject": "Heute ist es so weit: {title} 💛",
+  "email.dayOf.heading": "💛 Heute ist es so weit",
+  "email.dayOf.text": "Heute ist es so weit: „{title}“ ({when})",
+
+  "email.suggestion.acceptedSubject": "Deine Idee ist dabei: {suggestion} 💛",
+  "email.suggestion.acceptedHeading": "💛 Deine Idee ist dabei",
+  "email.suggestion.accepted": "„{suggestion}“ gehört jetzt zu {title} und ist in deiner Auswahl.",
+  "email.suggestion.declinedSubject": "Zu deiner Idee für „{title}“ 🌿",
+  "email.suggestion.declinedHeading": "🌿 Zu deiner Idee",
+  "email.suggestion.declined": "„{suggestion}“ ist diesmal nicht Teil von {title} — deine übrige Auswahl steht.",
+
+  "email.finalPlan.subject": "Der Plan für „{title}“ steht ✨",
+  "email.finalPlan.heading": "✨ Der Plan steht",
+  "email.finalPlan.intro": "Die Stimmen für {title} sind ausgezählt. Das hat die Gruppe gewählt:",
+
+  "email.dateConfirmed.subject": "Der Termin steht: {title} 📅",
+  "email.dateConfirmed.heading": "📅 Der Termin steht",
+  "email.dateConfirmed.body": "{title} findet am {when} statt.",
+
+  "email.reveal.subject": "Die Überraschung ist gelüftet: {title} 🎁",
+  "email.reveal.heading": "🎁 Überraschung!",
+  "email.reveal.intro": "Das ist für {title} wirklich geplant:",
+  "email.reveal.planLink": "Dein Plan:",
+};
@@ -0,0 +1,171 @@
+/**
+ * English is the reference catalog: every key lives here, and other languages fall back to it
+ * key by key. `{name}` marks a value filled in when the message is used.
+ */
+export const en = {
+  "layout.tagline": "cute & cozy planning for two",
+
+  "label.theme": "Theme:",
+  "label.when": "When:",
+  "label.where": "Where:",
+  "label.note": "Note:",
+  "label.link": "Link:",
+
+  "when.dateAtTime": "{date} at {time}",
+
+  "menu.pickOne": "pick one",
+  "menu.pickAny": "pick any",
+  "menu.pickUpTo": "pick up to {count}",
+  "menu.rankAll": "rank them all",
+
+  "option.cost": "≈ {cost}",
+  "option.prep": "{minutes} min prep",
+  "tag.vegetarian": "Vegetarian",
+  "tag.gluten-free": "Gluten-free",
+  "tag.stay-in": "Stay in",
+  "tag.go-out": "Go out",
+
+  "picks.check": "Please check your picks for “{label}” and try again.",
+  "picks.one": "Please pick one option for “{label}”.",
+  "picks.upTo": "Please pick 1 to {max} options for “{label}”.",
+  "picks.atLeastOne": "Please pick at least 1 option for “{label}”.",
+  "picks.rank": "Please rank every option for “{label}” (each one once).",
+
+  "invite.pageTitle": "Invite • {title}",
+  "invite.heading": "🌼 A cozy little choice menu",
+  "invite.invitedTo": "You’ve been invited to:",
+  "invite.addToCalendar": "📅 Add to my calendar",
+  "invite.language": "Language",
+  "invite.changeLanguage": "Change",
+  "invite.lockedPlan": "🔒 Your picks are locked in. Here’s the plan:",
+  "invite.alreadyUsed": "This invite has already been used. If you need a new link, ask your planner 💛",
+  "invite.expired": "⏳ This invite has expired, so picks can’t be sent from it anymore. If you still want to choose, ask your planner for a fresh link 💛",
+  "invite.revoked": "🔒 This invite link was cancelled by your planner. They may have sent you a newer one — check your inbox 💛",
+  "invite.canChange": "✨ Your picks are in! Changed your mind? You can update them until {time}.",
+  "invite.notesLabel": "Anything you’d love? (optional)",
+  "invite.notesPlaceholder": "I’m craving something warm and cozy…",
+  "invite.send": "Send my picks 🌿",
+  "invite.update": "Update my picks ✨",
+  "invite.nothingChanged": "Nothing changed — your picks are just as they were 🌿",
+  "invite.updated": "Picks updated ✨ Your planner has been told.",
+  "invite.languageChanged": "Language changed 🌿",
+  "invite.suggestLabel": "Or suggest something else (optional)",
+  "invite.suggestPlaceholder": "Something that isn’t on the list…",
+  "invite.suggestionsHeading": "Your suggestions",
+  "invite.suggestionPending": "waiting for an answer",
+  "invite.suggestionAccepted": "added 💛",
+  "invite.suggestionDeclined": "not this time",
+  "invite.suggestionSent": "Thanks for the idea 💡 The person planning will get back to you.",
+  "invite.suggestOnly": "💡 Just send my ideas",
+  "invite.noSuggestion": "Write an idea in one of the boxes first — or send your picks instead.",
+  "invite.pollHeading": "📅 When works for you?",
+  "invite.pollHint": "The day isn’t set yet. Tell us which of these suit you, and the person planning will pick one.",
+  "invite.pollYes": "Works",
+  "invite.pollMaybe": "Maybe",
+  "invite.pollNo": "Can’t",
+  "invite.pollYours": "When works for you",
+  "invite.surpriseHint": "🎁 This one’s a surprise! Pick by the teasers — what they really are stays hidden until {time}.",
+  "invite.seePlan": "See your plan 🗺️",
+  "invite.pickForMe": "🎲 Pick for me",
+  "invite.pickedForYou": "All picked at random — change anything you like, then send.",
+  "invite.tallyHeading": "🗳️ How the group is voting",
+  "invite.tallyVoted": "{voted} of {invited} have voted.",
+  "invite.tallyLeading": "leading",
+  "invite.tallyTied": "tied — the planner will decide",
+  "invite.tallyFinal": "✨ The votes are counted — this is the plan.",
+
+  "memories.heading": "📸 Memories of the evening",
+  "memories.intro": "How was it? Rate the evening and what you chose, jot down a few words and add some photos. Everyone on this date night can see them.",
+  "memories.overall": "The evening overall",
+  "memories.noRating": "Not rated",
+  "memories.optionsHeading": "What you chose",
+  "memories.reflectionLabel": "A few words to remember it by (optional)",
+  "memories.reflectionPlaceholder": "The bread was still warm when…",
+  "memories.save": "Save my memories 💛",
+  "memories.saved": "Memories saved 💛",
+  "memories.photos": "Your photos",
+  "memories.addPhoto": "Add a photo",
+  "memories.photoLimit": "Up to {max} photos each.",
+  "memories.uploading": "Uploading…",
+  "memories.uploadFailed": "Upload failed.",
+  "memories.removePhoto": "Remove",
+  "memories.photoRemoved": "Photo removed.",
+  "memories.others": "From everyone else",
+  "memories.nothingYet": "Nobody else has shared anything yet.",
+  "memories.guest": "A guest",
+  "memories.notOpen": "Memories open once the date night has started 🌙",
+  "memories.badRating": "Ratings go from 1 to 5 stars.",
+  "memories.tooLong": "Please keep your words under {max} characters.",
+  "memories.empty": "Add a rating or a few words first.",
+  "memories.tooManyPhotos": "You can add up to {max} photos.",
+  "memories.badPhoto": "Please upload a PNG, JPEG, GIF or WebP image (5 MB at most).",
+
+  "thanks.pageTitle": "Thanks • Date Night Cottage",
+  "thanks.heading": "🕯️ You’re all set",
+  "thanks.body": "Your choices have been sent. You don’t need to do anything else — you’ll be taken care of 💛",
+  "thanks.seePlan": "See your plan 🗺️",
+
+  "plan.pageTitle": "Your plan • {title}",
+  "plan.heading": "🗺️ Your plan",
+  "plan.surpriseHeading": "🎁 It’s a surprise",
+  "plan.countdownLabel": "Time until the reveal:",
+  "plan.countdown": "{d}d {h}h {m}m {s}s",
+  "plan.revealed": "✨ The surprise is out! Here’s what’s really planned.",
+  "plan.yourPicks": "Your picks",
+  "plan.noPicks": "You haven’t made your picks yet.",
+  "plan.makePicks": "Make your picks →",
+  "plan.backToInvite": "← Back to your invite",
+
+  "surprise.teaser": "Surprise #{n}",
+  "surprise.blurb": "It’s a surprise 🎁 Everything will be revealed on {time}.",
+
+  "email.pickButton": "Choose my cozy picks 🌿",
+
+  "email.invite.subject": "A cozy invite: {title} 🌿",
+  "email.invite.heading": "🌼 You’ve got a cozy invite",
+  "email.invite.body": "Tap below to choose a few sweet options.",
+  "email.invite.text": "Cozy invite: {title}\nTheme: {theme}\nPick here: {url}",
+
+  "email.confirmation.subject": "You’re all set for \"{title}\" 🕯️",
+  "email.confirmation.heading": "🕯️ All set, love",
+  "email.confirmation.intro": "Your choices are in for {title}.",
+  "email.confirmation.when": "When: {when} — it’s attached for your calendar 📅",
+  "email.confirmation.relax": "You don’t need to plan a thing — just show up and be cozy.",
+  "email.confirmation.takenCare": "You’ll be taken care of.",
+  "email.confirmation.text": "You're all set for \"{title}\" (Theme: {theme}).",
+  "email.confirmation.textWhen": "When: {when} (calendar invite attached).",
+  "email.confirmation.textOutro": "You’ll be taken care of 💛",
+
+  "email.nudge.subject": "Still saving you a seat: {title} 🌿",
+  "email.nudge.heading": "🌿 A gentle little nudge",
+  "email.nudge.body": "Your picks for {title} ({theme}) are still open — no rush, just a reminder.",
+  "email.nudge.text": "A gentle nudge: your picks for \"{title}\" are still open.\nPick here: {url}",
+
+  "email.dayBefore.subject": "Tomorrow: {title} 🕯️",
+  "email.dayBefore.heading": "🕯️ Your date is tomorrow",
+  "email.dayBefore.text": "Your date is tomorrow: \"{title}\"",
+
+  "email.dayOf.subject": "Today's the day: {title} 💛",
+  "email.dayOf.heading": "💛 Today’s the day",
+  "email.dayOf.text": "Today's the day: \"{title}\" ({when})",
+
+  "email.suggestion.acceptedSubject": "Your idea made it in: {suggestion} 💛",
+  "email.suggestion.acceptedHeading": "💛 Your idea made it in",
+  "email.suggestion.accepted": "“{suggestion}” is now part of {title}, and it’s in your picks.",
+  "email.suggestion.declinedSubject": "About your idea for “{title}” 🌿",
+  "email.suggestion.declinedHeading": "🌿 About your idea",
+  "email.suggestion.declined": "“{suggestion}” won’t be part of {title} this time — your other picks are all set.",
+
+  "email.finalPlan.subject": "The plan for “{title}” is set ✨",
+  "email.finalPlan.heading": "✨ The plan is set",
+  "email.finalPlan.intro": "The votes are counted for {title}. Here’s what the group chose:",
+
+  "email.dateConfirmed.subject": "The date is set: {title} 📅",
+  "email.dateConfirmed.heading": "📅 The date is set",
+  "email.dateConfirmed.body": "{title} will be on {when}.",
+
+  "email.reveal.subject": "The surprise is out: {title} 🎁",
+  "email.reveal.heading": "🎁 Surprise!",
+  "email.reveal.intro": "Here’s what’s really planned for {title}:",
+  "email.reveal.planLink": "Your plan:",
+};
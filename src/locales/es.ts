@@ -0,0 +1,169 @@
+import type { Messages } from "../i18n";
+
+export const es: Messages = {
+  "layout.tagline": "planes tiernos y acogedores para dos",
+
+  "label.theme": "Tema:",
+  "label.when": "Cuándo:",
+  "label.where": "Dónde:",
+  "label.note": "Nota:",
+  "label.link": "Enlace:",
+
+  "when.dateAtTime": "{date} a las {time}",
+
+  "menu.pickOne": "elige una",
+  "menu.pickAny": "elige las que quieras",
+  "menu.pickUpTo": "elige hasta {count}",
+  "menu.rankAll": "ordénalas todas",
+
+  "option.cost": "≈ {cost}",
+  "option.prep": "{minutes} min de preparación",
+  "tag.vegetarian": "Vegetariano",
+  "tag.gluten-free": "Sin gluten",
+  "tag.stay-in": "En casa",
+  "tag.go-out": "Salir",
+
+  "picks.check": "Revisa lo que elegiste en «{label}» e inténtalo de nuevo.",
+  "picks.one": "Elige una opción en «{label}».",
+  "picks.upTo": "Elige de 1 a {max} opciones en «{label}».",
+  "picks.atLeastOne": "Elige al menos 1 opción en «{label}».",
+  "picks.rank": "Ordena todas las opciones de «{label}» (cada una una sola vez).",
+
+  "invite.pageTitle": "Invitación • {title}",
+  "invite.heading": "🌼 Un pequeño menú para elegir",
+  "invite.invitedTo": "Te han invitado a:",
+  "invite.addToCalendar": "📅 Añadir a mi calendario",
+  "invite.language": "Idioma",
+  "invite.changeLanguage": "Cambiar",
+  "invite.lockedPlan": "🔒 Tus elecciones ya están cerradas. Este es el plan:",
+  "invite.alreadyUsed": "Esta invitación ya se ha usado. Si necesitas un enlace nuevo, pídeselo a quien organiza 💛",
+  "invite.expired": "⏳ Esta invitación ha caducado, así que ya no se puede elegir desde ella. Si aún quieres elegir, pide un enlace nuevo 💛",
+  "invite.revoked": "🔒 Quien organiza ha cancelado este enlace. Puede que te haya enviado uno más nuevo: mira tu bandeja de entrada 💛",
+  "invite.canChange": "✨ ¡Tus elecciones ya están! ¿Cambiaste de idea? Puedes cambiarlas hasta el {time}.",
+  "invite.notesLabel": "¿Algo que te encantaría? (opcional)",
+  "invite.notesPlaceholder": "Me apetece algo calentito y acogedor…",
+  "invite.send": "Enviar mis elecciones 🌿",
+  "invite.update": "Actualizar mis elecciones ✨",
+  "invite.nothingChanged": "No ha cambiado nada: tus elecciones siguen igual 🌿",
+  "invite.updated": "Elecciones actualizadas ✨ Ya se lo hemos contado a quien organiza.",
+  "invite.languageChanged": "Idioma cambiado 🌿",
+  "invite.suggestLabel": "O sugiere otra cosa (opcional)",
+  "invite.suggestPlaceholder": "Algo que no está en la lista…",
+  "invite.suggestionsHeading": "Tus sugerencias",
+  "invite.suggestionPending": "esperando respuesta",
+  "invite.suggestionAccepted": "añadida 💛",
+  "invite.suggestionDeclined": "esta vez no",
+  "invite.suggestionSent": "Gracias por la idea 💡 Quien organiza te responderá.",
+  "invite.suggestOnly": "💡 Solo enviar mis ideas",
+  "invite.noSuggestion": "Escribe primero una idea en alguno de los recuadros, o envía tus elecciones.",
+  "invite.pollHeading": "📅 ¿Cuándo te viene bien?",
+  "invite.pollHint": "El día aún no está decidido. Dinos cuáles de estos te vienen bien y quien organiza elegirá uno.",
+  "invite.pollYes": "Me va bien",
+  "invite.pollMaybe": "Quizás",
+  "invite.pollNo": "No puedo",
+  "invite.pollYours": "Cuándo te viene bien",
+  "invite.surpriseHint": "🎁 ¡Esta es una sorpresa! Elige por las pistas: lo que son de verdad se queda en secreto hasta el {time}.",
+  "invite.seePlan": "Ver tu plan 🗺️",
+  "invite.pickForMe": "🎲 Elige por mí",
+  "invite.pickedForYou": "Todo elegido al azar — cambia lo que quieras y luego envía.",
+  "invite.tallyHeading": "🗳️ Cómo vota el grupo",
+  "invite.tallyVoted": "Han votado {voted} de {invited}.",
+  "invite.tallyLeading": "en cabeza",
+  "invite.tallyTied": "empate: decidirá quien organiza",
+  "invite.tallyFinal": "✨ Los votos están contados: este es el plan.",
+
+  "memories.heading": "📸 Recuerdos de la velada",
+  "memories.intro": "¿Qué tal fue? Puntúa la velada y lo que elegiste, escribe unas palabras y añade algunas fotos. Todos los de esta cita pueden verlas.",
+  "memories.overall": "La velada en general",
+  "memories.noRating": "Sin puntuar",
+  "memories.optionsHeading": "Lo que elegiste",
+  "memories.reflectionLabel": "Unas palabras para recordarla (opcional)",
+  "memories.reflectionPlaceholder": "El pan aún estaba caliente cuando…",
+  "memories.save": "Guardar mis recuerdos 💛",
+  "memories.saved": "Recuerdos guardados 💛",
+  "memories.photos": "Tus fotos",
+  "memories.addPhoto": "Añadir una foto",
+  "memories.photoLimit": "Hasta {max} fotos cada uno.",
+  "memories.uploading": "Subiendo…",
+  "memories.uploadFailed": "No se pudo subir.",
+  "memories.removePhoto": "Quitar",
+  "memories.photoRemoved": "Foto quitada.",
+  "memories.others": "De los demás",
+  "memories.nothingYet": "Nadie más ha compartido nada todavía.",
+  "memories.guest": "Un invitado",
+  "memories.notOpen": "Los recuerdos se abren cuando empieza la cita 🌙",
+  "memories.badRating": "Las puntuaciones van de 1 a 5 estrellas.",
+  "memories.tooLong": "Por favor, usa menos de {max} caracteres.",
+  "memories.empty": "Añade primero una puntuación o unas palabras.",
+  "memories.tooManyPhotos": "Puedes añadir hasta {max} fotos.",
+  "memories.badPhoto": "Sube una imagen PNG, JPEG, GIF o WebP (5 MB como máximo).",
+
+  "thanks.pageTitle": "Gracias • Date Night Cottage",
+  "thanks.heading": "🕯️ Todo listo",
+  "thanks.body": "Tus elecciones se han enviado. No tienes que hacer nada más: alguien se ocupará de todo 💛",
+  "thanks.seePlan": "Ver tu plan 🗺️",
+
+  "plan.pageTitle": "Tu plan • {title}",
+  "plan.heading": "🗺️ Tu plan",
+  "plan.surpriseHeading": "🎁 Es una sorpresa",
+  "plan.countdownLabel": "Tiempo hasta la revelación:",
+  "plan.countdown": "{d} d {h} h {m} min {s} s",
+  "plan.revealed": "✨ ¡Se acabó el secreto! Esto es lo que hay planeado de verdad.",
+  "plan.yourPicks": "Tus elecciones",
+  "plan.noPicks": "Todavía no has hecho tus elecciones.",
+  "plan.makePicks": "Haz tus elecciones →",
+  "plan.backToInvite": "← Volver a tu invitación",
+
+  "surprise.teaser": "Sorpresa n.º {n}",
+  "surprise.blurb": "Es una sorpresa 🎁 Todo se desvelará el {time}.",
+
+  "email.pickButton": "Elegir mis planes 🌿",
+
+  "email.invite.subject": "Una invitación acogedora: {title} 🌿",
+  "email.invite.heading": "🌼 Tienes una invitación acogedora",
+  "email.invite.body": "Pulsa abajo para elegir algunas opciones bonitas.",
+  "email.invite.text": "Invitación acogedora: {title}\nTema: {theme}\nElige aquí: {url}",
+
+  "email.confirmation.subject": "Todo listo para «{title}» 🕯️",
+  "email.confirmation.heading": "🕯️ Todo listo, cariño",
+  "email.confirmation.intro": "Tus elecciones para {title} ya están.",
+  "email.confirmation.when": "Cuándo: {when} — va adjunto para tu calendario 📅",
+  "email.confirmation.relax": "No tienes que planear nada: solo ven y ponte cómodo.",
+  "email.confirmation.takenCare": "Alguien se ocupará de todo.",
+  "email.confirmation.text": "Todo listo para «{title}» (Tema: {theme}).",
+  "email.confirmation.textWhen": "Cuándo: {when} (invitación de calendario adjunta).",
+  "email.confirmation.textOutro": "Alguien se ocupará de todo 💛",
+
+  "email.nudge.subject": "Aún te guardamos el sitio: {title} 🌿",
+  "email.nudge.heading": "🌿 Un pequeño recordatorio",
+  "email.nudge.body": "Tus elecciones para {title} ({theme}) siguen abiertas: sin prisa, solo es un recordatorio.",
+  "email.nudge.text": "Un pequeño recordatorio: tus elecciones para «{title}» siguen abiertas.\nElige aquí: {url}",
+
+  "email.dayBefore.subject": "Mañana: {title} 🕯️",
+  "email.dayBefore.heading": "🕯️ Vuestra cita es mañana",
+  "email.dayBefore.text": "Vuestra cita es mañana: «{title}»",
+
+  "email.dayOf.subject": "Hoy es el día: {title} 💛",
+  "email.dayOf.heading": "💛 Hoy es el día",
+  "email.dayOf.text": "Hoy es el día: «{title}» ({when})",
+
+  "email.suggestion.acceptedSubject": "Tu idea entró en el plan: {suggestion} 💛",
+  "email.suggestion.acceptedHeading": "💛 Tu idea entró en el plan",
+  "email.suggestion.accepted": "«{suggestion}» ya forma parte de {title} y está entre tus elecciones.",
+  "email.suggestion.declinedSubject": "Sobre tu idea para «{title}» 🌿",
+  "email.suggestion.declinedHeading": "🌿 Sobre tu idea",
+  "email.suggestion.declined": "«{suggestion}» no formará parte de {title} esta vez; el resto de tus elecciones sigue en pie.",
+
+  "email.finalPlan.subject": "El plan para «{title}» está listo ✨",
+  "email.finalPlan.heading": "✨ El plan está listo",
+  "email.finalPlan.intro": "Ya se han contado los votos para {title}. Esto es lo que eligió el grupo:",
+
+  "email.dateConfirmed.subject": "Ya hay fecha: {title} 📅",
+  "email.dateConfirmed.heading": "📅 Ya hay fecha",
+  "email.dateConfirmed.body": "{title} será el {when}.",
+
+  "email.reveal.subject": "Se acabó el secreto: {title} 🎁",
+  "email.reveal.heading": "🎁 ¡Sorpresa!",
+  "email.reveal.intro": "Esto es lo que hay planeado de verdad para {title}:",
+  "email.reveal.planLink": "Tu plan:",
+};
@@ -0,0 +1,169 @@
+import type { Messages } from "../i18n";
+
+export const fr: Messages = {
+  "layout.tagline": "des projets doux et douillets pour deux",
+
+  "label.theme": "Thème :",
+  "label.when": "Quand :",
+  "label.where": "Où :",
+  "label.note": "Note :",
+  "label.link": "Lien :",
+
+  "when.dateAtTime": "{date} à {time}",
+
+  "menu.pickOne": "choisis-en une",
+  "menu.pickAny": "choisis-en autant que tu veux",
+  "menu.pickUpTo": "choisis-en jusqu’à {count}",
+  "menu.rankAll": "classe-les toutes",
+
+  "option.cost": "≈ {cost}",
+  "option.prep": "{minutes} min de préparation",
+  "tag.vegetarian": "Végétarien",
+  "tag.gluten-free": "Sans gluten",
+  "tag.stay-in": "À la maison",
+  "tag.go-out": "Sortie",
+
+  "picks.check": "Vérifie tes choix pour « {label} » et réessaie.",
+  "picks.one": "Choisis une option pour « {label} ».",
+  "picks.upTo": "Choisis de 1 à {max} options pour « {label} ».",
+  "picks.atLeastOne": "Choisis au moins 1 option pour « {label} ».",
+  "picks.rank": "Classe toutes les options de « {label} » (chacune une seule fois).",
+
+  "invite.pageTitle": "Invitation • {title}",
+  "invite.heading": "🌼 Un petit menu douillet à choisir",
+  "invite.invitedTo": "Tu es invité·e à :",
+  "invite.addToCalendar": "📅 Ajouter à mon agenda",
+  "invite.language": "Langue",
+  "invite.changeLanguage": "Changer",
+  "invite.lockedPlan": "🔒 Tes choix sont verrouillés. Voici le programme :",
+  "invite.alreadyUsed": "Cette invitation a déjà été utilisée. S’il te faut un nouveau lien, demande à la personne qui organise 💛",
+  "invite.expired": "⏳ Cette invitation a expiré : on ne peut plus choisir avec. Si tu veux encore choisir, demande un nouveau lien 💛",
+  "invite.revoked": "🔒 Ce lien a été annulé par la personne qui organise. Elle t’en a peut-être envoyé un plus récent — regarde ta boîte mail 💛",
+  "invite.canChange": "✨ Tes choix sont bien arrivés ! Tu as changé d’avis ? Tu peux les modifier jusqu’au {time}.",
+  "invite.notesLabel": "Une envie particulière ? (facultatif)",
+  "invite.notesPlaceholder": "J’ai envie de quelque chose de chaud et réconfortant…",
+  "invite.send": "Envoyer mes choix 🌿",
+  "invite.update": "Modifier mes choix ✨",
+  "invite.nothingChanged": "Rien n’a changé — tes choix sont restés les mêmes 🌿",
+  "invite.updated": "Choix modifiés ✨ La personne qui organise a été prévenue.",
+  "invite.languageChanged": "Langue modifiée 🌿",
+  "invite.suggestLabel": "Ou propose autre chose (facultatif)",
+  "invite.suggestPlaceholder": "Quelque chose qui n’est pas dans la liste…",
+  "invite.suggestionsHeading": "Tes suggestions",
+  "invite.suggestionPending": "en attente de réponse",
+  "invite.suggestionAccepted": "ajoutée 💛",
+  "invite.suggestionDeclined": "pas cette fois",
+  "invite.suggestionSent": "Merci pour l’idée 💡 La personne qui organise te répondra.",
+  "invite.suggestOnly": "💡 Juste envoyer mes idées",
+  "invite.noSuggestion": "Écris d’abord une idée dans l’une des cases, ou envoie plutôt tes choix.",
+  "invite.pollHeading": "📅 Quand es-tu disponible ?",
+  "invite.pollHint": "Le jour n’est pas encore fixé. Dis-nous lesquels te conviennent, et la personne qui organise en choisira un.",
+  "invite.pollYes": "Ça me va",
+  "invite.pollMaybe": "Peut-être",
+  "invite.pollNo": "Impossible",
+  "invite.pollYours": "Tes disponibilités",
+  "invite.surpriseHint": "🎁 C’est une surprise ! Choisis d’après les indices : ce qu’ils cachent reste secret jusqu’au {time}.",
+  "invite.seePlan": "Voir ton programme 🗺️",
+  "invite.pickForMe": "🎲 Choisis pour moi",
+  "invite.pickedForYou": "Tout a été choisi au hasard — change ce que tu veux, puis envoie.",
+  "invite.tallyHeading": "🗳️ Ce que vote le groupe",
+  "invite.tallyVoted": "{voted} sur {invited} ont voté.",
+  "invite.tallyLeading": "en tête",
+  "invite.tallyTied": "égalité — la personne qui organise tranchera",
+  "invite.tallyFinal": "✨ Les votes sont comptés — voici le programme.",
+
+  "memories.heading": "📸 Souvenirs de la soirée",
+  "memories.intro": "C’était comment ? Note la soirée et ce que tu as choisi, écris quelques mots et ajoute des photos. Tous les participants peuvent les voir.",
+  "memories.overall": "La soirée dans l’ensemble",
+  "memories.noRating": "Pas de note",
+  "memories.optionsHeading": "Ce que tu as choisi",
+  "memories.reflectionLabel": "Quelques mots pour s’en souvenir (facultatif)",
+  "memories.reflectionPlaceholder": "Le pain était encore chaud quand…",
+  "memories.save": "Enregistrer mes souvenirs 💛",
+  "memories.saved": "Souvenirs enregistrés 💛",
+  "memories.photos": "Tes photos",
+  "memories.addPhoto": "Ajouter une photo",
+  "memories.photoLimit": "Jusqu’à {max} photos chacun.",
+  "memories.uploading": "Envoi…",
+  "memories.uploadFailed": "L’envoi a échoué.",
+  "memories.removePhoto": "Retirer",
+  "memories.photoRemoved": "Photo retirée.",
+  "memories.others": "Des autres",
+  "memories.nothingYet": "Personne d’autre n’a encore rien partagé.",
+  "memories.guest": "Un invité",
+  "memories.notOpen": "Les souvenirs s’ouvrent dès que la soirée commence 🌙",
+  "memories.badRating": "Les notes vont de 1 à 5 étoiles.",
+  "memories.tooLong": "Merci de rester sous {max} caractères.",
+  "memories.empty": "Ajoute d’abord une note ou quelques mots.",
+  "memories.tooManyPhotos": "Tu peux ajouter jusqu’à {max} photos.",
+  "memories.badPhoto": "Envoie une image PNG, JPEG, GIF ou WebP (5 Mo maximum).",
+
+  "thanks.pageTitle": "Merci • Date Night Cottage",
+  "thanks.heading": "🕯️ Tout est prêt",
+  "thanks.body": "Tes choix ont été envoyés. Tu n’as rien d’autre à faire — on s’occupe de toi 💛",
+  "thanks.seePlan": "Voir ton programme 🗺️",
+
+  "plan.pageTitle": "Ton programme • {title}",
+  "plan.heading": "🗺️ Ton programme",
+  "plan.surpriseHeading": "🎁 C’est une surprise",
+  "plan.countdownLabel": "Temps restant avant la révélation :",
+  "plan.countdown": "{d} j {h} h {m} min {s} s",
+  "plan.revealed": "✨ La surprise est dévoilée ! Voici ce qui est vraiment prévu.",
+  "plan.yourPicks": "Tes choix",
+  "plan.noPicks": "Tu n’as pas encore fait tes choix.",
+  "plan.makePicks": "Faire tes choix →",
+  "plan.backToInvite": "← Retour à ton invitation",
+
+  "surprise.teaser": "Surprise nº {n}",
+  "surprise.blurb": "C’est une surprise 🎁 Tout sera dévoilé le {time}.",
+
+  "email.pickButton": "Choisir mes envies 🌿",
+
+  "email.invite.subject": "Une invitation douillette : {title} 🌿",
+  "email.invite.heading": "🌼 Tu as reçu une invitation douillette",
+  "email.invite.body": "Appuie ci-dessous pour choisir quelques jolies options.",
+  "email.invite.text": "Invitation douillette : {title}\nThème : {theme}\nChoisis ici : {url}",
+
+  "email.confirmation.subject": "Tout est prêt pour « {title} » 🕯️",
+  "email.confirmation.heading": "🕯️ Tout est prêt, mon cœur",
+  "email.confirmation.intro": "Tes choix pour {title} sont bien arrivés.",
+  "email.confirmation.when": "Quand : {when} — c’est en pièce jointe pour ton agenda 📅",
+  "email.confirmation.relax": "Tu n’as rien à prévoir — viens simplement et installe-toi confortablement.",
+  "email.confirmation.takenCare": "On s’occupe de toi.",
+  "email.confirmation.text": "Tout est prêt pour « {title} » (Thème : {theme}).",
+  "email.confirmation.textWhen": "Quand : {when} (invitation d’agenda jointe).",
+  "email.confirmation.textOutro": "On s’occupe de toi 💛",
+
+  "email.nudge.subject": "Ta place t’attend toujours : {title} 🌿",
+  "email.nudge.heading": "🌿 Un petit rappel tout doux",
+  "email.nudge.body": "Tes choix pour {title} ({theme}) sont toujours ouverts — rien ne presse, c’est juste un rappel.",
+  "email.nudge.text": "Un petit rappel : tes choix pour « {title} » sont toujours ouverts.\nChoisis ici : {url}",
+
+  "email.dayBefore.subject": "Demain : {title} 🕯️",
+  "email.dayBefore.heading": "🕯️ Votre rendez-vous, c’est demain",
+  "email.dayBefore.text": "Votre rendez-vous, c’est demain : « {title} »",
+
+  "email.dayOf.subject": "C’est le grand jour : {title} 💛",
+  "email.dayOf.heading": "💛 C’est le grand jour",
+  "email.dayOf.text": "C’est le grand jour : « {title} » ({when})",
+
+  "email.suggestion.acceptedSubject": "Ton idée a été retenue : {suggestion} 💛",
+  "email.suggestion.acceptedHeading": "💛 Ton idée a été retenue",
+  "email.suggestion.accepted": "« {suggestion} » fait maintenant partie de {title}, et c’est dans tes choix.",
+  "email.suggestion.declinedSubject": "À propos de ton idée pour « {title} » 🌿",
+  "email.suggestion.declinedHeading": "🌿 À propos de ton idée",
+  "email.suggestion.declined": "« {suggestion} » ne fera pas partie de {title} cette fois — tes autres choix restent en place.",
+
+  "email.finalPlan.subject": "Le programme de « {title} » est prêt ✨",
+  "email.finalPlan.heading": "✨ Le programme est prêt",
+  "email.finalPlan.intro": "Les votes sont comptés pour {title}. Voici ce que le groupe a choisi :",
+
+  "email.dateConfirmed.subject": "La date est fixée : {title} 📅",
+  "email.dateConfirmed.heading": "📅 La date est fixée",
+  "email.dateConfirmed.body": "{title} aura lieu le {when}.",
+
+  "email.reveal.subject": "La surprise est dévoilée : {title} 🎁",
+  "email.reveal.heading": "🎁 Surprise !",
+  "email.reveal.intro": "Voici ce qui est vraiment prévu pour {title} :",
+  "email.reveal.planLink": "Ton programme :",
+};
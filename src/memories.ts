@@ -0,0 +1,221 @@
+import { nanoid } from "nanoid";
+
+import type { FieldError } from "./date_nights";
+import { getDb } from "./db";
+import { t } from "./i18n";
+import { parseMenu, parsePicks } from "./menu";
+import { dateNightStartsAt } from "./prep";
+import { removeUpload, saveImageUpload } from "./uploads";
+import { groupTally } from "./voting";
+
+/**
+ * The journal kept after a date night: once it has started, every planner and every invitee can
+ * rate the evening and each chosen option, leave a few words and add photos. Each of them has one
+ * memory per date night, which they can keep editing.
+ */
+export type MemoryAuthor = { userId: string } | { inviteId: string };
+
+export type OptionRating = { categoryKey: string; option: string; rating: number };
+
+export type MemoryPhoto = { id: string; path: string; thumbPath: string; createdAt: string };
+
+export type Memory = {
+  id: string;
+  dateNightId: string;
+  userId: string | null;
+  inviteId: string | null;
+  /** The planner's name, or the invite's email address (null when it has none). */
+  authorName: string | null;
+  rating: number | null;
+  reflection: string | null;
+  optionRatings: OptionRating[];
+  photos: MemoryPhoto[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type MemoryInput = { rating: number | null; reflection: string | null; optionRatings: OptionRating[] };
+
+export const MAX_REFLECTION_LENGTH = 1000;
+export const MAX_PHOTOS_PER_MEMORY = 6;
+
+/** Memories can be written from the moment the date night starts. */
+export function memoriesOpen(dn: any, now = new Date()) {
+  const start = dateNightStartsAt(dn);
+  return Boolean(start && start <= now);
+}
+
+/**
+ * What actually happened, per category in menu order: a group's winners, otherwise everything
+ * anyone picked (only first choices of a ranking).
+ */
+export function chosenOptions(dn: any): Array<{ key: string; label: string; options: string[] }> {
+  const menu = parseMenu(dn.menu_json);
+  const tally = groupTally(dn);
+  if (tally) return tally.categories.map(c => ({ key: c.key, label: c.label, options: c.winners })).filter(c => c.options.length);
+
+  const selections = (getDb().prepare(`
+    SELECT s.picks_json FROM selections s JOIN invites i ON i.id = s.invite_id
+    WHERE i.date_night_id = ? AND i.revoked_at IS NULL ORDER BY s.created_at
+  `).all(dn.id) as any[]).map(r => parsePicks(r.picks_json));
+  return menu.categories
+    .map(c => {
+      const picked = new Set(selections.flatMap(p => (c.mode === "rank" ? (p[c.key] ?? []).slice(0, 1) : p[c.key] ?? [])));
+      return { key: c.key, label: c.label, options: c.options.filter(o => picked.has(o)) };
+    })
+    .filter(c => c.options.length);
+}
+
+function parseRating(raw: unknown): number | null | undefined {
+  const s = String(raw ?? "").trim();
+  if (!s) return null;
+  const n = Number(s);
+  return Number.isInteger(n) && n >= 1 && n <= 5 ? n : undefined;
+}
+
+/**
+ * Reads the memory form: `rating`, `reflection` and `options[i][category|option|rating]`. Ratings
+ * are 1–5 or left blank; options that weren't chosen for this date night are ignored.
+ */
+export function memoryFromBody(dn: any, body: any, locale?: string | null): MemoryInput | FieldError {
+  const rating = parseRating(body.rating);
+  if (rating === undefined) return { error: t(locale, "memories.badRating"), field: "rating" };
+
+  const reflection = String(body.reflection ?? "").trim();
+  if (reflection.length > MAX_REFLECTION_LENGTH) {
+    return { error: t(locale, "memories.tooLong", { max: MAX_REFLECTION_LENGTH }), field: "reflection" };
+  }
+
+  const chosen = chosenOptions(dn);
+  const optionRatings: OptionRating[] = [];
+  const rows: unknown[] = Array.isArray(body.options) ? body.options : Object.values(body.options ?? {});
+  for (const row of rows) {
+    if (!row || typeof row !== "object") continue;
+    const { category, option } = row as Record<string, unknown>;
+    const r = parseRating((row as Record<string, unknown>).rating);
+    if (r === undefined) return { error: t(locale, "memories.badRating"), field: "options" };
+    if (r === null || !chosen.some(c => c.key === category && c.options.includes(String(option)))) continue;
+    if (optionRatings.some(o => o.categoryKey === category && o.option === option)) continue;
+    optionRatings.push({ categoryKey: String(category), option: String(option), rating: r });
+  }
+
+  if (rating === null && !reflection && !optionRatings.length) return { error: t(locale, "memories.empty"), field: "rating" };
+  return { rating, reflection: reflection || null, optionRatings };
+}
+
+function findMemory(dateNightId: string, author: MemoryAuthor): any {
+  const db = getDb();
+  return "userId" in author
+    ? db.prepare(`SELECT * FROM memories WHERE date_night_id = ? AND user_id = ?`).get(dateNightId, author.userId)
+    : db.prepare(`SELECT * FROM memories WHERE date_night_id = ? AND invite_id = ?`).get(dateNightId, author.inviteId);
+}
+
+/** The author's memory of this date night, made empty the first time (e.g. a photo before any words). */
+function ensureMemory(dateNightId: string, author: MemoryAuthor): any {
+  const existing = findMemory(dateNightId, author);
+  if (existing) return existing;
+  const now = new Date().toISOString();
+  getDb().prepare(`
+    INSERT INTO memories (id, date_night_id, user_id, invite_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)
+  `).run(nanoid(12), dateNightId, "userId" in author ? author.userId : null, "inviteId" in author ? author.inviteId : null, now, now);
+  return findMemory(dateNightId, author);
+}
+
+/** Writes the author's rating, reflection and option ratings, replacing what they had said before. */
+export function saveMemory(dn: any, author: MemoryAuthor, input: MemoryInput) {
+  const db = getDb();
+  db.transaction(() => {
+    const memory = ensureMemory(dn.id, author);
+    db.prepare(`UPDATE memories SET rating = ?, reflection = ?, updated_at = ? WHERE id = ?`)
+      .run(input.rating, input.reflection, new Date().toISOString(), memory.id);
+    db.prepare(`DELETE FROM option_ratings WHERE memory_id = ?`).run(memory.id);
+    const insert = db.prepare(`INSERT INTO option_ratings (memory_id, category_key, option, rating) VALUES (?, ?, ?, ?)`);
+    for (const o of input.optionRatings) insert.run(memory.id, o.categoryKey, o.option, o.rating);
+  })();
+}
+
+/** Stores an uploaded photo (with a thumbnail where one can be made) on the author's memory. */
+export function addPhoto(
+  dn: any,
+  author: MemoryAuthor,
+  body: Buffer,
+  contentType: string,
+  locale?: string | null
+): { photo: MemoryPhoto } | { error: string } {
+  const db = getDb();
+  const existing = findMemory(dn.id, author);
+  const count = existing ? (db.prepare(`SELECT COUNT(*) AS n FROM memory_photos WHERE memory_id = ?`).get(existing.id) as any).n : 0;
+  if (count >= MAX_PHOTOS_PER_MEMORY) return { error: t(locale, "memories.tooManyPhotos", { max: MAX_PHOTOS_PER_MEMORY }) };
+
+  const saved = saveImageUpload(body, contentType, { thumbnail: true });
+  if ("error" in saved) return { error: t(locale, "memories.badPhoto") };
+
+  const memory = existing ?? ensureMemory(dn.id, author);
+  const photo = { id: nanoid(12), path: saved.path, thumbPath: saved.thumbPath, createdAt: new Date().toISOString() };
+  db.prepare(`INSERT INTO memory_photos (id, memory_id, path, thumb_path, created_at) VALUES (?, ?, ?, ?, ?)`)
+    .run(photo.id, memory.id, photo.path, photo.thumbPath, photo.createdAt);
+  return { photo };
+}
+
+/**
+ * Removes a photo and its files. Planners may remove any photo on their date night; partners only
+ * their own (pass their author). False when there was no such photo.
+ */
+export function deletePhoto(dn: any, photoId: string, author?: MemoryAuthor): boolean {
+  const db = getDb();
+  const photo = db.prepare(`
+    SELECT p.*, m.invite_id, m.user_id FROM memory_photos p JOIN memories m ON m.id = p.memory_id
+    WHERE p.id = ? AND m.date_night_id = ?
+  `).get(photoId, dn.id) as any;
+  if (!photo || (author && "inviteId" in author && photo.invite_id !== author.inviteId)) return false;
+
+  db.prepare(`DELETE FROM memory_photos WHERE id = ?`).run(photo.id);
+  removeUpload(photo.path);
+  if (photo.thumb_path !== photo.path) removeUpload(photo.thumb_path);
+  return true;
+}
+
+/** Everyone's memories of a date night, planners first, each with their option ratings and photos. */
+export function listMemories(dateNightId: string): Memory[] {
+  const db = getDb();
+  const ratings = db.prepare(`SELECT * FROM option_ratings WHERE memory_id = ? ORDER BY rowid`);
+  const photos = db.prepare(`SELECT * FROM memory_photos WHERE memory_id = ? ORDER BY created_at`);
+  return (db.prepare(`
+    SELECT m.*, u.name AS user_name, i.recipient_email FROM memories m
+    LEFT JOIN users u ON u.id = m.user_id LEFT JOIN invites i ON i.id = m.invite_id
+    WHERE m.date_night_id = ? ORDER BY m.user_id IS NULL, m.created_at
+  `).all(dateNightId) as any[]).map(r => ({
+    id: r.id,
+    dateNightId: r.date_night_id,
+    userId: r.user_id,
+    inviteId: r.invite_id,
+    authorName: r.user_name ?? r.recipient_email ?? null,
+    rating: r.rating,
+    reflection: r.reflection,
+    optionRatings: (ratings.all(r.id) as any[]).map(o => ({ categoryKey: o.category_key, option: o.option, rating: o.rating })),
+    photos: (photos.all(r.id) as any[]).map(p => ({ id: p.id, path: p.path, thumbPath: p.thumb_path, createdAt: p.created_at })),
+    createdAt: r.created_at,
+    updatedAt: r.updated_at,
+  }));
+}
+
+/** The average of the ratings given, or null when nobody rated. */
+export function averageRating(ratings: Array<number | null>): number | null {
+  const given = ratings.filter((r): r is number => r !== null);
+  return given.length ? Math.round((given.reduce((a, b) => a + b, 0) / given.length) * 10) / 10 : null;
+}
+
+/**
+ * How options have been rated across the given date nights, keyed by lower-cased option name so
+ * the same idea in another menu finds its history.
+ */
+export function optionRatingStats(dateNightIds: string[]): Record<string, { option: string; average: number; count: number }> {
+  const rows = getDb().prepare(`
+    SELECT lower(r.option) AS key, MAX(r.option) AS option, AVG(r.rating) AS average, COUNT(*) AS count
+    FROM option_ratings r JOIN memories m ON m.id = r.memory_id
+    WHERE m.date_night_id IN (SELECT value FROM json_each(?))
+    GROUP BY lower(r.option)
+    ORDER BY AVG(r.rating) DESC, COUNT(*) DESC
+  `).all(JSON.stringify(dateNightIds)) as any[];
+  return Object.fromEntries(rows.map(r => [r.key, { option: r.option, average: Math.round(r.average * 10) / 10, count: r.count }]));
+}
@@ -0,0 +1,311 @@
+import { currency } from "./config";
+import { DEFAULT_LOCALE, parseLocale, t } from "./i18n";
+import { badTaskLine, parseIngredients, parseTasks, type PrepTask } from "./prep";
+import { isUploadPath } from "./uploads";
+
+/** How a partner chooses within a category: exactly one, up to `maxPicks`, or an ordering of every option. */
+export type SelectionMode = "one" | "many" | "rank";
+
+export type OptionTag = "vegetarian" | "gluten-free" | "stay-in" | "go-out";
+
+export const OPTION_TAGS: Array<{ key: OptionTag; label: string; emoji: string }> = [
+  { key: "vegetarian", label: "Vegetarian", emoji: "🥦" },
+  { key: "gluten-free", label: "Gluten-free", emoji: "🌾" },
+  { key: "stay-in", label: "Stay in", emoji: "🏡" },
+  { key: "go-out", label: "Go out", emoji: "🚶" },
+];
+
+/** Optional extras for one option. The option's text stays its identity, so picks are unchanged. */
+export type OptionDetails = {
+  description?: string;
+  /** An uploaded image, `/uploads/…`. */
+  image?: string;
+  /** Estimated cost in `CURRENCY`. */
+  cost?: number;
+  prepMinutes?: number;
+  tags?: OptionTag[];
+  /** Surprise mode: what partners see instead of the option until the reveal (see `surprise.ts`). */
+  teaser?: string;
+  /** Planner-only: what to do if it's picked, and what to buy (see `prep.ts`). */
+  tasks?: PrepTask[];
+  ingredients?: string[];
+};
+
+export type MenuCategory = {
+  key: string;
+  label: string;
+  mode: SelectionMode;
+  maxPicks?: number;
+  options: string[];
+  /** Option text → details; options without any are plain strings as before. */
+  details?: Record<string, OptionDetails>;
+};
+
+export type Menu = { categories: MenuCategory[] };
+
+/** Category key → chosen options (a single entry for "one", in rank order for "rank"). */
+export type Picks = Record<string, string[]>;
+
+const SELECTION_MODES: SelectionMode[] = ["one", "many", "rank"];
+
+/** The fixed dinner/activity/mood trio every menu had before categories were configurable. */
+const LEGACY_CATEGORIES: Array<{ key: string; label: string }> = [
+  { key: "dinner", label: "Dinner" },
+  { key: "activity", label: "Activity" },
+  { key: "mood", label: "Mood" },
+];
+
+function isStringArray(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every(x => typeof x === "string");
+}
+
+/** Keeps the well-formed parts of one option's details; undefined when nothing is left. */
+function parseDetails(d: any): OptionDetails | undefined {
+  if (!d || typeof d !== "object") return undefined;
+  const description = typeof d.description === "string" ? d.description.trim() : "";
+  const teaser = typeof d.teaser === "string" ? d.teaser.trim().slice(0, 80) : "";
+  const cost = Number(d.cost);
+  const prepMinutes = Number(d.prepMinutes);
+  const tags = Array.isArray(d.tags) ? OPTION_TAGS.map(x => x.key).filter(k => d.tags.includes(k)) : [];
+  const tasks = parseTasks(d.tasks);
+  const ingredients = parseIngredients(d.ingredients);
+  const details: OptionDetails = {
+    ...(description ? { description } : {}),
+    ...(typeof d.image === "string" && isUploadPath(d.image) ? { image: d.image } : {}),
+    ...(d.cost !== null && d.cost !== "" && Number.isFinite(cost) && cost >= 0 ? { cost: Math.round(cost * 100) / 100 } : {}),
+    ...(Number.isInteger(prepMinutes) && prepMinutes > 0 ? { prepMinutes } : {}),
+    ...(tags.length ? { tags } : {}),
+    ...(teaser ? { teaser } : {}),
+    ...(tasks.length ? { tasks } : {}),
+    ...(ingredients.length ? { ingredients } : {}),
+  };
+  return Object.keys(details).length ? details : undefined;
+}
+
+/** Details for options the category still has, from a map keyed by option text. */
+function parseDetailsMap(raw: unknown, options: string[]): Record<string, OptionDetails> | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const out: Record<string, OptionDetails> = {};
+  for (const option of options) {
+    const d = Object.prototype.hasOwnProperty.call(raw, option) ? parseDetails((raw as any)[option]) : undefined;
+    if (d) out[option] = d;
+  }
+  return Object.keys(out).length ? out : undefined;
+}
+
+function parseCategory(c: any): MenuCategory | null {
+  if (!c || typeof c.key !== "string" || !c.key || typeof c.label !== "string") return null;
+  const mode: SelectionMode = SELECTION_MODES.includes(c.mode) ? c.mode : "one";
+  const maxPicks = Number(c.maxPicks);
+  const options = isStringArray(c.options) ? c.options : [];
+  const details = parseDetailsMap(c.details, options);
+  return {
+    key: c.key,
+    label: c.label,
+    mode,
+    ...(mode === "many" && maxPicks > 0 ? { maxPicks } : {}),
+    options,
+    ...(details ? { details } : {}),
+  };
+}
+
+/**
+ * Reads a stored menu (date night `menu_json` or theme `options_json`).
+ * Menus saved before categories existed (`{ dinner, activity, mood }`) become three pick-one categories.
+ */
+export function parseMenu(json: string): Menu {
+  let m: any;
+  try {
+    m = JSON.parse(json);
+  } catch {
+    return { categories: [] };
+  }
+
+  if (Array.isArray(m?.categories)) {
+    return { categories: m.categories.map(parseCategory).filter(Boolean) as MenuCategory[] };
+  }
+
+  return {
+    categories: LEGACY_CATEGORIES.map(({ key, label }) => ({
+      key,
+      label,
+      mode: "one" as const,
+      options: isStringArray(m?.[key]) ? m[key] : [],
+    })),
+  };
+}
+
+export function parsePicks(json: string | null | undefined): Picks {
+  try {
+    const p = JSON.parse(json || "{}");
+    const picks: Picks = {};
+    for (const [k, v] of Object.entries(p ?? {})) if (isStringArray(v)) picks[k] = v;
+    return picks;
+  } catch {
+    return {};
+  }
+}
+
+export function slugifyKey(label: string) {
+  return label.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "category";
+}
+
+export function modeHint(c: MenuCategory, locale?: string | null) {
+  if (c.mode === "many") return c.maxPicks ? t(locale, "menu.pickUpTo", { count: c.maxPicks }) : t(locale, "menu.pickAny");
+  if (c.mode === "rank") return t(locale, "menu.rankAll");
+  return t(locale, "menu.pickOne");
+}
+
+/**
+ * Builds a menu from the admin editor's `categories[i][…]` fields (options one per line) or the API's
+ * category objects (options as an array). Existing categories keep their key (selections refer to
+ * it); a category with an empty name is dropped.
+ *
+ * Option details come either as the editor's `details[j][…]` rows, each naming its `option`, or as
+ * the stored map keyed by option text.
+ */
+export function menuFromForm(raw: unknown): { menu: Menu } | { error: string } {
+  const rows = Array.isArray(raw) ? raw : raw && typeof raw === "object" ? Object.values(raw) : [];
+  const categories: MenuCategory[] = [];
+  const usedKeys = new Set<string>();
+
+  for (const r of rows as any[]) {
+    const label = String(r?.label || "").trim();
+    if (!label) continue;
+
+    const lines = Array.isArray(r?.options) ? r.options.map(String) : String(r?.options || "").split("\n");
+    const options = [...new Set(lines.map((s: string) => s.trim()).filter(Boolean))] as string[];
+    if (options.length === 0) return { error: `Please provide at least 1 option for “${label}”.` };
+
+    const mode: SelectionMode = SELECTION_MODES.includes(r?.mode) ? r.mode : "one";
+    const maxPicks = Math.floor(Number(r?.maxPicks || 0));
+    if (mode === "many" && maxPicks < 0) return { error: `“${label}” needs a sensible pick limit.` };
+
+    let key = String(r?.key || "").trim() || slugifyKey(label);
+    for (let n = 2; usedKeys.has(key); n++) key = `${slugifyKey(label)}-${n}`;
+    usedKeys.add(key);
+
+    const detailRows = Array.isArray(r?.details) ? r.details : r?.details && typeof r.details === "object" ? Object.values(r.details) : [];
+    const byOption = detailRows.every((d: any) => typeof d?.option === "string")
+      ? Object.fromEntries(detailRows.map((d: any) => [d.option.trim(), d]))
+      : r.details;
+    const badCost = Object.entries(byOption ?? {}).find(([, d]: [string, any]) => {
+      const raw = d?.cost;
+      return raw !== undefined && raw !== null && raw !== "" && !(Number(raw) >= 0);
+    });
+    if (badCost) return { error: `The cost for “${badCost[0]}” should be a number (or empty).` };
+    for (const [option, d] of Object.entries(byOption ?? {}) as Array<[string, any]>) {
+      const line = badTaskLine(d?.tasks);
+      if (line) return { error: `The prep task “${line.trim()}” for “${option}” should end with a time like “| 2h”, “| 30m” or “| 1d” (or none).` };
+    }
+    const details = parseDetailsMap(byOption, options);
+    // Partners' picks come back as teasers in surprise mode, so two options can't share one.
+    const teasers = Object.values(details ?? {}).map(d => d.teaser).filter(Boolean);
+    const repeated = teasers.find((x, i) => teasers.indexOf(x) !== i);
+    if (repeated) return { error: `Two options in “${label}” share the teaser “${repeated}”; give each its own.` };
+
+    categories.push({
+      key,
+      label,
+      mode,
+      ...(mode === "many" && maxPicks > 0 ? { maxPicks } : {}),
+      options,
+      ...(details ? { details } : {}),
+    });
+  }
+
+  if (categories.length === 0) return { error: "Please add at least one category." };
+  return { menu: { categories } };
+}
+
+/** Checks the invite form's `picks[key][]` fields against the menu; errors are in the partner's language. */
+export function validatePicks(menu: Menu, raw: unknown, locale?: string | null): { picks: Picks } | { error: string } {
+  const input = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const picks: Picks = {};
+
+  for (const c of menu.categories) {
+    const v = input[c.key];
+    const chosen = (Array.isArray(v) ? v : v === undefined ? [] : [v]).map(x => String(x).trim()).filter(Boolean);
+    const distinct = new Set(chosen);
+
+    if (chosen.some(x => !c.options.includes(x)) || distinct.size !== chosen.length) {
+      return { error: t(locale, "picks.check", { label: c.label }) };
+    }
+    if (c.mode === "one" && chosen.length !== 1) {
+      return { error: t(locale, "picks.one", { label: c.label }) };
+    }
+    if (c.mode === "many" && (chosen.length === 0 || (c.maxPicks && chosen.length > c.maxPicks))) {
+      return { error: c.maxPicks ? t(locale, "picks.upTo", { label: c.label, max: c.maxPicks }) : t(locale, "picks.atLeastOne", { label: c.label }) };
+    }
+    if (c.mode === "rank" && chosen.length !== c.options.length) {
+      return { error: t(locale, "picks.rank", { label: c.label }) };
+    }
+    picks[c.key] = chosen;
+  }
+
+  return { picks };
+}
+
+export function formatPickValue(c: Pick<MenuCategory, "mode">, values: string[]) {
+  if (c.mode === "rank") return values.map((v, i) => `${i + 1}. ${v}`).join(", ");
+  return values.join(", ");
+}
+
+/**
+ * The menu as a partner sees it when the planner set a budget: options whose estimated cost is
+ * over it are left out, and so is a category with nothing left. Options without a cost always stay.
+ */
+export function menuWithinBudget(menu: Menu, maxCost: number | null | undefined): Menu {
+  if (maxCost === null || maxCost === undefined) return menu;
+  const categories = menu.categories
+    .map(c => ({ ...c, options: c.options.filter(o => !(Number(c.details?.[o]?.cost) > maxCost)) }))
+    .filter(c => c.options.length > 0);
+  return { categories };
+}
+
+export function formatCost(cost: number, locale?: string | null) {
+  try {
+    return new Intl.NumberFormat(parseLocale(locale) ?? DEFAULT_LOCALE, { style: "currency", currency: currency(), maximumFractionDigits: cost % 1 ? 2 : 0 }).format(cost);
+  } catch {
+    return String(cost);
+  }
+}
+
+/** Cost, prep time and tags as short phrases in the partner's language ("≈ $20", "30 min prep", "🥦 Vegetarian"). */
+export function optionFacts(d: OptionDetails | undefined, locale?: string | null): string[] {
+  if (!d) return [];
+  return [
+    ...(d.cost !== undefined ? [t(locale, "option.cost", { cost: formatCost(d.cost, locale) })] : []),
+    ...(d.prepMinutes ? [t(locale, "option.prep", { minutes: d.prepMinutes })] : []),
+    ...(d.tags ?? []).map(tag => `${OPTION_TAGS.find(x => x.key === tag)!.emoji} ${t(locale, `tag.${tag}` as const)}`),
+  ];
+}
+
+/** Description and facts on one line, or "" for a plain option. */
+export function describeOption(d: OptionDetails | undefined, locale?: string | null) {
+  return [d?.description, ...optionFacts(d, locale)].filter(Boolean).join(" • ");
+}
+
+/**
+ * Label/value pairs for display and emails, with the chosen options' details when they have any.
+ * Picks for categories the menu no longer has are still shown under their key so nothing a partner
+ * chose silently disappears.
+ */
+export function describePicks(menu: Menu, picks: Picks, locale?: string | null): Array<{ label: string; value: string; details?: string }> {
+  const known = new Set(menu.categories.map(c => c.key));
+  const out = menu.categories
+    .filter(c => picks[c.key]?.length)
+    .map(c => {
+      // For a ranking only the first choice is described; it's the one that will happen.
+      const chosen = c.mode === "rank" ? picks[c.key].slice(0, 1) : picks[c.key];
+      const described = chosen.map(o => [o, describeOption(c.details?.[o], locale)]).filter(([, d]) => d);
+      const details = described.length === 1 && chosen.length === 1
+        ? described[0][1]
+        : described.map(([o, d]) => `${o}: ${d}`).join("; ");
+      return { label: c.label, value: formatPickValue(c, picks[c.key]), ...(details ? { details } : {}) };
+    });
+  for (const [key, values] of Object.entries(picks)) {
+    if (!known.has(key) && values.length) out.push({ label: key, value: values.join(", ") });
+  }
+  return out;
+}
@@ -0,0 +1,201 @@
+import { listDateNightsFor } from "./date_nights";
+import { getDb } from "./db";
+import { menuWithinBudget, parseMenu, type Menu, type MenuCategory, type SelectionMode } from "./menu";
+import { chosenOptions } from "./memories";
+import { getTheme } from "./themes";
+
+/**
+ * "Surprise me": proposes a menu for a date night from its theme's options and the planner's
+ * earlier date nights. Options partners picked before are favoured, ones that haven't been offered
+ * lately are rotated in, and whatever was picked on the last few date nights is left out unless
+ * there's nothing else to offer. The planner pins or rerolls options before saving the menu.
+ */
+export const OPTIONS_PER_CATEGORY = 4;
+
+/** How many of the latest date nights count as "lately", both for repeats and for rotation. */
+export const RECENT_DATE_NIGHTS = 3;
+
+/** What happened to one option on earlier date nights; "ago" counts date nights, 0 being the latest. */
+export type OptionHistory = { picked: number; lastOfferedAgo: number | null; lastPickedAgo: number | null };
+
+/** Category key → lower-cased option → its history, so the same idea in another menu finds it. */
+export type MenuHistory = Record<string, Map<string, OptionHistory>>;
+
+export type ProposedOption = { option: string; reason: string; pinned: boolean };
+
+export type ProposedCategory = { key: string; label: string; mode: SelectionMode; poolSize: number; options: ProposedOption[] };
+
+/** Category key → options, as the generator form posts them (`current[key][]`, `pinned[key][]`). */
+export type OptionLists = Record<string, string[]>;
+
+/** What the generator draws from: the theme's options that fit the date night's budget; null without a theme. */
+export function generatorPool(dn: any): Menu | null {
+  const theme = getTheme(dn.theme_id);
+  return theme ? menuWithinBudget(theme.options, dn.max_option_cost) : null;
+}
+
+/** The planner's other date nights, latest first by date (or when they were made, without one). */
+function earlierDateNights(userId: string, excludeId: string): any[] {
+  const when = (dn: any) => dn.date_iso ?? dn.created_at.slice(0, 10);
+  return listDateNightsFor(userId)
+    .filter(dn => dn.id !== excludeId)
+    .sort((a, b) => when(b).localeCompare(when(a)) || b.created_at.localeCompare(a.created_at));
+}
+
+export function menuHistory(userId: string, excludeId: string): MenuHistory {
+  const history: MenuHistory = {};
+  const entry = (key: string, option: string) => {
+    const options = (history[key] ??= new Map());
+    const id = option.trim().toLowerCase();
+    if (!options.has(id)) options.set(id, { picked: 0, lastOfferedAgo: null, lastPickedAgo: null });
+    return options.get(id)!;
+  };
+
+  earlierDateNights(userId, excludeId).forEach((dn, ago) => {
+    for (const c of parseMenu(dn.menu_json).categories) {
+      for (const o of c.options) {
+        const h = entry(c.key, o);
+        h.lastOfferedAgo ??= ago;
+      }
+    }
+    for (const c of chosenOptions(dn)) {
+      for (const o of c.options) {
+        const h = entry(c.key, o);
+        h.picked++;
+        h.lastPickedAgo ??= ago;
+      }
+    }
+  });
+  return history;
+}
+
+function historyOf(history: MenuHistory, key: string, option: string): OptionHistory {
+  return history[key]?.get(option.trim().toLowerCase()) ?? { picked: 0, lastOfferedAgo: null, lastPickedAgo: null };
+}
+
+function isRepeat(h: OptionHistory) {
+  return h.lastPickedAgo !== null && h.lastPickedAgo < RECENT_DATE_NIGHTS;
+}
+
+/** Past picks weigh most; an option that hasn't been on a menu lately gets a nudge so the menu rotates. */
+function weight(h: OptionHistory) {
+  return 1 + 2 * h.picked + (h.lastOfferedAgo === null || h.lastOfferedAgo >= RECENT_DATE_NIGHTS ? 2 : 0);
+}
+
+/** Why an option was proposed, for the planner ("Picked 3× before • Not offered lately"). */
+function reasonFor(h: OptionHistory) {
+  const parts: string[] = [];
+  if (isRepeat(h)) parts.push("Picked recently");
+  else if (h.picked) parts.push(`Picked ${h.picked}× before`);
+  if (h.lastOfferedAgo === null) parts.push("New to your menus");
+  else if (h.lastOfferedAgo >= RECENT_DATE_NIGHTS) parts.push("Not offered lately");
+  return parts.join(" • ");
+}
+
+/** Draws up to `n` options, each with a chance proportional to its weight. */
+function weightedSample(options: string[], weightOf: (o: string) => number, n: number, random: () => number) {
+  const left = [...options];
+  const drawn: string[] = [];
+  while (drawn.length < n && left.length) {
+    const total = left.reduce((sum, o) => sum + weightOf(o), 0);
+    let r = random() * total;
+    let i = 0;
+    while (i < left.length - 1 && (r -= weightOf(left[i])) >= 0) i++;
+    drawn.push(...left.splice(i, 1));
+  }
+  return drawn;
+}
+
+/**
+ * A proposal per theme category, in the theme's order. `keep` options stay as they are (the pinned
+ * ones, or everything but the option being rerolled) and the rest is drawn again, preferring options
+ * that aren't repeats and aren't in `avoid` (what's being rerolled away). `sizes` keeps a category
+ * at the size it had; otherwise it gets `OPTIONS_PER_CATEGORY`.
+ */
+export function proposeMenu(
+  pool: Menu,
+  history: MenuHistory,
+  opts: { keep?: OptionLists; pinned?: OptionLists; avoid?: OptionLists; sizes?: Record<string, number>; random?: () => number } = {}
+): ProposedCategory[] {
+  const random = opts.random ?? Math.random;
+  return pool.categories.map(c => {
+    const keep = c.options.filter(o => opts.keep?.[c.key]?.includes(o));
+    const size = Math.max(Math.min(opts.sizes?.[c.key] ?? OPTIONS_PER_CATEGORY, c.options.length), keep.length);
+    const rest = c.options.filter(o => !keep.includes(o));
+    const avoided = (o: string) => Boolean(opts.avoid?.[c.key]?.includes(o));
+    const weightOf = (o: string) => weight(historyOf(history, c.key, o));
+
+    // Fresh options first; repeats and whatever is being rerolled away only fill the gaps.
+    const drawn: string[] = [];
+    for (const tier of [
+      rest.filter(o => !avoided(o) && !isRepeat(historyOf(history, c.key, o))),
+      rest.filter(o => !avoided(o) && isRepeat(historyOf(history, c.key, o))),
+      rest.filter(avoided),
+    ]) {
+      drawn.push(...weightedSample(tier, weightOf, size - keep.length - drawn.length, random));
+    }
+
+    const chosen = new Set([...keep, ...drawn]);
+    return {
+      key: c.key,
+      label: c.label,
+      mode: c.mode,
+      poolSize: c.options.length,
+      options: c.options
+        .filter(o => chosen.has(o))
+        .map(o => ({ option: o, reason: reasonFor(historyOf(history, c.key, o)), pinned: Boolean(opts.pinned?.[c.key]?.includes(o)) })),
+    };
+  });
+}
+
+/** Reads `current[key][]` or `pinned[key][]`, keeping only options the theme offers. */
+export function optionListsFromBody(pool: Menu, raw: unknown): OptionLists {
+  const byKey = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  return Object.fromEntries(pool.categories.map(c => {
+    const v = byKey[c.key];
+    const values = (Array.isArray(v) ? v : v === undefined ? [] : [v]).map(x => String(x));
+    return [c.key, c.options.filter(o => values.includes(o))];
+  }));
+}
+
+/**
+ * The date night's `current` menu with each theme category's theme options swapped for the chosen
+ * ones. Everything the theme doesn't offer stays as it is: categories of the date night's own,
+ * options added by hand or from accepted suggestions, and details or teasers set for this date night
+ * (which win over the theme's). Theme categories not on the menu yet are added at the end; ones
+ * left empty are dropped, and a "many" category never allows more picks than it offers.
+ */
+export function menuFromChoice(pool: Menu, chosen: OptionLists, current: Menu): Menu {
+  const merge = (themed: MenuCategory, own: MenuCategory | undefined): MenuCategory[] => {
+    const { details: _, maxPicks, ...c } = own ?? themed;
+    const options = [
+      ...themed.options.filter(o => chosen[themed.key]?.includes(o)),
+      ...(own?.options.filter(o => !themed.options.includes(o)) ?? []),
+    ];
+    const details = Object.fromEntries(options.flatMap(o => {
+      const d = own?.details?.[o] ?? themed.details?.[o];
+      return d ? [[o, d]] : [];
+    }));
+    if (!options.length) return [];
+    return [{
+      ...c,
+      options,
+      ...(maxPicks !== undefined ? { maxPicks: Math.min(maxPicks, options.length) } : {}),
+      ...(Object.keys(details).length ? { details } : {}),
+    }];
+  };
+
+  const themed = new Map(pool.categories.map(c => [c.key, c]));
+  const onMenu = new Set(current.categories.map(c => c.key));
+  return {
+    categories: [
+      ...current.categories.flatMap(c => (themed.has(c.key) ? merge(themed.get(c.key)!, c) : [c])),
+      ...pool.categories.filter(c => !onMenu.has(c.key)).flatMap(c => merge(c, undefined)),
+    ],
+  };
+}
+
+/** Stores the menu from `menuFromChoice` as the date night's menu. */
+export function saveGeneratedMenu(dn: any, menu: Menu) {
+  getDb().prepare(`UPDATE date_nights SET menu_json = ? WHERE id = ?`).run(JSON.stringify(menu), dn.id);
+}
@@ -0,0 +1,516 @@
+import type Database from "better-sqlite3";
+
+export type Migration = {
+  version: number;
+  name: string;
+  /**
+   * Table rebuilds run with foreign key enforcement off (SQLite's recommended procedure);
+   * `foreign_key_check` must still come back clean before the migration commits.
+   */
+  rebuildsTables?: boolean;
+  up: (d: Database.Database) => void;
+};
+
+/** Databases created before versioned migrations may be missing columns added along the way. */
+function addColumnIfMissing(d: Database.Database, table: string, column: string, decl: string) {
+  const cols = d.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!cols.some(c => c.name === column)) d.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${decl}`);
+}
+
+/**
+ * Selections used to have one NOT NULL column per fixed category (dinner/activity/mood).
+ * Rebuilds such tables with a `picks_json` column holding `{ [categoryKey]: string[] }`.
+ */
+function migrateFixedPicksColumns(d: Database.Database) {
+  const picksExpr = `json_object(
+    'dinner', json_array(dinner_choice),
+    'activity', json_array(activity_choice),
+    'mood', json_array(mood_choice)
+  )`;
+  const hasFixedColumns = (table: string) =>
+    (d.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).some(c => c.name === "dinner_choice");
+
+  d.transaction(() => {
+    if (hasFixedColumns("selections")) {
+      d.exec(`
+        CREATE TABLE selections_next (
+          id TEXT PRIMARY KEY,
+          invite_id TEXT NOT NULL UNIQUE,
+          picks_json TEXT NOT NULL,
+          notes TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT
+        );
+        INSERT INTO selections_next (id, invite_id, picks_json, notes, created_at, updated_at)
+          SELECT id, invite_id, ${picksExpr}, notes, created_at, updated_at FROM selections;
+        DROP TABLE selections;
+        ALTER TABLE selections_next RENAME TO selections;
+      `);
+    }
+    if (hasFixedColumns("selection_revisions")) {
+      d.exec(`
+        CREATE TABLE selection_revisions_next (
+          id TEXT PRIMARY KEY,
+          selection_id TEXT NOT NULL,
+          picks_json TEXT NOT NULL,
+          notes TEXT,
+          created_at TEXT NOT NULL
+        );
+        INSERT INTO selection_revisions_next (id, selection_id, picks_json, notes, created_at)
+          SELECT id, selection_id, ${picksExpr}, notes, created_at FROM selection_revisions;
+        DROP TABLE selection_revisions;
+        ALTER TABLE selection_revisions_next RENAME TO selection_revisions;
+      `);
+    }
+  })();
+}
+
+/**
+ * Applied in order; `PRAGMA user_version` records the last one. Never edit a released migration,
+ * add a new one instead.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "baseline",
+    // Idempotent on purpose: it also brings any database from before versioning up to this shape.
+    up: (d) => {
+      d.exec(`
+        CREATE TABLE IF NOT EXISTS date_nights (
+            id TEXT PRIMARY KEY,
+            title TEXT NOT NULL,
+            theme_id TEXT NOT NULL,
+            date_iso TEXT,
+            menu_json TEXT NOT NULL,
+            blurb TEXT,
+            lock_in_at TEXT,
+            start_time TEXT,
+            duration_minutes INTEGER,
+            location TEXT,
+            calendar_sequence INTEGER NOT NULL DEFAULT 0,
+            reminder_rules_json TEXT,
+            created_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS invites (
+          id TEXT PRIMARY KEY,
+          date_night_id TEXT NOT NULL,
+          token TEXT NOT NULL UNIQUE,
+          recipient_email TEXT,
+          used_at TEXT,
+          expires_at TEXT,
+          revoked_at TEXT,
+          nudge_eligible INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS selections (
+          id TEXT PRIMARY KEY,
+          invite_id TEXT NOT NULL UNIQUE,
+          picks_json TEXT NOT NULL,
+          notes TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS selection_revisions (
+          id TEXT PRIMARY KEY,
+          selection_id TEXT NOT NULL,
+          picks_json TEXT NOT NULL,
+          notes TEXT,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS themes (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          blurb TEXT NOT NULL,
+          options_json TEXT NOT NULL,
+          archived_at TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS email_outbox (
+          id TEXT PRIMARY KEY,
+          kind TEXT NOT NULL,
+          invite_id TEXT,
+          to_address TEXT NOT NULL,
+          subject TEXT NOT NULL,
+          html TEXT NOT NULL,
+          text TEXT,
+          attachments_json TEXT,
+          status TEXT NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          last_error TEXT,
+          next_attempt_at TEXT,
+          sent_at TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS email_outbox_due ON email_outbox (status, next_attempt_at);
+        CREATE INDEX IF NOT EXISTS email_outbox_invite ON email_outbox (invite_id);
+
+        CREATE TABLE IF NOT EXISTS sent_reminders (
+          id TEXT PRIMARY KEY,
+          dedupe_key TEXT NOT NULL UNIQUE,
+          kind TEXT NOT NULL,
+          date_night_id TEXT NOT NULL,
+          invite_id TEXT,
+          recipient TEXT NOT NULL,
+          sent_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS sent_reminders_date_night ON sent_reminders (date_night_id);
+
+        CREATE TABLE IF NOT EXISTS api_tokens (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          token_hash TEXT NOT NULL UNIQUE,
+          token_prefix TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          last_used_at TEXT,
+          revoked_at TEXT
+        );
+      `);
+
+      addColumnIfMissing(d, "invites", "expires_at", "TEXT");
+      addColumnIfMissing(d, "invites", "revoked_at", "TEXT");
+      addColumnIfMissing(d, "date_nights", "lock_in_at", "TEXT");
+      addColumnIfMissing(d, "selections", "updated_at", "TEXT");
+      addColumnIfMissing(d, "date_nights", "start_time", "TEXT");
+      addColumnIfMissing(d, "date_nights", "duration_minutes", "INTEGER");
+      addColumnIfMissing(d, "date_nights", "location", "TEXT");
+      addColumnIfMissing(d, "date_nights", "calendar_sequence", "INTEGER NOT NULL DEFAULT 0");
+      addColumnIfMissing(d, "email_outbox", "attachments_json", "TEXT");
+      addColumnIfMissing(d, "date_nights", "reminder_rules_json", "TEXT");
+      addColumnIfMissing(d, "invites", "nudge_eligible", "INTEGER NOT NULL DEFAULT 0");
+      migrateFixedPicksColumns(d);
+      d.exec(`CREATE INDEX IF NOT EXISTS selection_revisions_selection ON selection_revisions (selection_id, created_at)`);
+    },
+  },
+  {
+    version: 2,
+    name: "foreign keys with cascading deletes",
+    rebuildsTables: true,
+    // Rows already orphaned by earlier manual deletes are dropped rather than copied.
+    up: (d) => {
+      d.exec(`
+        CREATE TABLE invites_next (
+          id TEXT PRIMARY KEY,
+          date_night_id TEXT NOT NULL REFERENCES date_nights (id) ON DELETE CASCADE,
+          token TEXT NOT NULL UNIQUE,
+          recipient_email TEXT,
+          used_at TEXT,
+          expires_at TEXT,
+          revoked_at TEXT,
+          nudge_eligible INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL
+        );
+        INSERT INTO invites_next (id, date_night_id, token, recipient_email, used_at, expires_at, revoked_at, nudge_eligible, created_at)
+          SELECT id, date_night_id, token, recipient_email, used_at, expires_at, revoked_at, nudge_eligible, created_at FROM invites
+          WHERE date_night_id IN (SELECT id FROM date_nights);
+        DROP TABLE invites;
+        ALTER TABLE invites_next RENAME TO invites;
+        CREATE INDEX invites_date_night ON invites (date_night_id);
+
+        CREATE TABLE selections_next (
+          id TEXT PRIMARY KEY,
+          invite_id TEXT NOT NULL UNIQUE REFERENCES invites (id) ON DELETE CASCADE,
+          picks_json TEXT NOT NULL,
+          notes TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT
+        );
+        INSERT INTO selections_next (id, invite_id, picks_json, notes, created_at, updated_at)
+          SELECT id, invite_id, picks_json, notes, created_at, updated_at FROM selections
+          WHERE invite_id IN (SELECT id FROM invites);
+        DROP TABLE selections;
+        ALTER TABLE selections_next RENAME TO selections;
+
+        CREATE TABLE selection_revisions_next (
+          id TEXT PRIMARY KEY,
+          selection_id TEXT NOT NULL REFERENCES selections (id) ON DELETE CASCADE,
+          picks_json TEXT NOT NULL,
+          notes TEXT,
+          created_at TEXT NOT NULL
+        );
+        INSERT INTO selection_revisions_next (id, selection_id, picks_json, notes, created_at)
+          SELECT id, selection_id, picks_json, notes, created_at FROM selection_revisions
+          WHERE selection_id IN (SELECT id FROM selections);
+        DROP TABLE selection_revisions;
+        ALTER TABLE selection_revisions_next RENAME TO selection_revisions;
+        CREATE INDEX selection_revisions_selection ON selection_revisions (selection_id, created_at);
+
+        CREATE TABLE sent_reminders_next (
+          id TEXT PRIMARY KEY,
+          dedupe_key TEXT NOT NULL UNIQUE,
+          kind TEXT NOT NULL,
+          date_night_id TEXT NOT NULL REFERENCES date_nights (id) ON DELETE CASCADE,
+          invite_id TEXT REFERENCES invites (id) ON DELETE CASCADE,
+          recipient TEXT NOT NULL,
+          sent_at TEXT NOT NULL
+        );
+        INSERT INTO sent_reminders_next (id, dedupe_key, kind, date_night_id, invite_id, recipient, sent_at)
+          SELECT id, dedupe_key, kind, date_night_id, invite_id, recipient, sent_at FROM sent_reminders
+          WHERE date_night_id IN (SELECT id FROM date_nights)
+            AND (invite_id IS NULL OR invite_id IN (SELECT id FROM invites));
+        DROP TABLE sent_reminders;
+        ALTER TABLE sent_reminders_next RENAME TO sent_reminders;
+        CREATE INDEX sent_reminders_date_night ON sent_reminders (date_night_id);
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: "planner accounts",
+    up: (d) => {
+      d.exec(`
+        CREATE TABLE users (
+          id TEXT PRIMARY KEY,
+          email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          name TEXT NOT NULL,
+          password_hash TEXT NOT NULL,
+          notify_email TEXT,
+          can_manage INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        ALTER TABLE date_nights ADD COLUMN owner_id TEXT REFERENCES users (id);
+        CREATE INDEX date_nights_owner ON date_nights (owner_id);
+
+        CREATE TABLE date_night_shares (
+          date_night_id TEXT NOT NULL REFERENCES date_nights (id) ON DELETE CASCADE,
+          user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+          created_at TEXT NOT NULL,
+          PRIMARY KEY (date_night_id, user_id)
+        );
+        CREATE INDEX date_night_shares_user ON date_night_shares (user_id);
+
+        ALTER TABLE api_tokens ADD COLUMN user_id TEXT REFERENCES users (id) ON DELETE CASCADE;
+
+        ALTER TABLE themes ADD COLUMN owner_id TEXT REFERENCES users (id);
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: "date night series",
+    up: (d) => {
+      d.exec(`
+        CREATE TABLE date_night_series (
+          id TEXT PRIMARY KEY,
+          owner_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+          title TEXT NOT NULL,
+          theme_id TEXT NOT NULL,
+          menu_json TEXT NOT NULL,
+          blurb TEXT,
+          start_time TEXT,
+          duration_minutes INTEGER,
+          location TEXT,
+          recurrence_json TEXT NOT NULL,
+          starts_on TEXT NOT NULL,
+          ends_on TEXT,
+          partner_email TEXT,
+          invite_days_ahead INTEGER,
+          materialized_through TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        CREATE INDEX date_night_series_owner ON date_night_series (owner_id);
+
+        ALTER TABLE date_nights ADD COLUMN series_id TEXT REFERENCES date_night_series (id) ON DELETE SET NULL;
+        CREATE INDEX date_nights_series ON date_nights (series_id, date_iso);
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: "email templates",
+    up: (d) => {
+      d.exec(`
+        CREATE TABLE email_templates (
+          id TEXT PRIMARY KEY,
+          kind TEXT NOT NULL,
+          theme_id TEXT REFERENCES themes (id) ON DELETE CASCADE,
+          subject TEXT NOT NULL,
+          html TEXT NOT NULL,
+          text TEXT,
+          updated_at TEXT NOT NULL
+        );
+        CREATE UNIQUE INDEX email_templates_scope ON email_templates (kind, COALESCE(theme_id, ''));
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: "invite language and date night time zone",
+    up: (d) => {
+      d.exec(`
+        ALTER TABLE invites ADD COLUMN locale TEXT;
+        ALTER TABLE date_nights ADD COLUMN time_zone TEXT;
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: "option budget",
+    up: (d) => {
+      d.exec(`ALTER TABLE date_nights ADD COLUMN max_option_cost REAL;`);
+    },
+  },
+  {
+    version: 8,
+    name: "prep checklist",
+    up: (d) => {
+      d.exec(`
+        CREATE TABLE prep_items (
+          id TEXT PRIMARY KEY,
+          date_night_id TEXT NOT NULL REFERENCES date_nights (id) ON DELETE CASCADE,
+          kind TEXT NOT NULL,
+          text TEXT NOT NULL,
+          before_minutes INTEGER,
+          for_options_json TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          done_at TEXT,
+          created_at TEXT NOT NULL
+        );
+        CREATE INDEX prep_items_date_night ON prep_items (date_night_id);
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: "partner suggestions",
+    up: (d) => {
+      d.exec(`
+        CREATE TABLE suggestions (
+          id TEXT PRIMARY KEY,
+          invite_id TEXT NOT NULL REFERENCES invites (id) ON DELETE CASCADE,
+          category_key TEXT NOT NULL,
+          text TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          reply TEXT,
+          decided_at TEXT,
+          added_to_theme_at TEXT,
+          created_at TEXT NOT NULL
+        );
+        CREATE INDEX suggestions_invite ON suggestions (invite_id);
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: "webhooks",
+    up: (d) => {
+      d.exec(`
+        ALTER TABLE invites ADD COLUMN opened_at TEXT;
+
+        CREATE TABLE webhooks (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+          url TEXT NOT NULL,
+          secret TEXT NOT NULL,
+          events_json TEXT NOT NULL,
+          active INTEGER NOT NULL DEFAULT 1,
+          created_at TEXT NOT NULL
+        );
+        CREATE INDEX webhooks_user ON webhooks (user_id);
+
+        CREATE TABLE webhook_deliveries (
+          id TEXT PRIMARY KEY,
+          webhook_id TEXT NOT NULL REFERENCES webhooks (id) ON DELETE CASCADE,
+          event TEXT NOT NULL,
+          payload_json TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          response_status INTEGER,
+          response_body TEXT,
+          last_error TEXT,
+          next_attempt_at TEXT,
+          delivered_at TEXT,
+          redelivery_of TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        CREATE INDEX webhook_deliveries_webhook ON webhook_deliveries (webhook_id, created_at);
+        CREATE INDEX webhook_deliveries_due ON webhook_deliveries (status, next_attempt_at);
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: "group voting",
+    up: (d) => {
+      d.exec(`
+        ALTER TABLE date_nights ADD COLUMN group_json TEXT;
+        ALTER TABLE date_nights ADD COLUMN tie_breaks_json TEXT;
+        ALTER TABLE date_nights ADD COLUMN final_plan_sent_at TEXT;
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: "memories",
+    up: (d) => {
+      d.exec(`
+        CREATE TABLE memories (
+          id TEXT PRIMARY KEY,
+          date_night_id TEXT NOT NULL REFERENCES date_nights (id) ON DELETE CASCADE,
+          user_id TEXT REFERENCES users (id) ON DELETE CASCADE,
+          invite_id TEXT REFERENCES invites (id) ON DELETE CASCADE,
+          rating INTEGER,
+          reflection TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        CREATE UNIQUE INDEX memories_planner ON memories (date_night_id, user_id);
+        CREATE UNIQUE INDEX memories_invite ON memories (invite_id);
+
+        CREATE TABLE option_ratings (
+          memory_id TEXT NOT NULL REFERENCES memories (id) ON DELETE CASCADE,
+          category_key TEXT NOT NULL,
+          option TEXT NOT NULL,
+          rating INTEGER NOT NULL,
+          PRIMARY KEY (memory_id, category_key, option)
+        );
+
+        CREATE TABLE memory_photos (
+          id TEXT PRIMARY KEY,
+          memory_id TEXT NOT NULL REFERENCES memories (id) ON DELETE CASCADE,
+          path TEXT NOT NULL,
+          thumb_path TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        );
+        CREATE INDEX memory_photos_memory ON memory_photos (memory_id);
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: "date poll",
+    up: (d) => {
+      d.exec(`
+        ALTER TABLE date_nights ADD COLUMN date_slots_json TEXT;
+
+        CREATE TABLE date_poll_answers (
+          invite_id TEXT NOT NULL REFERENCES invites (id) ON DELETE CASCADE,
+          slot TEXT NOT NULL,
+          answer TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          PRIMARY KEY (invite_id, slot)
+        );
+      `);
+    },
+  },
+  {
+    version: 14,
+    name: "surprise mode",
+    up: (d) => {
+      d.exec(`
+        ALTER TABLE date_nights ADD COLUMN reveal_at TEXT;
+        ALTER TABLE date_nights ADD COLUMN reveal_sent_at TEXT;
+      `);
+    },
+  },
+];
@@ -0,0 +1,171 @@
+import { nanoid } from "nanoid";
+
+import { getDb } from "./db";
+import { sendEmail } from "./email";
+import type { EmailAttachment } from "./email_transport";
+
+export type OutboxKind =
+  | "invite" | "planner" | "planner_update" | "partner_confirmation" | "reminder" | "planner_suggestion" | "suggestion_reply"
+  | "final_plan" | "date_confirmed" | "reveal";
+export type OutboxStatus = "pending" | "sending" | "sent" | "failed";
+
+export type OutboxMessage = {
+  id: string;
+  kind: OutboxKind;
+  inviteId: string | null;
+  to: string;
+  subject: string;
+  status: OutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  sentAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** Delay before attempt N+1, indexed by attempts made so far. Gives up after the last entry. */
+const RETRY_DELAYS_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000, 12 * 60 * 60_000];
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+
+function rowToMessage(row: any): OutboxMessage {
+  return {
+    id: row.id,
+    kind: row.kind,
+    inviteId: row.invite_id,
+    to: row.to_address,
+    subject: row.subject,
+    status: row.status,
+    attempts: row.attempts,
+    lastError: row.last_error,
+    nextAttemptAt: row.next_attempt_at,
+    sentAt: row.sent_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Records the message and makes a first delivery attempt straight away.
+ * Failures are kept in the outbox for the worker to retry, never thrown.
+ */
+export async function queueEmail(msg: {
+  kind: OutboxKind;
+  inviteId?: string | null;
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  attachments?: EmailAttachment[];
+}): Promise<OutboxMessage> {
+  const id = nanoid(12);
+  const now = new Date().toISOString();
+  getDb().prepare(`
+    INSERT INTO email_outbox
+      (id, kind, invite_id, to_address, subject, html, text, attachments_json, status, attempts, last_error, next_attempt_at, sent_at, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending', 0, NULL, ?, NULL, ?, ?)
+  `).run(
+    id, msg.kind, msg.inviteId ?? null, msg.to, msg.subject, msg.html, msg.text ?? null,
+    msg.attachments?.length ? JSON.stringify(msg.attachments) : null,
+    now, now, now
+  );
+
+  return deliver(id);
+}
+
+/** Attempts one delivery; a row already claimed by another attempt is left alone. */
+export async function deliver(id: string): Promise<OutboxMessage> {
+  const db = getDb();
+  const claimed = db.prepare(`
+    UPDATE email_outbox SET status = 'sending', updated_at = ? WHERE id = ? AND status IN ('pending', 'failed')
+  `).run(new Date().toISOString(), id);
+
+  const row = db.prepare(`SELECT * FROM email_outbox WHERE id = ?`).get(id) as any;
+  if (!row) throw new Error(`Outbox message ${id} not found`);
+  if (claimed.changes === 0) return rowToMessage(row);
+
+  const attempts = row.attempts + 1;
+  try {
+    await sendEmail({
+      to: row.to_address,
+      subject: row.subject,
+      html: row.html,
+      text: row.text ?? undefined,
+      attachments: row.attachments_json ? JSON.parse(row.attachments_json) : undefined,
+    });
+    const now = new Date().toISOString();
+    db.prepare(`
+      UPDATE email_outbox
+      SET status = 'sent', attempts = ?, last_error = NULL, next_attempt_at = NULL, sent_at = ?, updated_at = ?
+      WHERE id = ?
+    `).run(attempts, now, now, id);
+  } catch (e: any) {
+    const now = Date.now();
+    const delay = RETRY_DELAYS_MS[attempts - 1];
+    const giveUp = attempts >= MAX_ATTEMPTS || delay === undefined;
+    db.prepare(`
+      UPDATE email_outbox
+      SET status = ?, attempts = ?, last_error = ?, next_attempt_at = ?, updated_at = ?
+      WHERE id = ?
+    `).run(
+      giveUp ? "failed" : "pending",
+      attempts,
+      e?.message || String(e),
+      giveUp ? null : new Date(now + delay).toISOString(),
+      new Date(now).toISOString(),
+      id
+    );
+    console.error(`[outbox] ${row.kind} email to ${row.to_address} failed (attempt ${attempts})`, e);
+  }
+
+  return rowToMessage(db.prepare(`SELECT * FROM email_outbox WHERE id = ?`).get(id));
+}
+
+/** Makes a failed or waiting message due immediately and tries it once more. */
+export async function retryNow(id: string): Promise<OutboxMessage | undefined> {
+  const row = getDb().prepare(`SELECT * FROM email_outbox WHERE id = ?`).get(id) as any;
+  if (!row) return undefined;
+  if (row.status === "sent") return rowToMessage(row);
+  return deliver(id);
+}
+
+export function listOutboxForInvite(inviteId: string): OutboxMessage[] {
+  const rows = getDb().prepare(`SELECT * FROM email_outbox WHERE invite_id = ? ORDER BY created_at DESC`).all(inviteId);
+  return rows.map(rowToMessage);
+}
+
+export function getOutboxMessage(id: string): OutboxMessage | undefined {
+  const row = getDb().prepare(`SELECT * FROM email_outbox WHERE id = ?`).get(id);
+  return row ? rowToMessage(row) : undefined;
+}
+
+export async function processDueOutbox(now = new Date()) {
+  const due = getDb().prepare(`
+    SELECT id FROM email_outbox WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY next_attempt_at
+  `).all(now.toISOString()) as Array<{ id: string }>;
+  for (const { id } of due) await deliver(id);
+}
+
+let worker: NodeJS.Timeout | null = null;
+
+export function startOutboxWorker(intervalMs = 30_000) {
+  if (worker) return;
+
+  // Anything left mid-send by a previous process never finished; let it go round again.
+  getDb().prepare(`UPDATE email_outbox SET status = 'pending', next_attempt_at = ? WHERE status = 'sending'`)
+    .run(new Date().toISOString());
+
+  let running = false;
+  worker = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await processDueOutbox();
+    } catch (e) {
+      console.error("[outbox] worker tick failed", e);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  worker.unref();
+}
@@ -0,0 +1,189 @@
+import { nanoid } from "nanoid";
+
+import { getDb } from "./db";
+import { formatInstant, serverTimeZone, zonedToUtc } from "./format";
+import { parseMenu, parsePicks, type Menu, type Picks } from "./menu";
+
+/**
+ * Prep tasks and ingredients that planners attach to menu options. Once picks come in, the chosen
+ * options' tasks become the date night's checklist and their ingredients one merged shopping list.
+ */
+export type PrepTask = {
+  text: string;
+  /** How long before the date night starts it should be done; none means "any time". */
+  beforeMinutes?: number;
+};
+
+export type PrepItem = {
+  id: string;
+  kind: "task" | "ingredient";
+  text: string;
+  beforeMinutes: number | null;
+  /** The chosen options that asked for it. */
+  forOptions: string[];
+  doneAt: string | null;
+};
+
+/** Tasks hang off the start time; date nights without one are taken to start in the evening. */
+const DEFAULT_START_TIME = "18:00";
+
+const UNIT_MINUTES: Record<string, number> = { m: 1, h: 60, d: 24 * 60 };
+
+/** "30m", "2h", "1d" (a trailing "before" is fine) → minutes, or null when it isn't one of those. */
+function parseOffset(raw: string): number | null {
+  const m = raw.trim().match(/^(\d+)\s*(m|mins?|minutes?|h|hrs?|hours?|d|days?)(\s+before)?$/i);
+  return m ? Number(m[1]) * UNIT_MINUTES[m[2][0].toLowerCase()] : null;
+}
+
+export function formatOffset(minutes: number) {
+  if (minutes % UNIT_MINUTES.d === 0) return `${minutes / UNIT_MINUTES.d}d`;
+  if (minutes % UNIT_MINUTES.h === 0) return `${minutes / UNIT_MINUTES.h}h`;
+  return `${minutes}m`;
+}
+
+/** One editor line, "Chill the wine | 2h"; undefined for a blank line, null when the offset is unreadable. */
+function parseTaskLine(line: string): PrepTask | null | undefined {
+  const [text, offset] = line.split("|").map(s => s.trim());
+  if (!text) return undefined;
+  if (offset === undefined || offset === "") return { text };
+  const beforeMinutes = parseOffset(offset);
+  return beforeMinutes === null ? null : { text, beforeMinutes };
+}
+
+function taskLines(raw: unknown): unknown[] {
+  return typeof raw === "string" ? raw.split(/\r?\n/) : Array.isArray(raw) ? raw : [];
+}
+
+/** Tasks from the editor's lines or stored/API objects; anything malformed is dropped. */
+export function parseTasks(raw: unknown): PrepTask[] {
+  const out: PrepTask[] = [];
+  for (const t of taskLines(raw)) {
+    if (typeof t === "string") {
+      const task = parseTaskLine(t);
+      if (task) out.push(task);
+    } else if (t && typeof t === "object" && typeof (t as any).text === "string" && (t as any).text.trim()) {
+      const before = Number((t as any).beforeMinutes);
+      out.push({ text: (t as any).text.trim(), ...(Number.isInteger(before) && before > 0 ? { beforeMinutes: before } : {}) });
+    }
+  }
+  return out;
+}
+
+/** The first editor line whose offset can't be read, so the form can say which. */
+export function badTaskLine(raw: unknown): string | undefined {
+  return taskLines(raw).find((t): t is string => typeof t === "string" && parseTaskLine(t) === null);
+}
+
+export function formatTaskLine(t: PrepTask) {
+  return t.beforeMinutes ? `${t.text} | ${formatOffset(t.beforeMinutes)}` : t.text;
+}
+
+export function parseIngredients(raw: unknown): string[] {
+  const items = typeof raw === "string" ? raw.split(/\r?\n/) : Array.isArray(raw) ? raw : [];
+  return items.filter((s): s is string => typeof s === "string").map(s => s.trim()).filter(Boolean);
+}
+
+/**
+ * Tasks and ingredients for everything chosen across a date night's selections. The same task or
+ * ingredient (ignoring case) asked for by several options is listed once, naming each option.
+ */
+export function buildChecklist(menu: Menu, selections: Picks[]): Array<Omit<PrepItem, "id" | "doneAt">> {
+  const items = new Map<string, Omit<PrepItem, "id" | "doneAt">>();
+  const add = (kind: PrepItem["kind"], text: string, beforeMinutes: number | null, option: string) => {
+    const id = `${kind}\u0000${text.toLowerCase()}\u0000${beforeMinutes ?? ""}`;
+    const item = items.get(id) ?? { kind, text, beforeMinutes, forOptions: [] };
+    if (!item.forOptions.includes(option)) item.forOptions.push(option);
+    items.set(id, item);
+  };
+
+  for (const picks of selections) {
+    for (const c of menu.categories) {
+      // Only a ranking's first choice is going to happen.
+      const chosen = c.mode === "rank" ? (picks[c.key] ?? []).slice(0, 1) : picks[c.key] ?? [];
+      for (const option of chosen) {
+        const d = c.details?.[option];
+        for (const t of d?.tasks ?? []) add("task", t.text, t.beforeMinutes ?? null, option);
+        for (const i of d?.ingredients ?? []) add("ingredient", i, null, option);
+      }
+    }
+  }
+  return [...items.values()];
+}
+
+function rowToItem(r: any): PrepItem {
+  return {
+    id: r.id,
+    kind: r.kind,
+    text: r.text,
+    beforeMinutes: r.before_minutes,
+    forOptions: JSON.parse(r.for_options_json),
+    doneAt: r.done_at,
+  };
+}
+
+/**
+ * Rebuilds a date night's checklist from its current selections. Items that are still on it keep
+ * their ticks, so a partner changing their picks doesn't undo what's already been bought.
+ */
+export function refreshChecklist(dn: any) {
+  const db = getDb();
+  const selections = (db.prepare(`
+    SELECT s.picks_json FROM selections s JOIN invites i ON i.id = s.invite_id
+    WHERE i.date_night_id = ? ORDER BY s.created_at
+  `).all(dn.id) as any[]).map(r => parsePicks(r.picks_json));
+  const items = buildChecklist(parseMenu(dn.menu_json), selections);
+
+  db.transaction(() => {
+    const done = new Map((db.prepare(`SELECT kind, text, done_at FROM prep_items WHERE date_night_id = ? AND done_at IS NOT NULL`)
+      .all(dn.id) as any[]).map(r => [`${r.kind}\u0000${r.text.toLowerCase()}`, r.done_at]));
+    db.prepare(`DELETE FROM prep_items WHERE date_night_id = ?`).run(dn.id);
+    const insert = db.prepare(`
+      INSERT INTO prep_items (id, date_night_id, kind, text, before_minutes, for_options_json, position, done_at, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const now = new Date().toISOString();
+    items.forEach((it, n) => insert.run(
+      nanoid(12), dn.id, it.kind, it.text, it.beforeMinutes, JSON.stringify(it.forOptions), n,
+      done.get(`${it.kind}\u0000${it.text.toLowerCase()}`) ?? null, now
+    ));
+  })();
+}
+
+export function listPrepItems(dateNightId: string): PrepItem[] {
+  return (getDb().prepare(`SELECT * FROM prep_items WHERE date_night_id = ? ORDER BY position`).all(dateNightId) as any[]).map(rowToItem);
+}
+
+export function setPrepItemDone(dateNightId: string, itemId: string, done: boolean) {
+  getDb().prepare(`UPDATE prep_items SET done_at = ? WHERE id = ? AND date_night_id = ?`)
+    .run(done ? new Date().toISOString() : null, itemId, dateNightId);
+}
+
+/** When the date night starts, in its time zone (evening when no start time is set). Null without a date. */
+export function dateNightStartsAt(dn: any): Date | null {
+  if (!dn.date_iso) return null;
+  const [y, m, d] = dn.date_iso.split("-").map(Number);
+  const [hh, mm] = (dn.start_time || DEFAULT_START_TIME).split(":").map(Number);
+  return zonedToUtc(y, m, d, hh, mm, dn.time_zone || serverTimeZone());
+}
+
+/** When a task is due: counted back from the date night's start. Null without a date. */
+export function taskDueAt(dn: any, beforeMinutes: number | null): Date | null {
+  const start = dateNightStartsAt(dn);
+  if (!start || !beforeMinutes) return null;
+  return new Date(start.getTime() - beforeMinutes * 60_000);
+}
+
+/** Tasks soonest first (the "any time" ones last), then the shopping list, ready for pages and emails. */
+export function checklistView(dn: any, items: PrepItem[], now = new Date()) {
+  const tasks = items
+    .filter(i => i.kind === "task")
+    .map(i => ({ ...i, dueAt: taskDueAt(dn, i.beforeMinutes) }))
+    .sort((a, b) => (a.dueAt?.getTime() ?? Infinity) - (b.dueAt?.getTime() ?? Infinity))
+    .map(({ dueAt, ...i }) => ({
+      ...i,
+      dueText: dueAt ? formatInstant(dueAt.toISOString(), null, dn.time_zone) : "",
+      overdue: Boolean(dueAt && !i.doneAt && dueAt < now),
+    }));
+  const shopping = items.filter(i => i.kind === "ingredient");
+  return { tasks, shopping };
+}
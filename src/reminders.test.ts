@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { beforeEach, test } from "node:test";
+
+import { getDb } from "./db";
+import { runReminders } from "./reminders";
+import { outbox, testAnswer, testDateNight, testInvite, testPlanner } from "./test_helpers";
+
+const ctx = { baseUrl: () => "http://cottage.test", plannerEmails: () => ["planner@example.com"] };
+const sent = () => (getDb().prepare(`SELECT dedupe_key FROM sent_reminders ORDER BY dedupe_key`).all() as any[]).map(r => r.dedupe_key);
+
+beforeEach(() => {
+  getDb().exec(`DELETE FROM sent_reminders; DELETE FROM email_outbox; DELETE FROM date_nights`);
+});
+
+test("nudges an unused invite once its wait is over, and only once", async () => {
+  const owner = await testPlanner();
+  const dn = testDateNight(owner.id, { date_iso: "2026-11-20" });
+  const inv = testInvite(dn.id, { created_at: "2026-10-17T12:00:00.000Z" });
+
+  await runReminders(ctx, new Date("2026-10-19T11:00:00.000Z"));
+  assert.deepEqual(sent(), []);
+
+  await runReminders(ctx, new Date("2026-10-19T12:00:00.000Z"));
+  await runReminders(ctx, new Date("2026-10-19T13:00:00.000Z"));
+  assert.deepEqual(sent(), [`nudge:${inv.id}`]);
+  assert.equal(outbox().length, 1);
+});
+
+test("leaves invites made before nudges existed alone", async () => {
+  const owner = await testPlanner();
+  const dn = testDateNight(owner.id, { date_iso: "2026-11-20" });
+  testInvite(dn.id, { created_at: "2026-01-01T12:00:00.000Z", nudge_eligible: 0 });
+
+  await runReminders(ctx, new Date("2026-10-19T12:00:00.000Z"));
+  assert.deepEqual(sent(), []);
+});
+
+test("doesn't nudge once the date night's day has passed where it happens", async () => {
+  const owner = await testPlanner();
+  // 20:00 UTC on the 19th is already the 20th in Tokyo.
+  const dn = testDateNight(owner.id, { date_iso: "2026-10-19", time_zone: "Asia/Tokyo" });
+  testInvite(dn.id, { created_at: "2026-10-10T12:00:00.000Z" });
+
+  await runReminders(ctx, new Date("2026-10-19T20:00:00.000Z"));
+  assert.deepEqual(sent(), []);
+});
+
+test("day-before reminders follow the date night's time zone and wait for the morning there", async () => {
+  const owner = await testPlanner();
+  const la = testDateNight(owner.id, { date_iso: "2026-10-20", time_zone: "America/Los_Angeles" });
+  const tokyo = testDateNight(owner.id, { date_iso: "2026-10-21", time_zone: "Asia/Tokyo" });
+
+  // 13:00 on the 19th in Los Angeles, 05:00 on the 20th in Tokyo.
+  await runReminders(ctx, new Date("2026-10-19T20:00:00.000Z"));
+  assert.deepEqual(sent(), [`day_before:${la.id}:2026-10-20:planner@example.com`]);
+
+  // 09:00 on the 20th in Tokyo.
+  await runReminders(ctx, new Date("2026-10-20T00:00:00.000Z"));
+  assert.ok(sent().includes(`day_before:${tokyo.id}:2026-10-21:planner@example.com`));
+});
+
+test("the day-of recap only goes out once someone has picked", async () => {
+  const owner = await testPlanner();
+  const dn = testDateNight(owner.id, { date_iso: "2026-10-19" });
+  const inv = testInvite(dn.id, { recipient_email: "sam@example.com", nudge_eligible: 0 });
+
+  await runReminders(ctx, new Date("2026-10-19T10:00:00.000Z"));
+  assert.deepEqual(sent(), []);
+
+  testAnswer(inv.id, { dinner: ["Picnic"], mood: ["Cozy"] });
+  await runReminders(ctx, new Date("2026-10-19T10:05:00.000Z"));
+  assert.deepEqual(sent(), [
+    `day_of:${dn.id}:2026-10-19:planner@example.com:${inv.id}`,
+    `day_of:${dn.id}:2026-10-19:sam@example.com`,
+  ]);
+});
@@ -0,0 +1,195 @@
+import { nanoid } from "nanoid";
+
+import { getDb } from "./db";
+import { renderNudgeEmail, renderDayBeforeEmail, renderDayOfEmail } from "./email";
+import { formatWhen, serverTimeZone, zonedParts } from "./format";
+import { parseMenu, parsePicks, describePicks } from "./menu";
+import { queueEmail } from "./outbox";
+import { partnerPickLines } from "./surprise";
+import { getTheme } from "./themes";
+
+export type ReminderRules = {
+  /** Hours after an invite is created before nudging an unused one; null turns nudges off. */
+  nudgeAfterHours: number | null;
+  dayBefore: boolean;
+  dayOf: boolean;
+};
+
+export type ReminderKind = "nudge" | "day_before" | "day_of";
+
+export type ReminderContext = {
+  baseUrl: () => string;
+  /** Planner addresses to remind for a date night (owner and co-planners). */
+  plannerEmails: (dn: any) => string[];
+};
+
+/** Day-before and day-of reminders wait until this hour where the date night is, so nobody gets a midnight email. */
+const SEND_FROM_HOUR = Number(process.env.REMINDER_SEND_HOUR || 9);
+
+export function defaultReminderRules(): ReminderRules {
+  const hours = Number(process.env.REMINDER_NUDGE_AFTER_HOURS || 48);
+  return { nudgeAfterHours: hours > 0 ? hours : null, dayBefore: true, dayOf: true };
+}
+
+export function parseReminderRules(json: string | null | undefined): ReminderRules {
+  const defaults = defaultReminderRules();
+  if (!json) return defaults;
+  try {
+    const r = JSON.parse(json);
+    const hours = r?.nudgeAfterHours === null ? null : Number(r?.nudgeAfterHours);
+    return {
+      nudgeAfterHours: hours === null || !(hours > 0) ? null : hours,
+      dayBefore: typeof r?.dayBefore === "boolean" ? r.dayBefore : defaults.dayBefore,
+      dayOf: typeof r?.dayOf === "boolean" ? r.dayOf : defaults.dayOf,
+    };
+  } catch {
+    return defaults;
+  }
+}
+
+/** Today's and tomorrow's dates and the hour where the date night is (the server's zone without one). */
+function localNow(dn: { time_zone?: string | null }, now: Date) {
+  const p = zonedParts(now, dn.time_zone || serverTimeZone());
+  const iso = (d: number) => new Date(Date.UTC(p.year, p.month - 1, d)).toISOString().slice(0, 10);
+  return { today: iso(p.day), tomorrow: iso(p.day + 1), hour: p.hour };
+}
+
+/** UTC dates `days` either side of `now`, wide enough to hold "today" in every time zone. */
+function utcDateAround(now: Date, days: number) {
+  return new Date(now.getTime() + days * 86_400_000).toISOString().slice(0, 10);
+}
+
+/**
+ * Claims a reminder before it is queued. The unique `dedupe_key` means a reminder is only ever
+ * sent once, even across restarts or overlapping ticks.
+ */
+function claim(key: string, kind: ReminderKind, dateNightId: string, inviteId: string | null, to: string, now: Date) {
+  const result = getDb().prepare(`
+    INSERT OR IGNORE INTO sent_reminders (id, dedupe_key, kind, date_night_id, invite_id, recipient, sent_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(nanoid(12), key, kind, dateNightId, inviteId, to, now.toISOString());
+  return result.changes > 0;
+}
+
+/**
+ * Only invites made since nudges exist are eligible (`nudge_eligible`), so upgrading doesn't mail
+ * every old unused invite at once. Imported ones aren't either: their nudge may have gone out already.
+ */
+async function sendNudges(ctx: ReminderContext, now: Date) {
+  const db = getDb();
+  const invites = db.prepare(`
+    SELECT i.*, dn.title, dn.theme_id, dn.reminder_rules_json, dn.date_iso, dn.time_zone
+    FROM invites i JOIN date_nights dn ON dn.id = i.date_night_id
+    WHERE i.recipient_email IS NOT NULL AND i.used_at IS NULL AND i.revoked_at IS NULL
+      AND i.nudge_eligible = 1 AND (i.expires_at IS NULL OR i.expires_at > ?)
+      AND (dn.date_iso IS NULL OR dn.date_iso >= ?)
+  `).all(now.toISOString(), utcDateAround(now, -1)) as any[];
+
+  for (const inv of invites) {
+    if (inv.date_iso && inv.date_iso < localNow(inv, now).today) continue;
+    const rules = parseReminderRules(inv.reminder_rules_json);
+    if (rules.nudgeAfterHours === null) continue;
+    if (Date.parse(inv.created_at) + rules.nudgeAfterHours * 3_600_000 > now.getTime()) continue;
+    if (!claim(`nudge:${inv.id}`, "nudge", inv.date_night_id, inv.id, inv.recipient_email, now)) continue;
+
+    const email = renderNudgeEmail({
+      title: inv.title,
+      themeName: getTheme(inv.theme_id)?.name ?? inv.theme_id,
+      inviteUrl: `${ctx.baseUrl()}/invite/${inv.token}`,
+      locale: inv.locale,
+    });
+    await queueEmail({ kind: "reminder", inviteId: inv.id, to: inv.recipient_email, ...email });
+  }
+}
+
+async function sendDateReminders(ctx: ReminderContext, now: Date) {
+  const db = getDb();
+  const dateNights = db.prepare(`SELECT * FROM date_nights WHERE date_iso BETWEEN ? AND ?`)
+    .all(utcDateAround(now, -1), utcDateAround(now, 2)) as any[];
+  const invitesStmt = db.prepare(`
+    SELECT i.*, s.picks_json FROM invites i LEFT JOIN selections s ON s.invite_id = i.id
+    WHERE i.date_night_id = ? AND i.revoked_at IS NULL AND i.recipient_email IS NOT NULL
+  `);
+
+  for (const dn of dateNights) {
+    const { today, tomorrow, hour } = localNow(dn, now);
+    if (hour < SEND_FROM_HOUR || (dn.date_iso !== today && dn.date_iso !== tomorrow)) continue;
+    const rules = parseReminderRules(dn.reminder_rules_json);
+    const kind: ReminderKind = dn.date_iso === tomorrow ? "day_before" : "day_of";
+    if (kind === "day_before" ? !rules.dayBefore : !rules.dayOf) continue;
+
+    // Planners get English; each partner gets their invite's language.
+    const whenText = (locale?: string | null) => formatWhen(dn, locale) ?? dn.date_iso;
+    const invites = invitesStmt.all(dn.id) as any[];
+    const key = (to: string) => `${kind}:${dn.id}:${dn.date_iso}:${to.toLowerCase()}`;
+    const planners = ctx.plannerEmails(dn);
+
+    if (kind === "day_before") {
+      const email = (locale?: string | null) =>
+        renderDayBeforeEmail({ title: dn.title, whenText: whenText(locale), location: dn.location, locale });
+      for (const planner of planners) {
+        if (!claim(key(planner), kind, dn.id, null, planner, now)) continue;
+        await queueEmail({ kind: "reminder", to: planner, ...email() });
+      }
+      for (const inv of invites) {
+        if (!claim(key(inv.recipient_email), kind, dn.id, inv.id, inv.recipient_email, now)) continue;
+        await queueEmail({ kind: "reminder", inviteId: inv.id, to: inv.recipient_email, ...email(inv.locale) });
+      }
+      continue;
+    }
+
+    // The day-of recap is only worth sending once there are picks to recap.
+    const menu = parseMenu(dn.menu_json);
+    const answered = invites.filter(inv => inv.picks_json);
+    if (answered.length === 0) continue;
+
+    for (const inv of answered) {
+      const picks = parsePicks(inv.picks_json);
+      const email = (locale?: string | null, lines = describePicks(menu, picks)) =>
+        renderDayOfEmail({ title: dn.title, whenText: whenText(locale), location: dn.location, picks: lines, locale });
+      for (const planner of planners) {
+        if (!claim(`${key(planner)}:${inv.id}`, kind, dn.id, inv.id, planner, now)) continue;
+        await queueEmail({ kind: "reminder", inviteId: inv.id, to: planner, ...email() });
+      }
+      if (claim(key(inv.recipient_email), kind, dn.id, inv.id, inv.recipient_email, now)) {
+        const lines = partnerPickLines(dn, menu, picks, inv.locale, now);
+        await queueEmail({ kind: "reminder", inviteId: inv.id, to: inv.recipient_email, ...email(inv.locale, lines) });
+      }
+    }
+  }
+}
+
+/** One pass over every rule. */
+export async function runReminders(ctx: ReminderContext, now: Date = new Date()) {
+  await sendNudges(ctx, now);
+  await sendDateReminders(ctx, now);
+}
+
+export function listSentReminders(dateNightId: string) {
+  return getDb().prepare(`SELECT * FROM sent_reminders WHERE date_night_id = ? ORDER BY sent_at DESC`)
+    .all(dateNightId) as Array<{ id: string; kind: ReminderKind; invite_id: string | null; recipient: string; sent_at: string }>;
+}
+
+let scheduler: NodeJS.Timeout | null = null;
+
+export function startReminderScheduler(ctx: ReminderContext, opts: { intervalMs?: number; clock?: () => Date } = {}) {
+  if (scheduler) return;
+  const clock = opts.clock ?? (() => new Date());
+
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runReminders(ctx, clock());
+    } catch (e) {
+      console.error("[reminders] tick failed", e);
+    } finally {
+      running = false;
+    }
+  };
+
+  scheduler = setInterval(tick, opts.intervalMs ?? 5 * 60_000);
+  scheduler.unref();
+  void tick();
+}
@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { deleteDateNight } from "./date_nights";
+import { getDb } from "./db";
+import { createSeries, occurrencesBetween, runSeries } from "./series";
+import { TEST_MENU, testPlanner } from "./test_helpers";
+
+const dates = (seriesId: string) =>
+  (getDb().prepare(`SELECT date_iso FROM date_nights WHERE series_id = ? ORDER BY date_iso`).all(seriesId) as any[]).map(r => r.date_iso);
+
+test("monthly rhythms land on the right weekday, including the last one of the month", () => {
+  assert.deepEqual(occurrencesBetween({ kind: "monthly", week: 1, weekday: 5 }, "2030-01-01", "2030-01-01", "2030-03-31"),
+    ["2030-01-04", "2030-02-01", "2030-03-01"]);
+  assert.deepEqual(occurrencesBetween({ kind: "monthly", week: -1, weekday: 0 }, "2030-01-01", "2030-01-01", "2030-02-28"),
+    ["2030-01-27", "2030-02-24"]);
+  assert.deepEqual(occurrencesBetween({ kind: "weekly", everyWeeks: 2 }, "2030-01-03", "2030-01-10", "2030-02-10"),
+    ["2030-01-17", "2030-01-31"]);
+});
+
+test("creates the occurrences inside the lookahead and invites the partner ahead of each", async () => {
+  const owner = await testPlanner();
+  const id = createSeries({
+    title: "Thursday night",
+    themeId: "cottagecore-classic",
+    menu: TEST_MENU,
+    blurb: null,
+    startTime: "19:00",
+    durationMinutes: null,
+    location: null,
+    partnerEmail: "sam@example.com",
+    inviteDaysAhead: 3,
+    recurrence: { kind: "weekly", everyWeeks: 1 },
+    startsOn: "2030-01-03",
+    endsOn: null,
+  }, owner.id);
+
+  await runSeries(new Date("2030-01-01T12:00:00.000Z"), id);
+  await runSeries(new Date("2030-01-01T12:05:00.000Z"), id);
+  assert.deepEqual(dates(id), ["2030-01-03", "2030-01-10", "2030-01-17", "2030-01-24"]);
+
+  const invited = getDb().prepare(`
+    SELECT dn.date_iso, i.recipient_email FROM invites i JOIN date_nights dn ON dn.id = i.date_night_id WHERE dn.series_id = ?
+  `).all(id);
+  assert.deepEqual(invited, [{ date_iso: "2030-01-03", recipient_email: "sam@example.com" }]);
+});
+
+test("a deleted occurrence stays deleted while later ones keep coming", async () => {
+  const owner = await testPlanner();
+  const id = createSeries({
+    title: "Every other Sunday",
+    themeId: "cottagecore-classic",
+    menu: TEST_MENU,
+    blurb: null,
+    startTime: null,
+    durationMinutes: null,
+    location: null,
+    partnerEmail: null,
+    inviteDaysAhead: null,
+    recurrence: { kind: "weekly", everyWeeks: 2 },
+    startsOn: "2030-01-06",
+    endsOn: "2030-03-01",
+  }, owner.id);
+
+  await runSeries(new Date("2030-01-01T12:00:00.000Z"), id);
+  assert.deepEqual(dates(id), ["2030-01-06", "2030-01-20"]);
+
+  const second = getDb().prepare(`SELECT id FROM date_nights WHERE series_id = ? AND date_iso = '2030-01-20'`).get(id) as any;
+  deleteDateNight(second.id);
+  await runSeries(new Date("2030-01-25T12:00:00.000Z"), id);
+  assert.deepEqual(dates(id), ["2030-01-06", "2030-02-03", "2030-02-17"]);
+});
@@ -0,0 +1,368 @@
+import { nanoid } from "nanoid";
+
+import { createDateNight, saveItinerary, scheduleFromBody, type FieldError, type Itinerary } from "./date_nights";
+import { parseDateSlots } from "./date_poll";
+import { getDb } from "./db";
+import { localDateIso } from "./format";
+import { createInvite } from "./invites";
+import { menuFromForm, parseMenu, type Menu } from "./menu";
+import { parseReminderRules } from "./reminders";
+import { getTheme } from "./themes";
+import { parseGroupSettings } from "./voting";
+
+/** Weekly series repeat on the weekday of their first date; monthly ones on the nth (or last) weekday. */
+export type Recurrence =
+  | { kind: "weekly"; everyWeeks: number }
+  | { kind: "monthly"; week: number; weekday: number };
+
+/** What every occurrence is copied from. */
+export type SeriesTemplate = {
+  title: string;
+  menu: Menu;
+  blurb: string | null;
+  startTime: string | null;
+  durationMinutes: number | null;
+  location: string | null;
+  /** Where automatic invites go; null means the planner sends invites by hand. */
+  partnerEmail: string | null;
+  /** How many days before each date night its invite is created and emailed. */
+  inviteDaysAhead: number | null;
+};
+
+export type Series = SeriesTemplate & {
+  id: string;
+  ownerId: string;
+  themeId: string;
+  recurrence: Recurrence;
+  startsOn: string;
+  endsOn: string | null;
+  /** Occurrences up to this date have been created; later edits never recreate deleted ones. */
+  materializedThrough: string | null;
+  createdAt: string;
+};
+
+/** How far ahead occurrences exist as real date nights (further when invites go out earlier). */
+const LOOKAHEAD_DAYS = Number(process.env.SERIES_LOOKAHEAD_DAYS || 28);
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const ORDINALS: Record<number, string> = { 1: "first", 2: "second", 3: "third", 4: "fourth", [-1]: "last" };
+
+function isEmail(s: string) {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(s);
+}
+
+function parseIsoDate(iso: string) {
+  return new Date(`${iso}T00:00:00Z`);
+}
+
+function addDays(iso: string, n: number) {
+  const d = parseIsoDate(iso);
+  d.setUTCDate(d.getUTCDate() + n);
+  return d.toISOString().slice(0, 10);
+}
+
+function daysBetween(a: string, b: string) {
+  return Math.round((parseIsoDate(b).getTime() - parseIsoDate(a).getTime()) / 86_400_000);
+}
+
+/** The `week`th (or with -1, the last) `weekday` of a month, as YYYY-MM-DD. */
+function nthWeekday(year: number, month: number, week: number, weekday: number) {
+  if (week === -1) {
+    const last = new Date(Date.UTC(year, month + 1, 0));
+    last.setUTCDate(last.getUTCDate() - ((last.getUTCDay() - weekday + 7) % 7));
+    return last.toISOString().slice(0, 10);
+  }
+  const first = new Date(Date.UTC(year, month, 1));
+  first.setUTCDate(1 + ((weekday - first.getUTCDay() + 7) % 7) + (week - 1) * 7);
+  return first.toISOString().slice(0, 10);
+}
+
+/** Occurrence dates between `from` and `to` (inclusive), never before the series starts. */
+export function occurrencesBetween(r: Recurrence, startsOn: string, from: string, to: string): string[] {
+  const start = from > startsOn ? from : startsOn;
+  const out: string[] = [];
+  if (start > to) return out;
+
+  if (r.kind === "weekly") {
+    const step = 7 * r.everyWeeks;
+    let date = addDays(startsOn, Math.ceil(daysBetween(startsOn, start) / step) * step);
+    for (; date <= to; date = addDays(date, step)) out.push(date);
+    return out;
+  }
+
+  const cursor = parseIsoDate(start);
+  cursor.setUTCDate(1);
+  while (cursor.toISOString().slice(0, 10) <= to) {
+    const date = nthWeekday(cursor.getUTCFullYear(), cursor.getUTCMonth(), r.week, r.weekday);
+    if (date >= start && date <= to) out.push(date);
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+  return out;
+}
+
+export function describeRecurrence(r: Recurrence, startsOn: string) {
+  if (r.kind === "monthly") return `Monthly on the ${ORDINALS[r.week]} ${WEEKDAYS[r.weekday]}`;
+  const weekday = WEEKDAYS[parseIsoDate(startsOn).getUTCDay()];
+  return r.everyWeeks === 1 ? `Every ${weekday}` : `Every ${r.everyWeeks} weeks on ${weekday}`;
+}
+
+function parseRecurrence(json: string): Recurrence {
+  try {
+    const r = JSON.parse(json);
+    if (r?.kind === "monthly") return { kind: "monthly", week: Number(r.week), weekday: Number(r.weekday) };
+    return { kind: "weekly", everyWeeks: Math.max(1, Number(r?.everyWeeks) || 1) };
+  } catch {
+    return { kind: "weekly", everyWeeks: 1 };
+  }
+}
+
+function rowToSeries(row: any): Series {
+  return {
+    id: row.id,
+    ownerId: row.owner_id,
+    title: row.title,
+    themeId: row.theme_id,
+    menu: parseMenu(row.menu_json),
+    blurb: row.blurb,
+    startTime: row.start_time,
+    durationMinutes: row.duration_minutes,
+    location: row.location,
+    partnerEmail: row.partner_email,
+    inviteDaysAhead: row.invite_days_ahead,
+    recurrence: parseRecurrence(row.recurrence_json),
+    startsOn: row.starts_on,
+    endsOn: row.ends_on,
+    materializedThrough: row.materialized_through,
+    createdAt: row.created_at,
+  };
+}
+
+/** Series belong to the planner who made them; their date nights can still be shared one by one. */
+export function getSeriesFor(id: string, userId: string): Series | undefined {
+  const row = getDb().prepare(`SELECT * FROM date_night_series WHERE id = ? AND owner_id = ?`).get(id, userId);
+  return row ? rowToSeries(row) : undefined;
+}
+
+export function listSeriesFor(userId: string): Series[] {
+  return getDb().prepare(`SELECT * FROM date_night_series WHERE owner_id = ? ORDER BY created_at DESC`)
+    .all(userId).map(rowToSeries);
+}
+
+export function listSeriesDateNights(seriesId: string): any[] {
+  return getDb().prepare(`
+    SELECT dn.*, (SELECT COUNT(*) FROM invites i WHERE i.date_night_id = dn.id) AS invite_count,
+      (SELECT COUNT(*) FROM selections s JOIN invites i ON i.id = s.invite_id
+        WHERE i.date_night_id = dn.id AND i.revoked_at IS NULL) AS answer_count
+    FROM date_nights dn WHERE dn.series_id = ? ORDER BY dn.date_iso
+  `).all(seriesId);
+}
+
+/** The template fields shared by the "new series" and "edit series" forms. */
+function templateFromBody(body: any, menu: Menu): Omit<SeriesTemplate, "blurb"> | FieldError {
+  const title = String(body.title || "").trim();
+  const schedule = scheduleFromBody({ ...body, date: "" });
+  const partnerEmail = String(body.partnerEmail || "").trim() || null;
+  const aheadRaw = String(body.inviteDaysAhead ?? "").trim();
+  const inviteDaysAhead = aheadRaw ? Math.floor(Number(aheadRaw)) : null;
+
+  if (!title) return { error: "Please add a title.", field: "title" };
+  if ("error" in schedule) return schedule;
+  if (partnerEmail && !isEmail(partnerEmail)) return { error: "That partner email doesn’t look right.", field: "partnerEmail" };
+  if (inviteDaysAhead !== null && !(inviteDaysAhead >= 0 && inviteDaysAhead <= 60)) {
+    return { error: "Invites can go out between 0 and 60 days ahead (or leave it empty).", field: "inviteDaysAhead" };
+  }
+  if (inviteDaysAhead !== null && !partnerEmail) {
+    return { error: "Automatic invites need a partner email.", field: "partnerEmail" };
+  }
+
+  const { startTime, durationMinutes, location } = schedule;
+  return { title, menu, startTime, durationMinutes, location, partnerEmail, inviteDaysAhead };
+}
+
+export type NewSeries = SeriesTemplate & { themeId: string; recurrence: Recurrence; startsOn: string; endsOn: string | null };
+
+/** Checks the "new series" form; like a new date night, the menu and blurb start as the theme's. */
+export function newSeriesFromBody(body: any): NewSeries | FieldError {
+  const theme = getTheme(String(body.themeId || "").trim());
+  if (!theme) return { error: "That theme doesn’t exist.", field: "themeId" };
+  if (theme.archivedAt) return { error: "That theme is archived. Restore it first or pick another.", field: "themeId" };
+
+  const template = templateFromBody(body, theme.options);
+  if ("error" in template) return template;
+
+  const startsOn = String(body.startsOn || "").trim();
+  const endsOn = String(body.endsOn || "").trim() || null;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(startsOn)) return { error: "Please pick the first date.", field: "startsOn" };
+  if (endsOn && (!/^\d{4}-\d{2}-\d{2}$/.test(endsOn) || endsOn < startsOn)) {
+    return { error: "The last date should be after the first one.", field: "endsOn" };
+  }
+
+  let recurrence: Recurrence;
+  if (body.frequency === "monthly") {
+    const week = Number(body.monthWeek);
+    const weekday = Number(body.weekday);
+    if (![1, 2, 3, 4, -1].includes(week) || !(weekday >= 0 && weekday <= 6)) {
+      return { error: "Pick which weekday of the month.", field: "monthWeek" };
+    }
+    recurrence = { kind: "monthly", week, weekday };
+  } else {
+    const everyWeeks = Math.floor(Number(body.everyWeeks || 1));
+    if (!(everyWeeks >= 1 && everyWeeks <= 12)) return { error: "Repeat every 1 to 12 weeks.", field: "everyWeeks" };
+    recurrence = { kind: "weekly", everyWeeks };
+  }
+
+  return { ...template, blurb: theme.blurb, themeId: theme.id, recurrence, startsOn, endsOn };
+}
+
+/** Checks the "edit series" form (template fields only; the rhythm is fixed once a series exists). */
+export function seriesTemplateFromBody(body: any): SeriesTemplate | FieldError {
+  const parsed = menuFromForm(body.categories);
+  if ("error" in parsed) return { error: parsed.error, field: "categories" };
+  const template = templateFromBody(body, parsed.menu);
+  if ("error" in template) return template;
+  return { ...template, blurb: String(body.blurb || "").trim() || null };
+}
+
+export function createSeries(input: NewSeries, ownerId: string): string {
+  const id = nanoid(12);
+  const now = new Date().toISOString();
+  getDb().prepare(`
+    INSERT INTO date_night_series
+      (id, owner_id, title, theme_id, menu_json, blurb, start_time, duration_minutes, location,
+       recurrence_json, starts_on, ends_on, partner_email, invite_days_ahead, materialized_through, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL, ?, ?)
+  `).run(
+    id, ownerId, input.title, input.themeId, JSON.stringify(input.menu), input.blurb, input.startTime,
+    input.durationMinutes, input.location, JSON.stringify(input.recurrence), input.startsOn, input.endsOn,
+    input.partnerEmail, input.inviteDaysAhead, now, now
+  );
+  return id;
+}
+
+/**
+ * Saves the template. With `applyToFuture`, date nights from today on take the new title, menu,
+ * blurb, time and place too; earlier ones are left exactly as they happened, and so are upcoming
+ * ones a partner has already answered (their picks refer to that menu). Returns those skipped.
+ */
+export function updateSeries(s: Series, t: SeriesTemplate, opts: { applyToFuture: boolean }, now = new Date()): { skipped: any[] } {
+  const db = getDb();
+  return db.transaction(() => {
+    db.prepare(`
+      UPDATE date_night_series
+      SET title = ?, menu_json = ?, blurb = ?, start_time = ?, duration_minutes = ?, location = ?,
+          partner_email = ?, invite_days_ahead = ?, updated_at = ?
+      WHERE id = ?
+    `).run(
+      t.title, JSON.stringify(t.menu), t.blurb, t.startTime, t.durationMinutes, t.location,
+      t.partnerEmail, t.inviteDaysAhead, now.toISOString(), s.id
+    );
+    if (!opts.applyToFuture) return { skipped: [] };
+
+    const upcoming = listSeriesDateNights(s.id).filter(dn => dn.date_iso >= localDateIso(now));
+    for (const dn of upcoming.filter(dn => !dn.answer_count)) {
+      const itinerary: Itinerary = {
+        title: t.title,
+        menu: t.menu,
+        blurb: t.blurb,
+        dateIso: dn.date_iso,
+        startTime: t.startTime,
+        durationMinutes: t.durationMinutes,
+        location: t.location,
+        lockInAt: dn.lock_in_at,
+        timeZone: dn.time_zone,
+        maxOptionCost: dn.max_option_cost,
+        reminders: parseReminderRules(dn.reminder_rules_json),
+        group: parseGroupSettings(dn.group_json),
+        dateSlots: parseDateSlots(dn.date_slots_json),
+        revealAt: dn.reveal_at,
+      };
+      saveItinerary(dn, itinerary);
+    }
+    return { skipped: upcoming.filter(dn => dn.answer_count) };
+  })();
+}
+
+/** Date nights already created stay, as ordinary one-off date nights. */
+export function deleteSeries(id: string) {
+  getDb().prepare(`DELETE FROM date_night_series WHERE id = ?`).run(id);
+}
+
+/** Creates the date nights that now fall inside the lookahead window. */
+function materializeSeries(s: Series, now: Date) {
+  const today = localDateIso(now);
+  const horizon = addDays(today, Math.max(LOOKAHEAD_DAYS, s.inviteDaysAhead ?? 0));
+  const until = s.endsOn && s.endsOn < horizon ? s.endsOn : horizon;
+  const from = s.materializedThrough && s.materializedThrough >= today ? addDays(s.materializedThrough, 1) : today;
+  if (from > until) return;
+
+  const db = getDb();
+  db.transaction(() => {
+    for (const dateIso of occurrencesBetween(s.recurrence, s.startsOn, from, until)) {
+      createDateNight({
+        title: s.title,
+        themeId: s.themeId,
+        menu: s.menu,
+        blurb: s.blurb ?? "",
+        dateIso,
+        startTime: s.startTime,
+        durationMinutes: s.durationMinutes,
+        location: s.location,
+      }, s.ownerId, s.id);
+    }
+    db.prepare(`UPDATE date_night_series SET materialized_through = ? WHERE id = ?`).run(until, s.id);
+  })();
+}
+
+/**
+ * Invites the saved partner to each occurrence that is now close enough. Date nights that already
+ * have an invite (sent by hand, or revoked on purpose) are left alone.
+ */
+async function sendSeriesInvites(s: Series, now: Date) {
+  if (!s.partnerEmail || s.inviteDaysAhead === null) return;
+  const db = getDb();
+  const today = localDateIso(now);
+  const due = db.prepare(`SELECT * FROM date_nights WHERE series_id = ? AND date_iso BETWEEN ? AND ?`)
+    .all(s.id, today, addDays(today, s.inviteDaysAhead)) as any[];
+  const hasInvite = db.prepare(`SELECT 1 FROM invites WHERE date_night_id = ?`);
+
+  for (const dn of due) {
+    // Checked right before the insert (no await in between) so overlapping runs can't double-invite.
+    if (hasInvite.get(dn.id)) continue;
+    await createInvite(dn, { recipientEmail: s.partnerEmail, expiresOn: dn.date_iso });
+  }
+}
+
+/** One pass over every series. */
+export async function runSeries(now: Date = new Date(), seriesId?: string) {
+  const rows = seriesId
+    ? getDb().prepare(`SELECT * FROM date_night_series WHERE id = ?`).all(seriesId)
+    : getDb().prepare(`SELECT * FROM date_night_series`).all();
+  for (const s of rows.map(rowToSeries)) {
+    materializeSeries(s, now);
+    await sendSeriesInvites(s, now);
+  }
+}
+
+let scheduler: NodeJS.Timeout | null = null;
+
+export function startSeriesScheduler(opts: { intervalMs?: number; clock?: () => Date } = {}) {
+  if (scheduler) return;
+  const clock = opts.clock ?? (() => new Date());
+
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runSeries(clock());
+    } catch (e) {
+      console.error("[series] tick failed", e);
+    } finally {
+      running = false;
+    }
+  };
+
+  scheduler = setInterval(tick, opts.intervalMs ?? 60 * 60_000);
+  scheduler.unref();
+  void tick();
+}
@@ -7,46 +7,219 @@ import cookieParser from "cookie-parser";
 import ejs from "ejs";
 import { nanoid } from "nanoid";
 
+import { api } from "./api";
+import { createApiToken, listApiTokens, revokeApiToken } from "./api_tokens";
 import { getDb } from "./db";
-import { THEMES, getTheme } from "./themes";
 import {
-  sendEmail,
-  renderInviteEmail,
+  EMAIL_TEMPLATE_KINDS,
+  TEMPLATE_VARIABLES,
+  effectiveTemplate,
+  esc,
+  getStoredTemplate,
+  listTemplateOverrides,
+  renderTemplate,
+  resetTemplate,
+  saveTemplate,
+  tHtml,
+  validateTemplate,
+  type EmailTemplate,
+  type EmailTemplateKind,
+  type EmailTemplateVars,
+} from "./email_templates";
+import {
+  getTheme,
+  listThemes,
+  canEditTheme,
+  createTheme,
+  updateTheme,
+  duplicateTheme,
+  setThemeArchived,
+  type Theme,
+} from "./themes";
+import { BUILTIN_THEMES } from "./builtin_themes";
+import {
   renderPlannerEmail,
+  renderPlannerUpdateEmail,
+  renderPlannerSuggestionEmail,
   renderPartnerConfirmationEmail,
 } from "./email";
+import { getEmailTransport } from "./email_transport";
+import { dateNightIcs } from "./calendar";
+import {
+  maskMenu,
+  maskPicks,
+  maskTally,
+  partnerBlurb,
+  partnerPickLines,
+  revealText,
+  startRevealScheduler,
+  surpriseHidden,
+  teasers,
+  unmaskPicks,
+} from "./surprise";
+import {
+  availabilityFor,
+  confirmDateSlot,
+  datePollOpen,
+  datePollResults,
+  describeAvailability,
+  parseDateSlots,
+  recordAvailability,
+  slotKey,
+  slotWhen,
+} from "./date_poll";
+import { barChart, stackedBarChart, colorFor } from "./charts";
+import { baseUrl } from "./config";
+import {
+  getDateNightFor,
+  listDateNightsFor,
+  listCoPlanners,
+  shareDateNight,
+  unshareDateNight,
+  plannerRecipients,
+  picksLocked,
+  toDateTimeLocal,
+  newDateNightFromBody,
+  createDateNight,
+  itineraryFromBody,
+  saveItinerary,
+  deleteDateNight,
+} from "./date_nights";
+import { formatInstant, formatWhen, localDateIso, serverTimeZone } from "./format";
+import { DEFAULT_LOCALE, LOCALES, parseLocale, t, type MessageKey } from "./i18n";
+import { loadInsights, optionsByCategory, INSIGHT_CSVS } from "./insights";
+import { inviteState, emailInvite, createInvite, resendInvite } from "./invites";
+import {
+  parseMenu,
+  parsePicks,
+  validatePicks,
+  describePicks,
+  menuFromForm,
+  modeHint,
+  menuWithinBudget,
+  describeOption,
+  optionFacts,
+  formatCost,
+  OPTION_TAGS,
+  type Menu,
+  type MenuCategory,
+  type Picks,
+} from "./menu";
+import {
+  acceptSuggestion,
+  addSuggestionToTheme,
+  declineSuggestion,
+  listSuggestionsForDateNight,
+  listSuggestionsForInvite,
+  recordSuggestions,
+} from "./suggestions";
+import {
+  generatorPool,
+  menuFromChoice,
+  menuHistory,
+  optionListsFromBody,
+  proposeMenu,
+  saveGeneratedMenu,
+  type ProposedCategory,
+} from "./menu_generator";
+import { checklistView, dateNightStartsAt, formatTaskLine, listPrepItems, refreshChecklist, setPrepItemDone } from "./prep";
+import { queueEmail, retryNow, getOutboxMessage, listOutboxForInvite, startOutboxWorker } from "./outbox";
+import { parseReminderRules, listSentReminders, startReminderScheduler } from "./reminders";
+import {
+  WEBHOOK_EVENTS,
+  createWebhook,
+  dateNightPayload,
+  deleteWebhook,
+  emitEvent,
+  getWebhook,
+  invitePayload,
+  listDeliveries,
+  listWebhooks,
+  redeliver,
+  sendTestEvent,
+  setWebhookActive,
+  startWebhookWorker,
+  webhookFromBody,
+  type WebhookDelivery,
+} from "./webhooks";
+import {
+  RESOLUTION_RULES,
+  breakTie,
+  finalPlanBlocker,
+  groupTally,
+  parseGroupSettings,
+  sendFinalPlan,
+  sendFinalPlanIfReady,
+  startFinalPlanScheduler,
+} from "./voting";
+import { saveImageUpload, uploadsDir, IMAGE_CONTENT_TYPES, MAX_IMAGE_BYTES } from "./uploads";
+import {
+  MAX_PHOTOS_PER_MEMORY,
+  MAX_REFLECTION_LENGTH,
+  addPhoto,
+  averageRating,
+  chosenOptions,
+  deletePhoto,
+  listMemories,
+  memoriesOpen,
+  memoryFromBody,
+  optionRatingStats,
+  saveMemory,
+  type Memory,
+} from "./memories";
+import {
+  getSeriesFor,
+  listSeriesFor,
+  listSeriesDateNights,
+  describeRecurrence,
+  newSeriesFromBody,
+  seriesTemplateFromBody,
+  createSeries,
+  updateSeries,
+  deleteSeries,
+  runSeries,
+  startSeriesScheduler,
+} from "./series";
+import {
+  exportDateNights,
+  validateExport,
+  importExport,
+  describeImport,
+  type ExportDocument,
+  type ImportReport,
+} from "./transfer";
+import {
+  accountFromBody,
+  authenticate,
+  checkPassword,
+  countUsers,
+  createFirstUser,
+  createUser,
+  getUser,
+  getUserByEmail,
+  listUsers,
+  updateUser,
+  MIN_PASSWORD_LENGTH,
+  type User,
+} from "./users";
 
 type Flash = { type: "info" | "error"; message: string };
 
 const app = express();
 app.set("trust proxy", 1);
 const VIEWS_DIR = path.join(process.cwd(), "src", "views");
-
-function parseLines(input: string): string[] {
-  return input
-    .split("\n")
-    .map(s => s.trim())
-    .filter(Boolean);
-}
-
-function safeParseMenuJson(menuJson: string): { dinner: string[]; activity: string[]; mood: string[] } {
-  try {
-    const m = JSON.parse(menuJson);
-    return {
-      dinner: Array.isArray(m?.dinner) ? m.dinner : [],
-      activity: Array.isArray(m?.activity) ? m.activity : [],
-      mood: Array.isArray(m?.mood) ? m.mood : [],
-    };
-  } catch {
-    return { dinner: [], activity: [], mood: [] };
-  }
-}
+const finalPlans = { plannerEmails: plannerRecipients };
 
 
 app.use(helmet({ contentSecurityPolicy: false }));
-app.use(express.urlencoded({ extended: true }));
+// Pasted exports can be far bigger than any other form, so the import route parses its own body,
+// and only once the planner is signed in.
+const formParser = express.urlencoded({ extended: true });
+const importParser = express.urlencoded({ extended: true, limit: "20mb" });
+app.use((req, res, next) => (req.method === "POST" && req.path === "/admin/import" ? next() : formParser(req, res, next)));
 app.use(cookieParser());
 app.use(express.static(path.join(process.cwd(), "public")));
+app.use("/uploads", express.static(uploadsDir()));
 
 app.use(
   session({
@@ -62,13 +235,30 @@ app.use(
   })
 );
 
-function isAdmin(req: express.Request) {
-  return Boolean((req.session as any).isAdmin);
+function currentUser(req: express.Request): User | undefined {
+  const userId = (req.session as any).userId as string | undefined;
+  return userId ? getUser(userId) : undefined;
 }
 function requireAdmin(req: express.Request, res: express.Response, next: express.NextFunction) {
-  if (!isAdmin(req)) return res.redirect("/admin/login");
+  const user = currentUser(req);
+  if (!user) return res.redirect("/admin/login");
+  res.locals.user = user;
   next();
 }
+/** The signed-in planner; only valid behind `requireAdmin`. */
+function planner(res: express.Response): User {
+  return res.locals.user;
+}
+/** A fresh session on sign-in so a session id picked up before login can't be reused. */
+function signIn(req: express.Request, user: User) {
+  return new Promise<void>((resolve, reject) => {
+    req.session.regenerate(err => {
+      if (err) return reject(err);
+      (req.session as any).userId = user.id;
+      resolve();
+    });
+  });
+}
 function setFlash(req: express.Request, flash: Flash) {
   (req.session as any).flash = flash;
 }
@@ -77,21 +267,35 @@ function consumeFlash(req: express.Request): Flash | null {
   if (f) delete (req.session as any).flash;
   return f || null;
 }
-function baseUrl() {
-  return (process.env.BASE_URL || "http://localhost:3000").replace(/\/$/, "");
+function summarizePicks(menu: Menu, picks: Picks) {
+  return describePicks(menu, picks).map(p => `${p.label}: ${p.value}`).join(" • ");
 }
-function plannerEmail() {
-  return (process.env.PLANNER_EMAIL || "").trim();
+
+/** Locals for the `_memories` card: the viewer's own memory, everyone else's, and what there is to rate. */
+function memoriesCard(dn: any, opts: {
+  action: string;
+  isMine: (m: Memory) => boolean;
+  label: (m: Memory) => string;
+  removeAnyPhoto: boolean;
+}) {
+  const memories = listMemories(dn.id);
+  return {
+    action: opts.action,
+    chosen: chosenOptions(dn),
+    mine: memories.find(opts.isMine),
+    others: memories
+      .filter(m => !opts.isMine(m) && (m.rating || m.reflection || m.optionRatings.length || m.photos.length))
+      .map(m => ({ ...m, label: opts.label(m) })),
+    maxPhotos: MAX_PHOTOS_PER_MEMORY,
+    maxReflection: MAX_REFLECTION_LENGTH,
+    maxPhotoBytes: MAX_IMAGE_BYTES,
+    removeAnyPhoto: opts.removeAnyPhoto,
+  };
 }
-function formatDateIso(iso: string | null): string | null {
-  if (!iso) return null;
-  try {
-    const [y, m, d] = iso.split("-").map(Number);
-    const dt = new Date(Date.UTC(y, m - 1, d));
-    return dt.toLocaleDateString(undefined, { year: "numeric", month: "long", day: "numeric" });
-  } catch {
-    return iso;
-  }
+
+/** How options were rated across this planner's date nights, for the menu editors. */
+function optionRatingsFor(res: express.Response) {
+  return optionRatingStats(listDateNightsFor(planner(res).id).map(dn => dn.id));
 }
 
 async function renderPage(req: express.Request, res: express.Response, opts: {
@@ -101,13 +305,24 @@ async function renderPage(req: express.Request, res: express.Response, opts: {
   status?: number;
   admin?: boolean;
   flash?: Flash | null;
+  /** Partner pages pass the invite's language; planner pages are English. */
+  locale?: string | null;
 }) {
-  const inner = await ejs.renderFile(path.join(VIEWS_DIR, `${opts.view}.ejs`), opts.locals || {}, { async: true });
+  const locale = parseLocale(opts.locale) ?? DEFAULT_LOCALE;
+  const i18n = {
+    locale,
+    t: (key: MessageKey, vars?: Record<string, string | number>) => t(locale, key, vars),
+    /** For messages with emphasis: each value is escaped and shown in bold. */
+    tStrong: (key: MessageKey, vars: Record<string, string | number>) =>
+      tHtml(locale, key, Object.fromEntries(Object.entries(vars).map(([k, v]) => [k, `<strong>${esc(String(v))}</strong>`]))),
+  };
+  const inner = await ejs.renderFile(path.join(VIEWS_DIR, `${opts.view}.ejs`), { ...i18n, ...opts.locals }, { async: true });
   const html = await ejs.renderFile(
     path.join(VIEWS_DIR, `layout.ejs`),
     {
+      ...i18n,
       title: opts.title,
-      admin: opts.admin ?? isAdmin(req),
+      admin: opts.admin ?? Boolean(currentUser(req)),
       flash: opts.flash ?? consumeFlash(req),
       body: inner,
     },
@@ -117,31 +332,29 @@ async function renderPage(req: express.Request, res: express.Response, opts: {
   res.send(html);
 }
 
+app.use("/api/v1", api);
+
 app.get("/", (req, res) => res.redirect("/admin"));
 
 /** Admin */
 app.get("/admin", (req, res) => {
-  if (!isAdmin(req)) return res.redirect("/admin/login");
+  if (!currentUser(req)) return res.redirect("/admin/login");
   res.redirect("/admin/dashboard");
 });
 
 app.get("/admin/login", async (req, res) => {
+  if (countUsers() === 0) return res.redirect("/admin/setup");
   await renderPage(req, res, { title: "Admin login • Date Night Cottage", view: "admin_login" });
 });
 
-app.post("/admin/login", (req, res) => {
-  const password = String(req.body.password || "");
-  const expected = process.env.ADMIN_PASSWORD || "";
-  if (!expected) {
-    setFlash(req, { type: "error", message: "ADMIN_PASSWORD is not set in .env" });
-    return res.redirect("/admin/login");
-  }
-  if (password !== expected) {
-    setFlash(req, { type: "error", message: "Nope — that password doesn’t match 🌧️" });
+app.post("/admin/login", async (req, res) => {
+  const user = await authenticate(String(req.body.email || ""), String(req.body.password || ""));
+  if (!user) {
+    setFlash(req, { type: "error", message: "Nope — that email and password don’t match 🌧️" });
     return res.redirect("/admin/login");
   }
-  (req.session as any).isAdmin = true;
-  setFlash(req, { type: "info", message: "Welcome in 🌿" });
+  await signIn(req, user);
+  setFlash(req, { type: "info", message: `Welcome in, ${user.name} 🌿` });
   res.redirect("/admin/dashboard");
 });
 
@@ -149,14 +362,103 @@ app.get("/admin/logout", (req, res) => {
   req.session.destroy(() => res.redirect("/admin/login"));
 });
 
+/** First run: create the first planner account. ADMIN_PASSWORD, when set, doubles as the setup code. */
+app.get("/admin/setup", async (req, res) => {
+  if (countUsers() > 0) return res.redirect("/admin/login");
+  await renderPage(req, res, {
+    title: "Welcome • Date Night Cottage",
+    view: "admin_setup",
+    locals: { needsCode: Boolean(process.env.ADMIN_PASSWORD), notifyEmail: process.env.PLANNER_EMAIL || "" },
+  });
+});
+
+app.post("/admin/setup", async (req, res) => {
+  if (countUsers() > 0) return res.redirect("/admin/login");
+
+  const code = process.env.ADMIN_PASSWORD || "";
+  if (code && String(req.body.setupCode || "") !== code) {
+    setFlash(req, { type: "error", message: "That setup code doesn’t match ADMIN_PASSWORD 🌧️" });
+    return res.redirect("/admin/setup");
+  }
+  const input = accountFromBody(req.body, { requirePassword: true });
+  if ("error" in input) {
+    setFlash(req, { type: "error", message: input.error });
+    return res.redirect("/admin/setup");
+  }
+
+  const user = await createFirstUser({ ...input, password: input.password! });
+  await signIn(req, user);
+  setFlash(req, { type: "info", message: `Your cottage is ready, ${user.name} 🌿` });
+  res.redirect("/admin/dashboard");
+});
+
+app.get("/admin/account", requireAdmin, async (req, res) => {
+  await renderPage(req, res, {
+    title: "Your account • Date Night Cottage",
+    view: "admin_account",
+    locals: { user: planner(res), minPassword: MIN_PASSWORD_LENGTH },
+    admin: true,
+  });
+});
+
+app.post("/admin/account", requireAdmin, async (req, res) => {
+  const user = planner(res);
+  const input = accountFromBody(req.body, { requirePassword: false });
+  if ("error" in input) {
+    setFlash(req, { type: "error", message: input.error });
+    return res.redirect("/admin/account");
+  }
+
+  const emailChanged = input.email.toLowerCase() !== user.email.toLowerCase();
+  if ((input.password || emailChanged) && !(await checkPassword(user.id, String(req.body.currentPassword || "")))) {
+    setFlash(req, { type: "error", message: "Please enter your current password to change your sign-in email or password." });
+    return res.redirect("/admin/account");
+  }
+  if (emailChanged && getUserByEmail(input.email)) {
+    setFlash(req, { type: "error", message: "Another planner already signs in with that email." });
+    return res.redirect("/admin/account");
+  }
+
+  await updateUser(user.id, input);
+  setFlash(req, { type: "info", message: "Account saved 🌼" });
+  res.redirect("/admin/account");
+});
+
+app.get("/admin/planners", requireAdmin, async (req, res) => {
+  await renderPage(req, res, {
+    title: "Planners • Date Night Cottage",
+    view: "admin_planners",
+    locals: { planners: listUsers(), me: planner(res), minPassword: MIN_PASSWORD_LENGTH },
+    admin: true,
+  });
+});
+
+/**
+ * Only planners who can manage the cottage add others (and may pass that on); the new planner signs
+ * in with the password chosen here and can change it.
+ */
+app.post("/admin/planners", requireAdmin, async (req, res) => {
+  if (!planner(res).canManage) {
+    setFlash(req, { type: "error", message: "Only a planner who manages the cottage can add planners." });
+    return res.redirect("/admin/planners");
+  }
+  const input = accountFromBody(req.body, { requirePassword: true });
+  if ("error" in input) {
+    setFlash(req, { type: "error", message: input.error });
+    return res.redirect("/admin/planners");
+  }
+  if (getUserByEmail(input.email)) {
+    setFlash(req, { type: "error", message: "A planner with that email already exists." });
+    return res.redirect("/admin/planners");
+  }
+
+  const user = await createUser({ ...input, password: input.password!, canManage: req.body.canManage === "1" });
+  setFlash(req, { type: "info", message: `${user.name} can now sign in 💛` });
+  res.redirect("/admin/planners");
+});
+
 app.get("/admin/dashboard", requireAdmin, async (req, res) => {
-  const db = getDb();
-  const rows = db.prepare(`
-    SELECT dn.*,
-      (SELECT COUNT(*) FROM invites i WHERE i.date_night_id = dn.id) AS invite_count
-    FROM date_nights dn
-    ORDER BY dn.created_at DESC
-  `).all() as any[];
+  const rows = listDateNightsFor(planner(res).id);
 
   const dateNights = rows.map((dn) => {
     const t = getTheme(dn.theme_id);
@@ -165,7 +467,8 @@ app.get("/admin/dashboard", requireAdmin, async (req, res) => {
       title: dn.title,
       themeName: t?.name ?? dn.theme_id,
       inviteCount: dn.invite_count,
-      dateText: formatDateIso(dn.date_iso),
+      dateText: formatWhen(dn),
+      sharedBy: dn.access === "owner" ? null : dn.owner_name,
     };
   });
 
@@ -177,53 +480,245 @@ app.get("/admin/dashboard", requireAdmin, async (req, res) => {
   });
 });
 
+app.get("/admin/series", requireAdmin, async (req, res) => {
+  const series = listSeriesFor(planner(res).id).map(s => ({
+    ...s,
+    themeName: getTheme(s.themeId)?.name ?? s.themeId,
+    rhythm: describeRecurrence(s.recurrence, s.startsOn),
+  }));
+
+  await renderPage(req, res, {
+    title: "Series • Admin • Date Night Cottage",
+    view: "admin_series",
+    locals: { series, themes: listThemes() },
+    admin: true,
+  });
+});
+
+app.post("/admin/series", requireAdmin, async (req, res) => {
+  const input = newSeriesFromBody(req.body);
+  if ("error" in input) {
+    setFlash(req, { type: "error", message: input.error });
+    return res.redirect("/admin/series");
+  }
+
+  const id = createSeries(input, planner(res).id);
+  await runSeries(new Date(), id);
+  setFlash(req, { type: "info", message: "Series created — the next few date nights are ready 🔁" });
+  res.redirect(`/admin/series/${id}`);
+});
+
+app.get("/admin/series/:id", requireAdmin, async (req, res) => {
+  const series = getSeriesFor(String(req.params.id), planner(res).id);
+  if (!series) {
+    setFlash(req, { type: "error", message: "Series not found." });
+    return res.redirect("/admin/series");
+  }
+
+  const today = localDateIso(new Date());
+  const dateNights = listSeriesDateNights(series.id).map(dn => ({
+    id: dn.id,
+    title: dn.title,
+    dateText: formatWhen(dn),
+    inviteCount: dn.invite_count,
+    answered: dn.answer_count > 0,
+    past: dn.date_iso < today,
+  }));
+
+  await renderPage(req, res, {
+    title: `${series.title} • Series • Date Night Cottage`,
+    view: "admin_edit_series",
+    locals: {
+      series,
+      themeName: getTheme(series.themeId)?.name ?? series.themeId,
+      rhythm: describeRecurrence(series.recurrence, series.startsOn),
+      categories: series.menu.categories,
+      optionTags: OPTION_TAGS,
+      formatTaskLine,
+      optionRatings: optionRatingsFor(res),
+      dateNights,
+    },
+    admin: true,
+  });
+});
+
+app.post("/admin/series/:id", requireAdmin, async (req, res) => {
+  const series = getSeriesFor(String(req.params.id), planner(res).id);
+  if (!series) return res.redirect("/admin/series");
+
+  const template = seriesTemplateFromBody(req.body);
+  if ("error" in template) {
+    setFlash(req, { type: "error", message: template.error });
+    return res.redirect(`/admin/series/${series.id}`);
+  }
+
+  const applyToFuture = req.body.applyToFuture === "1";
+  const { skipped } = updateSeries(series, template, { applyToFuture });
+  await runSeries(new Date(), series.id);
+  const kept = skipped.length ? ` Left as they were, since partners already answered: ${skipped.map(dn => formatWhen(dn)).join(", ")}.` : "";
+  setFlash(req, {
+    type: "info",
+    message: applyToFuture ? `Series saved, and upcoming date nights updated 🌿${kept}` : "Series saved 🌿 Date nights already made are unchanged.",
+  });
+  res.redirect(`/admin/series/${series.id}`);
+});
+
+app.post("/admin/series/:id/delete", requireAdmin, (req, res) => {
+  const series = getSeriesFor(String(req.params.id), planner(res).id);
+  if (series) deleteSeries(series.id);
+  setFlash(req, { type: "info", message: "Series stopped. Its date nights are still here 🧺" });
+  res.redirect("/admin/series");
+});
+
+function sendExport(res: express.Response, doc: ExportDocument, name: string) {
+  res.type("application/json; charset=utf-8");
+  res.setHeader("Content-Disposition", `attachment; filename="${name}.json"`);
+  res.send(JSON.stringify(doc, null, 2));
+}
+
+app.get("/admin/export.json", requireAdmin, (req, res) => {
+  const stamp = new Date().toISOString().slice(0, 10);
+  sendExport(res, exportDateNights(listDateNightsFor(planner(res).id)), `date-nights-${stamp}`);
+});
+
+app.get("/admin/date-night/:id/export.json", requireAdmin, (req, res) => {
+  const dn = getDateNightFor(String(req.params.id), planner(res).id);
+  if (!dn) return res.status(404).send("Not found");
+  sendExport(res, exportDateNights([dn]), `date-night-${dn.id}`);
+});
+
+app.get("/admin/import", requireAdmin, async (req, res) => {
+  await renderPage(req, res, {
+    title: "Import • Admin • Date Night Cottage",
+    view: "admin_import",
+    locals: { document: "", errors: [], report: null },
+    admin: true,
+  });
+});
+
+/** `action=preview` is a dry run; the page then offers to import the same document for real. */
+app.post("/admin/import", requireAdmin, importParser, async (req, res) => {
+  const text = String(req.body.document || "");
+  const dryRun = req.body.action !== "import";
+  const render = (locals: { errors: string[]; report: ImportReport | null }, status?: number) => renderPage(req, res, {
+    title: "Import • Admin • Date Night Cottage",
+    view: "admin_import",
+    locals: { document: text, ...locals },
+    status,
+    admin: true,
+  });
+
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    return render({ errors: ["That isn’t valid JSON. Paste the whole export file."], report: null }, 422);
+  }
+  const errors = validateExport(doc);
+  if (errors.length) return render({ errors, report: null }, 422);
+
+  const report = importExport(doc as ExportDocument, planner(res).id, { dryRun });
+  if (dryRun) return render({ errors: [], report });
+
+  setFlash(req, { type: "info", message: `Imported ${describeImport(report)} 📦` });
+  res.redirect("/admin/dashboard");
+});
+
+app.get("/admin/insights", requireAdmin, async (req, res) => {
+  const insights = loadInsights(planner(res).id);
+  const categories = optionsByCategory(insights.options);
+  const moodKeys = [...new Set(insights.moods.map(m => m.mood))];
+  const moodMonths = [...new Set(insights.moods.map(m => m.month))];
+  const unused = insights.invites.total - insights.invites.answered;
+
+  await renderPage(req, res, {
+    title: "Insights • Admin • Date Night Cottage",
+    view: "admin_insights",
+    locals: {
+      insights,
+      unusedShare: insights.invites.total ? Math.round((unused / insights.invites.total) * 100) : 0,
+      categories: categories.map((c, i) => ({
+        ...c,
+        chart: barChart(
+          c.options.map(o => ({ label: o.option, value: o.picked, note: `${o.picked} of ${o.offered}` })),
+          { title: `${c.label} picks`, color: colorFor(i) }
+        ),
+      })),
+      themeChart: barChart(
+        insights.themeDefaults.map(t => ({
+          label: t.themeName,
+          value: t.picks ? Math.round((t.defaultPicks / t.picks) * 100) : 0,
+          note: `${t.defaultPicks} of ${t.picks} picks`,
+        })),
+        { title: "Theme default picks (%)", max: 100 }
+      ),
+      moodChart: moodKeys.length
+        ? stackedBarChart(
+          moodMonths.map(month => ({
+            label: month,
+            parts: insights.moods.filter(m => m.month === month).map(m => ({ key: m.mood, value: m.count })),
+          })),
+          moodKeys,
+          { title: "Moods by month" }
+        )
+        : null,
+      responseChart: barChart(
+        insights.responseTimes.map(r => ({ label: r.month, value: r.averageHours, note: `${r.averageHours} h avg` })),
+        { title: "Average hours to answer", color: colorFor(3) }
+      ),
+      inviteChart: barChart(
+        (["answered", "open", "expired", "revoked"] as const).map(k => ({
+          label: k[0].toUpperCase() + k.slice(1),
+          value: insights.invites[k],
+        })),
+        { title: "Invites by state", color: colorFor(1) }
+      ),
+    },
+    admin: true,
+  });
+});
+
+app.get("/admin/insights/:name.csv", requireAdmin, (req, res) => {
+  const name = String(req.params.name);
+  const build = Object.hasOwn(INSIGHT_CSVS, name) ? INSIGHT_CSVS[name] : undefined;
+  if (!build) return res.status(404).send("Not found");
+
+  res.type("text/csv; charset=utf-8");
+  res.setHeader("Content-Disposition", `attachment; filename="insights-${name}.csv"`);
+  res.send(build(loadInsights(planner(res).id)));
+});
+
 app.get("/admin/new", requireAdmin, async (req, res) => {
   await renderPage(req, res, {
     title: "New date night • Date Night Cottage",
     view: "admin_new",
-    locals: { themes: THEMES },
+    locals: { themes: listThemes() },
     admin: true,
   });
 });
 
 app.post("/admin/new", requireAdmin, (req, res) => {
-  const theme = getTheme(String(req.body.themeId || "").trim());
-  const title = String(req.body.title || "").trim();
-  const themeId = String(req.body.themeId || "").trim();
-  const dateIso = String(req.body.date || "").trim() || null;
-  const menuJson = JSON.stringify(req.body.menu || theme?.options || {});
-
-  if (!title) {
-    setFlash(req, { type: "error", message: "Please add a title." });
+  const input = newDateNightFromBody(req.body);
+  if ("error" in input) {
+    setFlash(req, { type: "error", message: input.error });
     return res.redirect("/admin/new");
   }
-  if (!getTheme(themeId)) {
-    setFlash(req, { type: "error", message: "That theme doesn’t exist." });
-    return res.redirect("/admin/new");
-  }
-
-  const db = getDb();
-  const id = nanoid(12);
-  db.prepare(`
-    INSERT INTO date_nights (id, title, theme_id, date_iso, menu_json, blurb, created_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
-  `).run(id, title, themeId, dateIso, menuJson, theme?.blurb || "", new Date().toISOString());
-  
 
-  res.redirect(`/admin/date-night/${id}`);
+  const id = createDateNight(input, planner(res).id);
+  res.redirect(req.body.generate === "1" ? `/admin/date-night/${id}/generate` : `/admin/date-night/${id}`);
 });
 
 app.get("/admin/date-night/:id", requireAdmin, async (req, res) => {
   const db = getDb();
   const id = String(req.params.id);
-  const dn = db.prepare(`SELECT * FROM date_nights WHERE id = ?`).get(id) as any;
+  const dn = getDateNightFor(id, planner(res).id);
   if (!dn) {
     setFlash(req, { type: "error", message: "Date night not found." });
     return res.redirect("/admin/dashboard");
   }
 
   const theme = getTheme(dn.theme_id);
-  const menu = safeParseMenuJson(dn.menu_json);
+  const menu = parseMenu(dn.menu_json);
   if (!theme) {
     setFlash(req, { type: "error", message: "Theme missing." });
     return res.redirect("/admin/dashboard");
@@ -231,128 +726,281 @@ app.get("/admin/date-night/:id", requireAdmin, async (req, res) => {
 
   const invites = db.prepare(`SELECT * FROM invites WHERE date_night_id = ? ORDER BY created_at DESC`).all(id) as any[];
   const selectionStmt = db.prepare(`SELECT * FROM selections WHERE invite_id = ?`);
+  const revisionStmt = db.prepare(`SELECT * FROM selection_revisions WHERE selection_id = ? ORDER BY created_at DESC`);
 
   const inviteVM = invites.map((inv) => {
     const url = `${baseUrl()}/invite/${inv.token}`;
     const used = Boolean(inv.used_at);
     let selectionSummary: string | null = null;
+    let revisions: Array<{ summary: string; at: string }> = [];
     if (used) {
       const sel = selectionStmt.get(inv.id) as any;
-      if (sel) selectionSummary = `🍲 ${sel.dinner_choice} • 🎲 ${sel.activity_choice} • 💛 ${sel.mood_choice}`;
+      if (sel) {
+        selectionSummary = summarizePicks(menu, parsePicks(sel.picks_json));
+        revisions = (revisionStmt.all(sel.id) as any[]).map(r => ({
+          summary: summarizePicks(menu, parsePicks(r.picks_json)) + (r.notes ? ` • 📝 ${r.notes}` : ""),
+          at: new Date(r.created_at).toLocaleString(),
+        }));
+      }
     }
     return {
       id: inv.id,
       url,
       used,
       menu,
+      state: inviteState(inv),
+      expiresText: inv.expires_at ? new Date(inv.expires_at).toLocaleString() : null,
       recipientEmail: inv.recipient_email,
+      language: LOCALES.find(l => l.code === (parseLocale(inv.locale) ?? DEFAULT_LOCALE))!.name,
       selectionSummary,
+      revisions,
+      deliveries: listOutboxForInvite(inv.id),
     };
   });
 
+  const tally = groupTally(dn);
+
   await renderPage(req, res, {
     title: `${dn.title} • Admin • Date Night Cottage`,
     view: "admin_date_night",
     locals: {
-      dateNight: { ...dn, dateText: formatDateIso(dn.date_iso) },
+      dateNight: {
+        ...dn,
+        dateText: formatWhen(dn),
+        lockInText: dn.lock_in_at ? formatInstant(dn.lock_in_at, DEFAULT_LOCALE, dn.time_zone) : null,
+        revealText: revealText(dn),
+        revealed: Boolean(dn.reveal_at) && !surpriseHidden(dn),
+        timeZone: dn.time_zone || serverTimeZone(),
+      },
       theme,
       menu,
+      offered: menuWithinBudget(menu, dn.max_option_cost),
+      budgetText: dn.max_option_cost !== null ? formatCost(dn.max_option_cost) : null,
+      describeOption: (c: MenuCategory, option: string) => describeOption(c.details?.[option]),
       invites: inviteVM,
-      plannerEmail: plannerEmail(),
+      checklist: checklistView(dn, listPrepItems(id)),
+      group: parseGroupSettings(dn.group_json),
+      tally,
+      resolutionRules: RESOLUTION_RULES,
+      finalPlanBlocker: tally ? finalPlanBlocker(dn, tally) : null,
+      finalPlanSentText: dn.final_plan_sent_at ? new Date(dn.final_plan_sent_at).toLocaleString() : null,
+      suggestions: listSuggestionsForDateNight(id).map(sg => ({
+        ...sg,
+        label: menu.categories.find(c => c.key === sg.categoryKey)?.label ?? sg.categoryKey,
+        inTheme: Boolean(theme.options.categories.find(c => c.key === sg.categoryKey)?.options.includes(sg.text)),
+      })),
+      modeHint,
+      plannerEmails: plannerRecipients(dn),
+      coPlanners: listCoPlanners(id),
+      owner: dn.owner_id ? getUser(dn.owner_id) : undefined,
+      series: dn.series_id ? getSeriesFor(dn.series_id, planner(res).id) : undefined,
+      emailTransport: getEmailTransport().label,
+      locales: LOCALES,
+      sentReminders: listSentReminders(id).map(r => ({ ...r, at: new Date(r.sent_at).toLocaleString() })),
+      datePoll: datePollOpen(dn)
+        ? datePollResults(dn).map(s => ({ ...s, whenText: slotWhen({ ...s, startTime: s.startTime ?? dn.start_time }) }))
+        : null,
+      memories: memoriesOpen(dn)
+        ? memoriesCard(dn, {
+            action: `/admin/date-night/${id}`,
+            isMine: m => m.userId === planner(res).id,
+            label: m => m.authorName ?? "A guest",
+            removeAnyPhoto: true,
+          })
+        : null,
     },
     admin: true,
   });
 });
 
-app.post("/admin/date-night/:id/delete", requireAdmin, (req, res) => {
-  const db = getDb();
-  const id = String(req.params.id);
+app.post("/admin/date-night/:id/date-poll/confirm", requireAdmin, async (req, res) => {
+  const dn = getDateNightFor(String(req.params.id), planner(res).id);
+  if (!dn) return res.redirect("/admin/dashboard");
+
+  const confirmed = await confirmDateSlot(dn, String(req.body.slot || ""));
+  if ("error" in confirmed) {
+    setFlash(req, { type: "error", message: confirmed.error });
+  } else {
+    setFlash(req, { type: "info", message: "The date is set 📅 Everyone invited is getting an email." });
+  }
+  res.redirect(`/admin/date-night/${dn.id}`);
+});
 
-  const inviteIds = db.prepare(`SELECT id FROM invites WHERE date_night_id = ?`).all(id) as Array<{ id: string }>;
-  const delSel = db.prepare(`DELETE FROM selections WHERE invite_id = ?`);
-  for (const inv of inviteIds) delSel.run(inv.id);
+app.post("/admin/date-night/:id/delete", requireAdmin, (req, res) => {
+  const dn = getDateNightFor(String(req.params.id), planner(res).id);
+  if (!dn) return res.redirect("/admin/dashboard");
+  if (dn.access !== "owner") {
+    setFlash(req, { type: "error", message: "Only the planner who made this date night can delete it." });
+    return res.redirect(`/admin/date-night/${dn.id}`);
+  }
 
-  db.prepare(`DELETE FROM invites WHERE date_night_id = ?`).run(id);
-  db.prepare(`DELETE FROM date_nights WHERE id = ?`).run(id);
+  deleteDateNight(dn.id);
 
   setFlash(req, { type: "info", message: "Deleted 🌿" });
   res.redirect("/admin/dashboard");
 });
 
-app.post("/admin/date-night/:id/invite", requireAdmin, async (req, res) => {
-  const db = getDb();
-  const dateNightId = String(req.params.id);
-  const recipientEmail = String(req.body.recipientEmail || "").trim() || null;
-
-  const dn = db.prepare(`SELECT * FROM date_nights WHERE id = ?`).get(dateNightId) as any;
+/** Co-planners: only the owner can add or remove them */
+app.post("/admin/date-night/:id/share", requireAdmin, (req, res) => {
+  const dn = getDateNightFor(String(req.params.id), planner(res).id);
   if (!dn) return res.redirect("/admin/dashboard");
+  if (dn.access !== "owner") {
+    setFlash(req, { type: "error", message: "Only the planner who made this date night can share it." });
+    return res.redirect(`/admin/date-night/${dn.id}`);
+  }
 
-  const theme = getTheme(dn.theme_id);
-  if (!theme) return res.redirect(`/admin/date-night/${dateNightId}`);
+  const other = getUserByEmail(String(req.body.email || ""));
+  if (!other) {
+    setFlash(req, { type: "error", message: "No planner signs in with that email. Add them under Planners first." });
+  } else if (other.id === dn.owner_id) {
+    setFlash(req, { type: "error", message: "That’s you! You already have this one 🌿" });
+  } else {
+    shareDateNight(dn.id, other.id);
+    setFlash(req, { type: "info", message: `Shared with ${other.name} 💛` });
+  }
+  res.redirect(`/admin/date-night/${dn.id}`);
+});
 
-  const inviteId = nanoid(12);
-  const token = nanoid(22);
+app.post("/admin/date-night/:id/share/:userId/remove", requireAdmin, (req, res) => {
+  const dn = getDateNightFor(String(req.params.id), planner(res).id);
+  if (!dn) return res.redirect("/admin/dashboard");
+  if (dn.access !== "owner") {
+    setFlash(req, { type: "error", message: "Only the planner who made this date night can change sharing." });
+    return res.redirect(`/admin/date-night/${dn.id}`);
+  }
 
-  db.prepare(`
-    INSERT INTO invites (id, date_night_id, token, recipient_email, used_at, created_at)
-    VALUES (?, ?, ?, ?, NULL, ?)
-  `).run(inviteId, dateNightId, token, recipientEmail, new Date().toISOString());
+  unshareDateNight(dn.id, String(req.params.userId));
+  setFlash(req, { type: "info", message: "No longer shared with them 🌿" });
+  res.redirect(`/admin/date-night/${dn.id}`);
+});
 
-  const inviteUrl = `${baseUrl()}/invite/${token}`;
+app.post("/admin/date-night/:id/invite", requireAdmin, async (req, res) => {
+  const dateNightId = String(req.params.id);
+  const dn = getDateNightFor(dateNightId, planner(res).id);
+  if (!dn) return res.redirect("/admin/dashboard");
 
-  if (recipientEmail) {
-    try {
-      const email = renderInviteEmail({
-        title: dn.title,
-        themeName: theme.name,
-        themeBlurb: theme.blurb,
-        inviteUrl,
-      });
-      await sendEmail({ to: recipientEmail, subject: email.subject, html: email.html, text: email.text });
-      setFlash(req, { type: "info", message: "Invite created and emailed ✉️" });
-    } catch (e: any) {
-      setFlash(req, { type: "error", message: `Invite created, but email failed: ${e?.message || String(e)}` });
-    }
-  } else {
+  const created = await createInvite(dn, req.body);
+  if ("error" in created) {
+    setFlash(req, { type: "error", message: created.error });
+  } else if (!created.delivery) {
     setFlash(req, { type: "info", message: "Invite created. Copy the link and send it 💌" });
+  } else if (created.delivery.status === "sent") {
+    setFlash(req, { type: "info", message: "Invite created and emailed ✉️" });
+  } else {
+    setFlash(req, { type: "error", message: `Invite created, but email failed (will retry): ${created.delivery.lastError}` });
   }
 
   res.redirect(`/admin/date-night/${dateNightId}`);
 });
 
+/** An invite on a date night the signed-in planner can see. */
+function inviteForPlanner(res: express.Response, inviteId: string): any {
+  const inv = getDb().prepare(`SELECT * FROM invites WHERE id = ?`).get(inviteId) as any;
+  return inv && getDateNightFor(inv.date_night_id, planner(res).id) ? inv : undefined;
+}
+
 /** Re-send same invite email (same token) */
 app.post("/admin/invite/:inviteId/resend", requireAdmin, async (req, res) => {
+  const inv = inviteForPlanner(res, String(req.params.inviteId));
+  if (!inv) {
+    setFlash(req, { type: "error", message: "Invite not found or missing recipient email." });
+    return res.redirect("/admin/dashboard");
+  }
+
+  const sent = await resendInvite(inv);
+  if ("error" in sent) {
+    setFlash(req, { type: "error", message: sent.error });
+  } else if (sent.status === "sent") {
+    setFlash(req, { type: "info", message: "Invite re-sent ✉️" });
+  } else {
+    setFlash(req, { type: "error", message: `Re-send failed (will retry): ${sent.lastError}` });
+  }
+
+  res.redirect(`/admin/date-night/${inv.date_night_id}`);
+});
+
+/** Cancel an invite: its link stops working but its history stays */
+app.post("/admin/invite/:inviteId/revoke", requireAdmin, (req, res) => {
   const db = getDb();
-  const inviteId = String(req.params.inviteId);
+  const inv = inviteForPlanner(res, String(req.params.inviteId));
+  if (!inv) {
+    setFlash(req, { type: "error", message: "Invite not found." });
+    return res.redirect("/admin/dashboard");
+  }
 
-  const inv = db.prepare(`SELECT * FROM invites WHERE id = ?`).get(inviteId) as any;
-  if (!inv || !inv.recipient_email) {
-    setFlash(req, { type: "error", message: "Invite not found or missing recipient email." });
+  if (!inv.revoked_at) {
+    db.prepare(`UPDATE invites SET revoked_at = ? WHERE id = ?`).run(new Date().toISOString(), inv.id);
+  }
+  setFlash(req, { type: "info", message: "Invite revoked. That link won’t work anymore 🔒" });
+  res.redirect(`/admin/date-night/${inv.date_night_id}`);
+});
+
+/** Issue a fresh token for the same invite, optionally emailing the new link */
+app.post("/admin/invite/:inviteId/rotate", requireAdmin, async (req, res) => {
+  const db = getDb();
+  const inv = inviteForPlanner(res, String(req.params.inviteId));
+  if (!inv) {
+    setFlash(req, { type: "error", message: "Invite not found." });
     return res.redirect("/admin/dashboard");
   }
 
+  const state = inviteState(inv);
+  if (state !== "open") {
+    setFlash(req, { type: "error", message: `This invite is ${state}; create a new one instead.` });
+    return res.redirect(`/admin/date-night/${inv.date_night_id}`);
+  }
+
+  const token = nanoid(22);
+  db.prepare(`UPDATE invites SET token = ? WHERE id = ?`).run(token, inv.id);
+
+  const resend = Boolean(req.body.resend) && Boolean(inv.recipient_email);
   const dn = db.prepare(`SELECT * FROM date_nights WHERE id = ?`).get(inv.date_night_id) as any;
-  if (!dn) return res.redirect("/admin/dashboard");
+  const theme = dn ? getTheme(dn.theme_id) : undefined;
+
+  if (resend && dn && theme) {
+    const sent = await emailInvite({ ...inv, token }, dn, theme);
+    if (sent.status === "sent") {
+      setFlash(req, { type: "info", message: "New link issued and emailed ✉️ The old one no longer works." });
+    } else {
+      setFlash(req, { type: "error", message: `New link issued, but email failed (will retry): ${sent.lastError}` });
+    }
+  } else {
+    setFlash(req, { type: "info", message: "New link issued 🔁 The old one no longer works." });
+  }
 
-  const theme = getTheme(dn.theme_id);
-  if (!theme) return res.redirect(`/admin/date-night/${dn.id}`);
+  res.redirect(`/admin/date-night/${inv.date_night_id}`);
+});
 
-  const inviteUrl = `${baseUrl()}/invite/${inv.token}`;
+/** Try an outbox message again right away (same content, same recipient) */
+app.post("/admin/outbox/:id/retry", requireAdmin, async (req, res) => {
+  const db = getDb();
+  const msg = getOutboxMessage(String(req.params.id));
+  if (!msg || !msg.inviteId || !inviteForPlanner(res, msg.inviteId)) {
+    setFlash(req, { type: "error", message: "Email not found." });
+    return res.redirect("/admin/dashboard");
+  }
 
-  try {
-    const email = renderInviteEmail({
-      title: dn.title,
-      themeName: theme.name,
-      themeBlurb: theme.blurb,
-      inviteUrl,
-    });
-    await sendEmail({ to: inv.recipient_email, subject: email.subject, html: email.html, text: email.text });
-    setFlash(req, { type: "info", message: "Invite re-sent ✉️" });
-  } catch (e: any) {
-    setFlash(req, { type: "error", message: `Re-send failed: ${e?.message || String(e)}` });
+  const result = await retryNow(msg.id);
+  if (result?.status === "sent") {
+    setFlash(req, { type: "info", message: "Email sent ✉️" });
+  } else {
+    setFlash(req, { type: "error", message: `Still failing: ${result?.lastError || "unknown error"}` });
   }
 
-  res.redirect(`/admin/date-night/${dn.id}`);
+  const inv = msg.inviteId
+    ? db.prepare(`SELECT date_night_id FROM invites WHERE id = ?`).get(msg.inviteId) as any
+    : null;
+  res.redirect(inv ? `/admin/date-night/${inv.date_night_id}` : "/admin/dashboard");
+});
+
+app.get("/admin/date-night/:id/calendar.ics", requireAdmin, (req, res) => {
+  const dn = getDateNightFor(String(req.params.id), planner(res).id);
+  const ics = dn ? dateNightIcs(dn, { description: dn.blurb || undefined }) : null;
+  if (!ics) return res.status(404).send("No date set for this date night yet.");
+
+  res.type("text/calendar; charset=utf-8");
+  res.setHeader("Content-Disposition", `attachment; filename="date-night-${dn.id}.ics"`);
+  res.send(ics);
 });
 
 /** Invite page */
@@ -382,7 +1030,8 @@ app.get("/invite/:token", async (req, res) => {
 
   
   const theme = getTheme(dn.theme_id); // still used for name (optional)
-  const menu = safeParseMenuJson(dn.menu_json);
+  const menu = parseMenu(dn.menu_json);
+  const offered = menuWithinBudget(menu, dn.max_option_cost);
   if (!theme) {
     return renderPage(req, res, {
       title: "Invite error",
@@ -392,101 +1041,523 @@ app.get("/invite/:token", async (req, res) => {
     });
   }
 
+  const state = inviteState(inv);
+  const selection = inv.used_at ? db.prepare(`SELECT * FROM selections WHERE invite_id = ?`).get(inv.id) as any : null;
+  const canChange = state === "used" && Boolean(selection) && !picksLocked(dn);
+  const locale = inv.locale;
+  const picks = selection ? parsePicks(selection.picks_json) : {};
+  // Surprise mode: only teasers reach the page until the reveal.
+  const tz = surpriseHidden(dn) ? teasers(menu, locale) : null;
+  const tally = selection && parseGroupSettings(dn.group_json)?.showTally ? groupTally(dn) : null;
+
+  const opened = db.prepare(`UPDATE invites SET opened_at = ? WHERE id = ? AND opened_at IS NULL`).run(new Date().toISOString(), inv.id);
+  if (opened.changes) {
+    const invite = db.prepare(`SELECT * FROM invites WHERE id = ?`).get(inv.id);
+    emitEvent("invite.opened", dn, { dateNight: dateNightPayload(dn), invite: { ...invitePayload(invite), state } });
+  }
+
   await renderPage(req, res, {
-    title: `Invite • ${dn.title}`,
+    title: t(locale, "invite.pageTitle", { title: dn.title }),
     view: "invite",
-    locals: { token, dateNight: dn, themeName: theme.name, menu, used: Boolean(inv.used_at) },
+    locale,
+    locals: {
+      token,
+      dateNight: dn,
+      themeName: theme.name,
+      menu: tz ? maskMenu(offered, tz) : offered,
+      state,
+      selection,
+      picks: tz ? maskPicks(picks, tz) : picks,
+      pickLines: selection ? partnerPickLines(dn, menu, picks, locale) : [],
+      surpriseText: tz ? revealText(dn, locale) : null,
+      modeHint: (c: MenuCategory) => modeHint(c, locale),
+      optionFacts: (c: MenuCategory, option: string) => optionFacts(c.details?.[option], locale),
+      suggestions: listSuggestionsForInvite(inv.id).map(sg => ({
+        ...sg,
+        label: menu.categories.find(c => c.key === sg.categoryKey)?.label ?? sg.categoryKey,
+      })),
+      canChange,
+      // Only once they've voted, so the tally can't sway their own picks.
+      tally: tally && tz ? maskTally(tally, tz) : tally,
+      finalPlanSent: Boolean(dn.final_plan_sent_at),
+      datePoll: datePollOpen(dn)
+        ? {
+            slots: parseDateSlots(dn.date_slots_json).map(s => ({
+              key: slotKey(s),
+              whenText: slotWhen({ ...s, startTime: s.startTime ?? dn.start_time }, locale),
+            })),
+            mine: availabilityFor(inv.id),
+          }
+        : null,
+      // Other invitees stay anonymous; planners are named.
+      memories: state !== "revoked" && !tz && memoriesOpen(dn)
+        ? memoriesCard(dn, {
+            action: `/invite/${token}`,
+            isMine: m => m.inviteId === inv.id,
+            label: m => (m.userId && m.authorName) || t(locale, "memories.guest"),
+            removeAnyPhoto: false,
+          })
+        : null,
+      lockInText: dn.lock_in_at ? formatInstant(dn.lock_in_at, locale, dn.time_zone) : null,
+      whenText: formatWhen(dn, locale),
+      locales: LOCALES,
+    },
+    status: state === "expired" || state === "revoked" ? 410 : undefined,
   });
 });
 
-app.post("/invite/:token", async (req, res) => {
+app.get("/invite/:token/calendar.ics", (req, res) => {
   const db = getDb();
   const token = String(req.params.token);
-
   const inv = db.prepare(`SELECT * FROM invites WHERE token = ?`).get(token) as any;
-  if (!inv) {
-    setFlash(req, { type: "error", message: "That invite doesn’t exist." });
-    return res.redirect(`/invite/${token}`);
-  }
-  if (inv.used_at) {
-    setFlash(req, { type: "error", message: "This invite was already used." });
-    return res.redirect(`/invite/${token}`);
-  }
+  if (!inv || inviteState(inv) === "revoked") return res.status(404).send("Invite not found.");
 
   const dn = db.prepare(`SELECT * FROM date_nights WHERE id = ?`).get(inv.date_night_id) as any;
-  if (!dn) return res.redirect(`/invite/${token}`);
-
-  const theme = getTheme(dn.theme_id); // still used for name (optional)
-  const menu = safeParseMenuJson(dn.menu_json);
-  if (!theme) return res.redirect(`/invite/${token}`);
-
-  const dinner = String(req.body.dinnerChoice || "").trim();
-  const activity = String(req.body.activityChoice || "").trim();
-  const mood = String(req.body.moodChoice || "").trim();
-  const notes = String(req.body.notes || "").trim() || null;
+  const ics = dn ? dateNightIcs(dn, { description: partnerBlurb(dn, dn.blurb, inv.locale) || undefined, url: `${baseUrl()}/invite/${token}` }) : null;
+  if (!ics) return res.status(404).send("No date set yet.");
 
-  const valid =
-    menu.dinner.includes(dinner) &&
-    menu.activity.includes(activity) &&
-    menu.mood.includes(mood);
+  res.type("text/calendar; charset=utf-8");
+  res.setHeader("Content-Disposition", `attachment; filename="date-night.ics"`);
+  res.send(ics);
+});
 
-  if (!valid) {
-    setFlash(req, { type: "error", message: "One or more choices were invalid. Please try again." });
-    return res.redirect(`/invite/${token}`);
+/** The partner's itinerary: a countdown while it's a surprise, then the real picks and blurb. */
+app.get("/invite/:token/plan", async (req, res) => {
+  const db = getDb();
+  const token = String(req.params.token);
+  const inv = db.prepare(`SELECT * FROM invites WHERE token = ?`).get(token) as any;
+  const dn = inv ? db.prepare(`SELECT * FROM date_nights WHERE id = ?`).get(inv.date_night_id) as any : null;
+  if (!inv || !dn || inviteState(inv) === "revoked") {
+    return renderPage(req, res, {
+      title: "Invite not found",
+      view: "thanks",
+      locale: inv?.locale,
+      flash: { type: "error", message: "That invite link doesn’t seem to exist." },
+      status: 404,
+    });
   }
 
-  const now = new Date().toISOString();
-  db.prepare(`
-    INSERT INTO selections (id, invite_id, dinner_choice, activity_choice, mood_choice, notes, created_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
-  `).run(nanoid(12), inv.id, dinner, activity, mood, notes, now);
-
-  db.prepare(`UPDATE invites SET used_at = ? WHERE id = ?`).run(now, inv.id);
+  const locale = inv.locale;
+  const theme = getTheme(dn.theme_id);
+  const menu = parseMenu(dn.menu_json);
+  const selection = db.prepare(`SELECT * FROM selections WHERE invite_id = ?`).get(inv.id) as any;
+  const surprise = surpriseHidden(dn);
 
-  // Email planner
-  const pe = plannerEmail();
-  const inviteUrl = `${baseUrl()}/invite/${token}`;
+  await renderPage(req, res, {
+    title: t(locale, "plan.pageTitle", { title: dn.title }),
+    view: "plan",
+    locale,
+    locals: {
+      token,
+      dateNight: { title: dn.title, location: dn.location },
+      themeName: theme?.name ?? "",
+      whenText: formatWhen(dn, locale),
+      surprise,
+      revealText: revealText(dn, locale),
+      secondsLeft: surprise ? Math.ceil((Date.parse(dn.reveal_at) - Date.now()) / 1000) : 0,
+      revealed: Boolean(dn.reveal_at) && !surprise,
+      blurb: surprise ? null : dn.blurb || theme?.blurb || null,
+      pickLines: selection ? partnerPickLines(dn, menu, parsePicks(selection.picks_json), locale) : null,
+    },
+  });
+});
 
-  if (pe) {
-    try {
-      const email = renderPlannerEmail({
-        title: dn.title,
-        themeName: theme.name,
-        inviteUrl,
-        dinner,
-        activity,
-        mood,
-        notes,
-      });
-      await sendEmail({ to: pe, subject: email.subject, html: email.html, text: email.text });
-    } catch (e) {
-      console.error("Planner email failed", e);
+/** The partner's own choice of language; later emails for this invite use it too. */
+app.post("/invite/:token/language", (req, res) => {
+  const token = String(req.params.token);
+  const locale = parseLocale(req.body.locale);
+  const inv = getDb().prepare(`SELECT * FROM invites WHERE token = ?`).get(token) as any;
+  if (inv && locale && inviteState(inv) !== "revoked") {
+    getDb().prepare(`UPDATE invites SET locale = ? WHERE id = ?`).run(locale, inv.id);
+    setFlash(req, { type: "info", message: t(locale, "invite.languageChanged") });
+  }
+  res.redirect(`/invite/${token}`);
+});
+
+app.post("/invite/:token", async (req, res) => {
+  const db = getDb();
+  const token = String(req.params.token);
+
+  const inv = db.prepare(`SELECT * FROM invites WHERE token = ?`).get(token) as any;
+  if (!inv) {
+    setFlash(req, { type: "error", message: "That invite doesn’t exist." });
+    return res.redirect(`/invite/${token}`);
+  }
+  const dn = db.prepare(`SELECT * FROM date_nights WHERE id = ?`).get(inv.date_night_id) as any;
+  if (!dn) return res.redirect(`/invite/${token}`);
+
+  const state = inviteState(inv);
+  const changing = state === "used" && !picksLocked(dn);
+  if (state !== "open" && !changing) {
+    // The invite page explains used, expired and revoked states itself.
+    return res.redirect(`/invite/${token}`);
+  }
+
+  const theme = getTheme(dn.theme_id); // still used for name (optional)
+  const menu = parseMenu(dn.menu_json);
+  if (!theme) return res.redirect(`/invite/${token}`);
+
+  const planners = plannerRecipients(dn);
+  // Write-ins are kept even when the picks need fixing; planners hear about them in their own email.
+  const suggestions = recordSuggestions(inv.id, menu, req.body.suggest);
+  if (suggestions.length) {
+    const email = renderPlannerSuggestionEmail({
+      title: dn.title,
+      themeName: theme.name,
+      suggestions: suggestions.map(sg => ({ label: menu.categories.find(c => c.key === sg.categoryKey)?.label ?? sg.categoryKey, text: sg.text })),
+      reviewUrl: `${baseUrl()}/admin/date-night/${dn.id}#suggestions`,
+    });
+    for (const to of planners) await queueEmail({ kind: "planner_suggestion", inviteId: inv.id, to, ...email });
+  }
+
+  // "Just send my ideas" leaves the picks alone (a pick-one category always has one ticked).
+  if (req.body.action === "suggest") {
+    setFlash(req, suggestions.length
+      ? { type: "info", message: t(inv.locale, "invite.suggestionSent") }
+      : { type: "error", message: t(inv.locale, "invite.noSuggestion") });
+    return res.redirect(`/invite/${token}`);
+  }
+
+  const notes = String(req.body.notes || "").trim() || null;
+  // Surprise picks come back as teasers.
+  const rawPicks = surpriseHidden(dn) ? unmaskPicks(req.body.picks, teasers(menu, inv.locale)) : req.body.picks;
+  const checked = validatePicks(menuWithinBudget(menu, dn.max_option_cost), rawPicks, inv.locale);
+  if ("error" in checked) {
+    setFlash(req, { type: "error", message: checked.error });
+    return res.redirect(`/invite/${token}`);
+  }
+  const picks = checked.picks;
+  const picksJson = JSON.stringify(picks);
+
+  const inviteUrl = `${baseUrl()}/invite/${token}`;
+  const now = new Date().toISOString();
+  const insertRevision = db.prepare(`
+    INSERT INTO selection_revisions (id, selection_id, picks_json, notes, created_at)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+
+  // Answers to the date poll are saved alongside; the planner reads them on the date night's page.
+  const availabilityChanged = datePollOpen(dn) && recordAvailability(dn, inv.id, req.body.availability);
+
+  if (changing) {
+    const prev = db.prepare(`SELECT * FROM selections WHERE invite_id = ?`).get(inv.id) as any;
+    if (!prev) return res.redirect(`/invite/${token}`);
+
+    const unchanged = prev.picks_json === picksJson && (prev.notes || null) === notes;
+    if (unchanged && availabilityChanged) {
+      setFlash(req, { type: "info", message: t(inv.locale, "invite.updated") });
+      return res.redirect(`/invite/${token}`);
     }
-  } else {
-    console.log("[planner-email:missing] Set PLANNER_EMAIL to receive selections.");
+    if (unchanged) {
+      setFlash(req, { type: "info", message: t(inv.locale, suggestions.length ? "invite.suggestionSent" : "invite.nothingChanged") });
+      return res.redirect(`/invite/${token}`);
+    }
+
+    db.transaction(() => {
+      // Selections made before revisions were tracked get their original picks recorded first.
+      const hasHistory = db.prepare(`SELECT 1 FROM selection_revisions WHERE selection_id = ?`).get(prev.id);
+      if (!hasHistory) {
+        insertRevision.run(nanoid(12), prev.id, prev.picks_json, prev.notes, prev.created_at);
+      }
+      db.prepare(`UPDATE selections SET picks_json = ?, notes = ?, updated_at = ? WHERE id = ?`)
+        .run(picksJson, notes, now, prev.id);
+      insertRevision.run(nanoid(12), prev.id, picksJson, notes, now);
+    })();
+    refreshChecklist(dn);
+    emitEvent("selection.updated", dn, {
+      dateNight: dateNightPayload(dn),
+      invite: invitePayload(inv),
+      previous: { picks: parsePicks(prev.picks_json), notes: prev.notes },
+      picks,
+      notes,
+    });
+
+    const email = renderPlannerUpdateEmail({
+      title: dn.title,
+      themeName: theme.name,
+      inviteUrl,
+      previous: { picks: describePicks(menu, parsePicks(prev.picks_json)), notes: prev.notes },
+      current: { picks: describePicks(menu, picks), notes },
+    });
+    for (const to of planners) await queueEmail({ kind: "planner_update", inviteId: inv.id, to, ...email });
+    await sendFinalPlanIfReady(dn, finalPlans);
+
+    setFlash(req, { type: "info", message: t(inv.locale, "invite.updated") });
+    return res.redirect(`/invite/${token}`);
   }
 
+  const selectionId = nanoid(12);
+  const saved = db.transaction(() => {
+    const inserted = db.prepare(`
+      INSERT INTO selections (id, invite_id, picks_json, notes, created_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (invite_id) DO NOTHING
+    `).run(selectionId, inv.id, picksJson, notes, now);
+    if (!inserted.changes) return false;
+    insertRevision.run(nanoid(12), selectionId, picksJson, notes, now);
+
+    db.prepare(`UPDATE invites SET used_at = ? WHERE id = ?`).run(now, inv.id);
+    return true;
+  })();
+  // A double-click or retried submit: the first request already saved the picks and told everyone.
+  if (!saved) return res.redirect(`/invite/${token}`);
+  refreshChecklist(dn);
+  emitEvent("selection.submitted", dn, { dateNight: dateNightPayload(dn), invite: { ...invitePayload(inv), usedAt: now }, picks, notes });
+  const checklist = checklistView(dn, listPrepItems(dn.id));
+
+  // Email planner
+  const availability = datePollOpen(dn) ? describeAvailability(dn, inv.id) : null;
+  const plannerNote = renderPlannerEmail({
+    themeId: theme.id,
+    title: dn.title,
+    themeName: theme.name,
+    blurb: dn.blurb || theme.blurb,
+    inviteUrl,
+    picks: [...describePicks(menu, picks), ...(availability ? [{ label: "When works", value: availability }] : [])],
+    notes,
+    checklist: {
+      tasks: checklist.tasks.map(t => ({ text: t.text, due: t.dueText })),
+      shopping: checklist.shopping.map(i => ({ item: i.text, forOptions: i.forOptions.join(", ") })),
+      url: `${baseUrl()}/admin/date-night/${dn.id}#prep`,
+    },
+  });
+  for (const to of planners) await queueEmail({ kind: "planner", inviteId: inv.id, to, ...plannerNote });
+
   // Email partner confirmation (only if we know their email on the invite)
   if (inv.recipient_email) {
-    try {
-      const email = renderPartnerConfirmationEmail({ title: dn.title, themeName: theme.name });
-      await sendEmail({ to: inv.recipient_email, subject: email.subject, html: email.html, text: email.text });
-    } catch (e) {
-      console.error("Partner confirmation email failed", e);
-    }
+    const partnerPicks = partnerPickLines(dn, menu, picks, inv.locale);
+    const blurb = partnerBlurb(dn, dn.blurb || theme.blurb, inv.locale);
+    const ics = dateNightIcs(dn, {
+      description: [blurb, ...partnerPicks.map(p => `${p.label}: ${p.value}`)].filter(Boolean).join("\n"),
+      url: inviteUrl,
+    });
+    const email = renderPartnerConfirmationEmail({
+      themeId: theme.id,
+      title: dn.title,
+      themeName: theme.name,
+      blurb,
+      inviteUrl,
+      whenText: formatWhen(dn, inv.locale),
+      picks: partnerPicks,
+      notes,
+      locale: inv.locale,
+    });
+    await queueEmail({
+      kind: "partner_confirmation",
+      inviteId: inv.id,
+      to: inv.recipient_email,
+      ...email,
+      attachments: ics ? [{ filename: "date-night.ics", content: ics, contentType: "text/calendar; charset=utf-8; method=PUBLISH" }] : undefined,
+    });
   }
 
-  await renderPage(req, res, { title: "Thanks • Date Night Cottage", view: "thanks" });
+  await sendFinalPlanIfReady(dn, finalPlans);
+
+  await renderPage(req, res, {
+    title: t(inv.locale, "thanks.pageTitle"),
+    view: "thanks",
+    locale: inv.locale,
+    locals: { planUrl: `/invite/${token}/plan` },
+  });
 });
 
 
-app.get("/admin/date-night/:id/menu", requireAdmin, async (req, res) => {
+app.post("/admin/date-night/:id/suggestions/:suggestionId", requireAdmin, async (req, res) => {
+  const id = String(req.params.id);
+  const dn = getDateNightFor(id, planner(res).id);
+  if (!dn) return res.redirect("/admin/dashboard");
+
+  const suggestionId = String(req.params.suggestionId);
+  const reply = String(req.body.reply || "").trim().slice(0, 500) || null;
+  const action = String(req.body.action || "");
+  if (action === "theme") {
+    const added = addSuggestionToTheme(dn, suggestionId, planner(res));
+    setFlash(req, "error" in added
+      ? { type: "error", message: added.error }
+      : { type: "info", message: `Added to “${added.themeName}” for future date nights 🌼` });
+    return res.redirect(`/admin/date-night/${id}#suggestions`);
+  }
+
+  const result = action === "accept"
+    ? await acceptSuggestion(dn, suggestionId, reply)
+    : action === "decline" ? await declineSuggestion(dn, suggestionId, reply) : { error: "Please accept or decline." };
+  setFlash(req, "error" in result
+    ? { type: "error", message: result.error }
+    : { type: "info", message: action === "accept" ? "Added to the menu and their picks 💛" : "Suggestion declined 🌿" });
+  res.redirect(`/admin/date-night/${id}#suggestions`);
+});
+
+app.post("/admin/date-night/:id/tie-break", requireAdmin, async (req, res) => {
+  const id = String(req.params.id);
+  const dn = getDateNightFor(id, planner(res).id);
+  if (!dn) return res.redirect("/admin/dashboard");
+
+  const result = breakTie(dn, String(req.body.category || ""), String(req.body.option || ""));
+  if ("error" in result) {
+    setFlash(req, { type: "error", message: result.error });
+  } else {
+    await sendFinalPlanIfReady(getDateNightFor(id, planner(res).id), finalPlans);
+    setFlash(req, { type: "info", message: "Tie broken ⚖️" });
+  }
+  res.redirect(`/admin/date-night/${id}#group`);
+});
+
+/** Sends the final plan now, even if some haven't voted; also re-sends it after votes changed. */
+app.post("/admin/date-night/:id/final-plan", requireAdmin, async (req, res) => {
+  const id = String(req.params.id);
+  const dn = getDateNightFor(id, planner(res).id);
+  if (!dn) return res.redirect("/admin/dashboard");
+
+  const result = await sendFinalPlan(dn, finalPlans, { force: true });
+  setFlash(req, "error" in result
+    ? { type: "error", message: result.error }
+    : { type: "info", message: "Final plan sent to everyone ✨" });
+  res.redirect(`/admin/date-night/${id}#group`);
+});
+
+app.post("/admin/date-night/:id/prep/:itemId", requireAdmin, (req, res) => {
+  const id = String(req.params.id);
+  if (!getDateNightFor(id, planner(res).id)) return res.redirect("/admin/dashboard");
+  setPrepItemDone(id, String(req.params.itemId), req.body.done === "1");
+  res.redirect(`/admin/date-night/${id}#prep`);
+});
+
+/** Images are posted as the raw file by the page scripts, which expect JSON back even when it fails. */
+const imageBody = express.raw({ type: IMAGE_CONTENT_TYPES, limit: MAX_IMAGE_BYTES });
+function readImage(req: express.Request, res: express.Response, next: express.NextFunction) {
+  imageBody(req, res, (err?: any) => {
+    if (!err) return next();
+    const tooBig = err.type === "entity.too.large";
+    res.status(tooBig ? 413 : 400).json({ error: tooBig ? "That image is too big (5 MB at most)." : "That upload didn’t come through." });
+  });
+}
+
+/** Photos for menu options, posted by the menu editor; answers with the path to store. */
+app.post("/admin/uploads", requireAdmin, readImage, (req, res) => {
+  const saved = saveImageUpload(Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0), req.get("Content-Type") || "");
+  if ("error" in saved) return res.status(400).json(saved);
+  res.status(201).json({ path: saved.path });
+});
+
+/** Memories: planners write theirs from the date night page, partners from their invite page. */
+app.post("/admin/date-night/:id/memories", requireAdmin, (req, res) => {
+  const id = String(req.params.id);
+  const dn = getDateNightFor(id, planner(res).id);
+  if (!dn) return res.redirect("/admin/dashboard");
+  if (!memoriesOpen(dn)) {
+    setFlash(req, { type: "error", message: "Memories open once the date night has started 🌙" });
+    return res.redirect(`/admin/date-night/${id}`);
+  }
+
+  const input = memoryFromBody(dn, req.body);
+  if ("error" in input) {
+    setFlash(req, { type: "error", message: input.error });
+  } else {
+    saveMemory(dn, { userId: planner(res).id }, input);
+    setFlash(req, { type: "info", message: "Memories saved 💛" });
+  }
+  res.redirect(`/admin/date-night/${id}#memories`);
+});
+
+app.post("/admin/date-night/:id/photos", requireAdmin, readImage, (req, res) => {
+  const dn = getDateNightFor(String(req.params.id), planner(res).id);
+  if (!dn) return res.status(404).json({ error: "Date night not found." });
+  if (!memoriesOpen(dn)) return res.status(409).json({ error: "Memories open once the date night has started 🌙" });
+
+  const added = addPhoto(dn, { userId: planner(res).id }, Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0), req.get("Content-Type") || "");
+  if ("error" in added) return res.status(400).json(added);
+  res.status(201).json(added);
+});
+
+/** Planners can take down anyone's photo on their date night. */
+app.post("/admin/date-night/:id/photos/:photoId/delete", requireAdmin, (req, res) => {
+  const id = String(req.params.id);
+  const dn = getDateNightFor(id, planner(res).id);
+  if (!dn) return res.redirect("/admin/dashboard");
+  if (deletePhoto(dn, String(req.params.photoId))) setFlash(req, { type: "info", message: "Photo removed." });
+  res.redirect(`/admin/date-night/${id}#memories`);
+});
+
+/** The invite and date night behind a partner's memories, once the date night has started. */
+function inviteForMemories(token: string): { inv: any; dn: any } | null {
   const db = getDb();
+  const inv = db.prepare(`SELECT * FROM invites WHERE token = ?`).get(token) as any;
+  if (!inv || inviteState(inv) === "revoked") return null;
+  const dn = db.prepare(`SELECT * FROM date_nights WHERE id = ?`).get(inv.date_night_id) as any;
+  return dn && memoriesOpen(dn) ? { inv, dn } : null;
+}
+
+app.post("/invite/:token/memories", (req, res) => {
+  const token = String(req.params.token);
+  const found = inviteForMemories(token);
+  if (!found) return res.redirect(`/invite/${token}`);
+
+  const input = memoryFromBody(found.dn, req.body, found.inv.locale);
+  if ("error" in input) {
+    setFlash(req, { type: "error", message: input.error });
+  } else {
+    saveMemory(found.dn, { inviteId: found.inv.id }, input);
+    setFlash(req, { type: "info", message: t(found.inv.locale, "memories.saved") });
+  }
+  res.redirect(`/invite/${token}#memories`);
+});
+
+app.post("/invite/:token/photos", readImage, (req, res) => {
+  const found = inviteForMemories(String(req.params.token));
+  if (!found) return res.status(404).json({ error: t(null, "memories.notOpen") });
+
+  const { inv, dn } = found;
+  const added = addPhoto(dn, { inviteId: inv.id }, Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0), req.get("Content-Type") || "", inv.locale);
+  if ("error" in added) return res.status(400).json(added);
+  res.status(201).json(added);
+});
+
+app.post("/invite/:token/photos/:photoId/delete", (req, res) => {
+  const token = String(req.params.token);
+  const found = inviteForMemories(token);
+  if (found && deletePhoto(found.dn, String(req.params.photoId), { inviteId: found.inv.id })) {
+    setFlash(req, { type: "info", message: t(found.inv.locale, "memories.photoRemoved") });
+  }
+  res.redirect(`/invite/${token}#memories`);
+});
+
+/** Every date night that has happened, newest first, with what was chosen and what everyone remembered. */
+app.get("/admin/memories", requireAdmin, async (req, res) => {
+  const dateNights = listDateNightsFor(planner(res).id)
+    .filter(dn => memoriesOpen(dn))
+    .sort((a, b) => dateNightStartsAt(b)!.getTime() - dateNightStartsAt(a)!.getTime())
+    .map(dn => {
+      const memories = listMemories(dn.id);
+      const ratingsOf = (key: string, option: string) =>
+        memories.flatMap(m => m.optionRatings.filter(r => r.categoryKey === key && r.option === option).map(r => r.rating));
+      return {
+        id: dn.id,
+        title: dn.title,
+        dateText: formatWhen(dn),
+        rating: averageRating(memories.map(m => m.rating)),
+        chosen: chosenOptions(dn).map(c => ({
+          ...c,
+          options: c.options.map(o => ({ option: o, rating: averageRating(ratingsOf(c.key, o)) })),
+        })),
+        memories: memories.filter(m => m.rating || m.reflection).map(m => ({ ...m, label: m.authorName ?? "A guest" })),
+        photos: memories.flatMap(m => m.photos),
+      };
+    });
+
+  await renderPage(req, res, {
+    title: "Memories • Date Night Cottage",
+    view: "admin_memories",
+    locals: { dateNights },
+    admin: true,
+  });
+});
+
+app.get("/admin/date-night/:id/menu", requireAdmin, async (req, res) => {
   const id = String(req.params.id);
-  const dn = db.prepare(`SELECT * FROM date_nights WHERE id = ?`).get(id) as any;
+  const dn = getDateNightFor(id, planner(res).id);
   if (!dn) return res.redirect("/admin/dashboard");
 
-  const menu = safeParseMenuJson(dn.menu_json);
+  const menu = parseMenu(dn.menu_json);
 
   await renderPage(req, res, {
     title: `Edit itinerary • ${dn.title}`,
@@ -495,51 +1566,494 @@ app.get("/admin/date-night/:id/menu", requireAdmin, async (req, res) => {
     locals: {
       dateNight: dn,
       blurb: dn.blurb,
-      dinnerText: menu.dinner.join("\n"),
-      activityText: menu.activity.join("\n"),
-      moodText: menu.mood.join("\n"),
+      categories: menu.categories,
+      optionTags: OPTION_TAGS,
+      formatTaskLine,
+      optionRatings: optionRatingsFor(res),
+      maxOptionCost: dn.max_option_cost,
+      lockInLocal: toDateTimeLocal(dn.lock_in_at, dn.time_zone),
+      revealLocal: toDateTimeLocal(dn.reveal_at, dn.time_zone),
+      timeZone: dn.time_zone || "",
+      timeZones: Intl.supportedValuesOf("timeZone"),
+      serverTimeZone: serverTimeZone(),
+      reminders: parseReminderRules(dn.reminder_rules_json),
+      group: parseGroupSettings(dn.group_json),
+      resolutionRules: RESOLUTION_RULES,
+      dateSlots: parseDateSlots(dn.date_slots_json),
     },
   });
 });
 
 
 app.post("/admin/date-night/:id/menu", requireAdmin, (req, res) => {
-  const db = getDb();
   const id = String(req.params.id);
+  const dn = getDateNightFor(id, planner(res).id);
+  if (!dn) return res.redirect("/admin/dashboard");
+
+  // The itinerary form doesn't edit the title, so it is carried over.
+  const itinerary = itineraryFromBody({ ...req.body, title: dn.title });
+  if ("error" in itinerary) {
+    setFlash(req, { type: "error", message: itinerary.error });
+    return res.redirect(`/admin/date-night/${id}/menu`);
+  }
+
+  saveItinerary(dn, itinerary);
+
+  setFlash(req, { type: "info", message: "Itinerary saved 🌼" });
+  res.redirect(`/admin/date-night/${id}`);
+});
 
-  const dn = db.prepare(`SELECT * FROM date_nights WHERE id = ?`).get(id) as any;
+/** "Surprise me": a proposed menu the planner can pin, reroll and save (see `menu_generator.ts`). */
+async function renderGenerator(
+  req: express.Request,
+  res: express.Response,
+  dn: any,
+  categories: ProposedCategory[],
+  opts: { flash?: Flash; status?: number } = {}
+) {
+  await renderPage(req, res, {
+    title: `Surprise me • ${dn.title}`,
+    view: "admin_generate_menu",
+    admin: true,
+    locals: { dateNight: dn, categories, hasAnswers: dateNightHasAnswers(dn.id) },
+    flash: opts.flash,
+    status: opts.status,
+  });
+}
+
+function dateNightHasAnswers(dateNightId: string) {
+  return Boolean(getDb().prepare(`
+    SELECT 1 FROM selections s JOIN invites i ON i.id = s.invite_id WHERE i.date_night_id = ? AND i.revoked_at IS NULL LIMIT 1
+  `).get(dateNightId));
+}
+
+app.get("/admin/date-night/:id/generate", requireAdmin, async (req, res) => {
+  const id = String(req.params.id);
+  const dn = getDateNightFor(id, planner(res).id);
   if (!dn) return res.redirect("/admin/dashboard");
 
-  const dinner = parseLines(String(req.body.dinner || ""));
-  const activity = parseLines(String(req.body.activity || ""));
-  const mood = parseLines(String(req.body.mood || ""));
-  const blurb = String(req.body.blurb || "").trim() || null;
+  const pool = generatorPool(dn);
+  if (!pool) {
+    setFlash(req, { type: "error", message: "This date night’s theme is gone, so there’s nothing to draw from." });
+    return res.redirect(`/admin/date-night/${id}/menu`);
+  }
+  await renderGenerator(req, res, dn, proposeMenu(pool, menuHistory(planner(res).id, dn.id)));
+});
+
+/**
+ * The generator form posts what's on screen (`current[key][]`) and what's pinned (`pinned[key][]`),
+ * then either saves it (`action=save`), rerolls everything unpinned (`action=reroll`) or rerolls a
+ * single option (`reroll=<key>:<index>`). Once partners have picked, saving also needs `replace=1`.
+ */
+app.post("/admin/date-night/:id/generate", requireAdmin, async (req, res) => {
+  const id = String(req.params.id);
+  const dn = getDateNightFor(id, planner(res).id);
+  if (!dn) return res.redirect("/admin/dashboard");
 
-  if (dinner.length === 0 || activity.length === 0 || mood.length === 0) {
-    setFlash(req, { type: "error", message: "Please provide at least 1 option in each section." });
+  const pool = generatorPool(dn);
+  if (!pool) {
+    setFlash(req, { type: "error", message: "This date night’s theme is gone, so there’s nothing to draw from." });
     return res.redirect(`/admin/date-night/${id}/menu`);
   }
 
-  const menuJson = JSON.stringify({ dinner, activity, mood });
+  const current = optionListsFromBody(pool, req.body.current);
+  const pinned = optionListsFromBody(pool, req.body.pinned);
+  const history = menuHistory(planner(res).id, dn.id);
+  const sizes = Object.fromEntries(Object.entries(current).map(([key, options]) => [key, options.length]));
+  if (req.body.action === "save") {
+    if (req.body.replace !== "1" && dateNightHasAnswers(dn.id)) {
+      return renderGenerator(req, res, dn, proposeMenu(pool, history, { keep: current, pinned, sizes }), {
+        flash: { type: "error", message: "Partners have already picked from this menu — tick the box to replace it anyway." },
+        status: 409,
+      });
+    }
+    const menu = menuFromChoice(pool, current, parseMenu(dn.menu_json));
+    if (!menu.categories.length) {
+      setFlash(req, { type: "error", message: "Keep at least one option on the menu." });
+      return res.redirect(`/admin/date-night/${id}/generate`);
+    }
+    saveGeneratedMenu(dn, menu);
+    setFlash(req, { type: "info", message: "Menu saved ✨ Tweak anything else here before sending invites." });
+    return res.redirect(`/admin/date-night/${id}/menu`);
+  }
 
-  db.prepare(`UPDATE date_nights SET menu_json = ?, blurb = ? WHERE id = ?`)
-    .run(menuJson, blurb, id);
+  const single = /^(.+):(\d+)$/.exec(String(req.body.reroll ?? ""));
+  const target = single ? current[single[1]]?.[Number(single[2])] : undefined;
+  const proposal = target
+    ? proposeMenu(pool, history, {
+        keep: { ...current, [single![1]]: current[single![1]].filter(o => o !== target) },
+        pinned,
+        avoid: { [single![1]]: [target] },
+        sizes,
+      })
+    : proposeMenu(pool, history, {
+        keep: pinned,
+        pinned,
+        avoid: Object.fromEntries(Object.entries(current).map(([key, options]) => [key, options.filter(o => !pinned[key]?.includes(o))])),
+        sizes,
+      });
+  await renderGenerator(req, res, dn, proposal);
+});
 
-  setFlash(req, { type: "info", message: "Itinerary saved 🌼" });
-  res.redirect(`/admin/date-night/${id}`);
+/** Themes */
+function themeFormInput(body: any): { name: string; blurb: string; options: Menu } | { error: string } {
+  const name = String(body.name || "").trim();
+  if (!name) return { error: "Please give the theme a name." };
+
+  const parsed = menuFromForm(body.categories);
+  if ("error" in parsed) return parsed;
+
+  return { name, blurb: String(body.blurb || "").trim(), options: parsed.menu };
+}
+
+function templateKind(raw: unknown): EmailTemplateKind | undefined {
+  return EMAIL_TEMPLATE_KINDS.find(k => k.kind === raw)?.kind;
+}
+
+/** Sample values for previews, drawn from the theme's own menu where there is one. */
+function sampleTemplateVars(theme: Theme | undefined): EmailTemplateVars {
+  const sample = theme ?? BUILTIN_THEMES[0];
+  return {
+    title: "Cozy Cottage Night",
+    themeName: sample.name,
+    blurb: sample.blurb,
+    inviteUrl: `${baseUrl()}/invite/sample-invite-link`,
+    whenText: "November 6, 2026 at 19:00",
+    notes: "Something warm, please <3",
+    picks: describePicks(sample.options, Object.fromEntries(sample.options.categories.map(c => [c.key, c.options.slice(0, 1)]))),
+    tasks: [{ text: "Buy fresh bread", due: "November 6, 2026 at 9:00 AM" }, { text: "Chill the wine", due: "November 6, 2026 at 5:00 PM" }],
+    shopping: [{ item: "Sourdough loaf", forOptions: sample.options.categories[0]?.options[0] ?? "dinner" }],
+    checklistUrl: `${baseUrl()}/admin/date-night/sample#prep`,
+  };
+}
+
+async function renderTemplateEditor(req: express.Request, res: express.Response, opts: {
+  kind: EmailTemplateKind;
+  theme: Theme | undefined;
+  template: EmailTemplate;
+  source: "theme" | "global" | "default" | "unsaved";
+  error?: string | null;
+  status?: number;
+}) {
+  const preview = opts.error ? null : renderTemplate(opts.template, sampleTemplateVars(opts.theme));
+  await renderPage(req, res, {
+    title: "Email templates • Admin • Date Night Cottage",
+    view: "admin_edit_email_template",
+    locals: {
+      kind: opts.kind,
+      kindLabel: EMAIL_TEMPLATE_KINDS.find(k => k.kind === opts.kind)!.label,
+      theme: opts.theme ?? null,
+      template: opts.template,
+      source: opts.source,
+      hasOverride: Boolean(getStoredTemplate(opts.kind, opts.theme?.id ?? null)),
+      canEdit: canEditTemplate(planner(res), opts.theme),
+      variables: TEMPLATE_VARIABLES,
+      preview,
+      error: opts.error ?? null,
+    },
+    status: opts.status,
+    admin: true,
+  });
+}
+
+/** The all-themes templates are shared, so they need `canManage`; a theme's own follow who can change the theme. */
+function canEditTemplate(user: User, theme: Theme | undefined) {
+  return theme ? canEditTheme(theme, user) : user.canManage;
+}
+
+app.get("/admin/email-templates", requireAdmin, async (req, res) => {
+  const overrides = listTemplateOverrides();
+  const themes = listThemes();
+  const user = planner(res);
+  await renderPage(req, res, {
+    title: "Email templates • Admin • Date Night Cottage",
+    view: "admin_email_templates",
+    locals: {
+      kinds: EMAIL_TEMPLATE_KINDS.map(k => ({
+        ...k,
+        global: overrides.some(o => o.kind === k.kind && o.themeId === null),
+        canEditGlobal: canEditTemplate(user, undefined),
+        themes: themes.map(t => ({
+          id: t.id,
+          name: t.name,
+          overridden: overrides.some(o => o.kind === k.kind && o.themeId === t.id),
+          canEdit: canEditTemplate(user, t),
+        })),
+      })),
+    },
+    admin: true,
+  });
+});
+
+app.get("/admin/email-templates/:kind", requireAdmin, async (req, res) => {
+  const kind = templateKind(req.params.kind);
+  const themeId = String(req.query.theme || "") || null;
+  const theme = themeId ? getTheme(themeId) : undefined;
+  if (!kind || (themeId && !theme)) return res.redirect("/admin/email-templates");
+
+  const { template, source } = effectiveTemplate(kind, themeId);
+  await renderTemplateEditor(req, res, { kind, theme, template, source });
+});
+
+/** `action` is "preview" (render the unsaved text), "save" or "reset" (drop this override). */
+app.post("/admin/email-templates/:kind", requireAdmin, async (req, res) => {
+  const kind = templateKind(req.params.kind);
+  const themeId = String(req.body.theme || "") || null;
+  const theme = themeId ? getTheme(themeId) : undefined;
+  if (!kind || (themeId && !theme)) return res.redirect("/admin/email-templates");
+  const back = `/admin/email-templates/${kind}${themeId ? `?theme=${encodeURIComponent(themeId)}` : ""}`;
+  if (!canEditTemplate(planner(res), theme)) {
+    setFlash(req, { type: "error", message: theme
+      ? `Only whoever can change “${theme.name}” can change its emails.`
+      : "Only a planner who manages the cottage can change the all-themes emails." });
+    return res.redirect(back);
+  }
+
+  if (req.body.action === "reset") {
+    resetTemplate(kind, themeId);
+    setFlash(req, { type: "info", message: "Back to the inherited template 🌿" });
+    return res.redirect(back);
+  }
+
+  const template: EmailTemplate = {
+    subject: String(req.body.subject || ""),
+    html: String(req.body.html || ""),
+    text: String(req.body.text || ""),
+  };
+  const invalid = validateTemplate(template);
+  if (invalid) return renderTemplateEditor(req, res, { kind, theme, template, source: "unsaved", error: invalid.error, status: 422 });
+  if (req.body.action !== "save") return renderTemplateEditor(req, res, { kind, theme, template, source: "unsaved" });
+
+  saveTemplate(kind, themeId, template);
+  setFlash(req, { type: "info", message: "Template saved 💌" });
+  res.redirect(back);
+});
+
+app.get("/admin/themes", requireAdmin, async (req, res) => {
+  const db = getDb();
+  const usage = db.prepare(`SELECT theme_id, COUNT(*) AS n FROM date_nights GROUP BY theme_id`).all() as any[];
+  const usageById = new Map(usage.map(u => [u.theme_id, u.n as number]));
+
+  const names = new Map(listUsers().map(u => [u.id, u.name]));
+
+  const themes = listThemes({ includeArchived: true }).map(t => ({
+    ...t,
+    dateNightCount: usageById.get(t.id) ?? 0,
+    ownerName: t.ownerId ? names.get(t.ownerId) ?? null : null,
+    canEdit: canEditTheme(t, planner(res)),
+  }));
+
+  await renderPage(req, res, {
+    title: "Themes • Date Night Cottage",
+    view: "admin_themes",
+    locals: { themes },
+    admin: true,
+  });
+});
+
+app.get("/admin/themes/new", requireAdmin, async (req, res) => {
+  await renderPage(req, res, {
+    title: "New theme • Date Night Cottage",
+    view: "admin_edit_theme",
+    locals: { theme: null, name: "", blurb: "", categories: [], optionTags: OPTION_TAGS, formatTaskLine, optionRatings: optionRatingsFor(res) },
+    admin: true,
+  });
+});
+
+app.post("/admin/themes/new", requireAdmin, (req, res) => {
+  const input = themeFormInput(req.body);
+  if ("error" in input) {
+    setFlash(req, { type: "error", message: input.error });
+    return res.redirect("/admin/themes/new");
+  }
+
+  createTheme(input, planner(res).id);
+  setFlash(req, { type: "info", message: "Theme created 🌼" });
+  res.redirect("/admin/themes");
+});
+
+/** The theme in the URL if this planner may change it; otherwise flashes why and redirects. */
+function themeToChange(req: express.Request, res: express.Response): Theme | undefined {
+  const theme = getTheme(String(req.params.id));
+  if (!theme) setFlash(req, { type: "error", message: "Theme not found." });
+  else if (!canEditTheme(theme, planner(res))) {
+    setFlash(req, { type: "error", message: `You can’t change “${theme.name}” — duplicate it to have your own.` });
+  } else return theme;
+  res.redirect("/admin/themes");
+  return undefined;
+}
+
+app.get("/admin/themes/:id/edit", requireAdmin, async (req, res) => {
+  const theme = themeToChange(req, res);
+  if (!theme) return;
+
+  await renderPage(req, res, {
+    title: `Edit theme • ${theme.name}`,
+    view: "admin_edit_theme",
+    locals: {
+      theme,
+      name: theme.name,
+      blurb: theme.blurb,
+      categories: theme.options.categories,
+      optionTags: OPTION_TAGS,
+      formatTaskLine,
+      optionRatings: optionRatingsFor(res),
+    },
+    admin: true,
+  });
+});
+
+app.post("/admin/themes/:id/edit", requireAdmin, (req, res) => {
+  const theme = themeToChange(req, res);
+  if (!theme) return;
+  const id = theme.id;
+
+  const input = themeFormInput(req.body);
+  if ("error" in input) {
+    setFlash(req, { type: "error", message: input.error });
+    return res.redirect(`/admin/themes/${id}/edit`);
+  }
+
+  updateTheme(id, input);
+  setFlash(req, { type: "info", message: "Theme saved 🌿" });
+  res.redirect("/admin/themes");
+});
+
+app.post("/admin/themes/:id/duplicate", requireAdmin, (req, res) => {
+  const copy = duplicateTheme(String(req.params.id), planner(res).id);
+  if (!copy) {
+    setFlash(req, { type: "error", message: "Theme not found." });
+    return res.redirect("/admin/themes");
+  }
+  setFlash(req, { type: "info", message: "Theme duplicated — make it your own ✏️" });
+  res.redirect(`/admin/themes/${copy.id}/edit`);
+});
+
+app.post("/admin/themes/:id/archive", requireAdmin, (req, res) => {
+  const theme = themeToChange(req, res);
+  if (!theme) return;
+  setThemeArchived(theme.id, true);
+  setFlash(req, { type: "info", message: "Theme archived. Existing date nights keep using it 🧺" });
+  res.redirect("/admin/themes");
+});
+
+app.post("/admin/themes/:id/restore", requireAdmin, (req, res) => {
+  const theme = themeToChange(req, res);
+  if (!theme) return;
+  setThemeArchived(theme.id, false);
+  setFlash(req, { type: "info", message: "Theme restored 🌼" });
+  res.redirect("/admin/themes");
 });
 
 app.get("/health", (_req, res) => {
   res.status(200).send("ok");
 });
 
+/** API tokens */
+app.get("/admin/api-tokens", requireAdmin, async (req, res) => {
+  await renderPage(req, res, {
+    title: "API tokens • Date Night Cottage",
+    view: "admin_api_tokens",
+    locals: { tokens: listApiTokens(planner(res).id), newToken: null },
+    admin: true,
+  });
+});
+
+app.post("/admin/api-tokens", requireAdmin, async (req, res) => {
+  const name = String(req.body.name || "").trim();
+  if (!name) {
+    setFlash(req, { type: "error", message: "Please say what the token is for." });
+    return res.redirect("/admin/api-tokens");
+  }
+
+  // Rendered rather than redirected so the plain token is never stored, even in the session.
+  const { token } = createApiToken(name, planner(res).id);
+  await renderPage(req, res, {
+    title: "API tokens • Date Night Cottage",
+    view: "admin_api_tokens",
+    locals: { tokens: listApiTokens(planner(res).id), newToken: token },
+    admin: true,
+    flash: { type: "info", message: "Token created 🔑" },
+  });
+});
+
+app.post("/admin/api-tokens/:id/revoke", requireAdmin, (req, res) => {
+  revokeApiToken(String(req.params.id), planner(res).id);
+  setFlash(req, { type: "info", message: "Token revoked. It won’t work anymore 🔒" });
+  res.redirect("/admin/api-tokens");
+});
+
+function deliveryFlash(d: WebhookDelivery): { type: "info" | "error"; message: string } {
+  if (d.status === "delivered") return { type: "info", message: `Delivered — the receiver answered ${d.responseStatus} 🪝` };
+  return { type: "error", message: `Not delivered: ${d.lastError}. It will be retried with backoff.` };
+}
+
+app.get("/admin/webhooks", requireAdmin, async (req, res) => {
+  const webhooks = listWebhooks(planner(res).id).map(w => ({ ...w, deliveries: listDeliveries(w.id) }));
+  await renderPage(req, res, {
+    title: "Webhooks • Date Night Cottage",
+    view: "admin_webhooks",
+    locals: { webhooks, events: WEBHOOK_EVENTS },
+    admin: true,
+  });
+});
+
+app.post("/admin/webhooks", requireAdmin, (req, res) => {
+  const input = webhookFromBody(req.body);
+  if ("error" in input) {
+    setFlash(req, { type: "error", message: input.error });
+    return res.redirect("/admin/webhooks");
+  }
+  createWebhook(planner(res).id, input);
+  setFlash(req, { type: "info", message: "Webhook added 🪝 Send it a test event to check it’s listening." });
+  res.redirect("/admin/webhooks");
+});
+
+app.post("/admin/webhooks/:id/active", requireAdmin, (req, res) => {
+  const hook = getWebhook(String(req.params.id), planner(res).id);
+  if (!hook) return res.status(404).send("Webhook not found");
+  setWebhookActive(hook.id, planner(res).id, req.body.active === "1");
+  setFlash(req, { type: "info", message: req.body.active === "1" ? "Webhook resumed ▶️" : "Webhook paused ⏸️" });
+  res.redirect("/admin/webhooks");
+});
+
+app.post("/admin/webhooks/:id/delete", requireAdmin, (req, res) => {
+  deleteWebhook(String(req.params.id), planner(res).id);
+  setFlash(req, { type: "info", message: "Webhook deleted." });
+  res.redirect("/admin/webhooks");
+});
+
+app.post("/admin/webhooks/:id/test", requireAdmin, async (req, res) => {
+  const hook = getWebhook(String(req.params.id), planner(res).id);
+  if (!hook) return res.status(404).send("Webhook not found");
+  setFlash(req, deliveryFlash(await sendTestEvent(hook)));
+  res.redirect(`/admin/webhooks#webhook-${hook.id}`);
+});
+
+app.post("/admin/webhooks/deliveries/:deliveryId/redeliver", requireAdmin, async (req, res) => {
+  const delivery = await redeliver(String(req.params.deliveryId), planner(res).id);
+  if (!delivery) return res.status(404).send("Delivery not found");
+  setFlash(req, deliveryFlash(delivery));
+  res.redirect(`/admin/webhooks#webhook-${delivery.webhookId}`);
+});
+
 app.get("/debug/session", (req, res) => {
-  const s = req.session as any;
-  res.json({ isAdmin: Boolean(s.isAdmin) });
+  const user = currentUser(req);
+  res.json({ isAdmin: Boolean(user), userId: user?.id ?? null });
 });
 
 const PORT = Number(process.env.PORT || 3000);
 
+// A misconfigured EMAIL_TRANSPORT stops the server here rather than failing the first email or page that needs it.
+console.log(`💌 Email via ${getEmailTransport().label}`);
+
+startOutboxWorker();
+startWebhookWorker();
+startReminderScheduler({ baseUrl, plannerEmails: plannerRecipients });
+startFinalPlanScheduler(finalPlans);
+startRevealScheduler();
+startSeriesScheduler();
+
 app.listen(PORT, "0.0.0.0", () => {
   console.log(`🌿 Listening on 0.0.0.0:${PORT}`);
 });
\ No newline at end of file
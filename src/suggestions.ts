@@ -0,0 +1,179 @@
+import { nanoid } from "nanoid";
+
+import { getDb } from "./db";
+import { renderSuggestionReplyEmail } from "./email";
+import { inviteUrl } from "./invites";
+import { parseMenu, parsePicks, type Menu, type Picks } from "./menu";
+import { queueEmail } from "./outbox";
+import { refreshChecklist } from "./prep";
+import { canEditTheme, getTheme, updateTheme } from "./themes";
+import type { User } from "./users";
+
+/**
+ * Write-in ideas from partners ("suggest something else"), one per category per submission. A
+ * planner accepts one (it joins the date night's menu and the partner's picks) or declines it with
+ * a short reply; either way the partner hears back.
+ */
+export type SuggestionStatus = "pending" | "accepted" | "declined";
+
+export type Suggestion = {
+  id: string;
+  inviteId: string;
+  categoryKey: string;
+  text: string;
+  status: SuggestionStatus;
+  reply: string | null;
+  decidedAt: string | null;
+  addedToThemeAt: string | null;
+  createdAt: string;
+};
+
+export const MAX_SUGGESTION_LENGTH = 120;
+
+function rowToSuggestion(r: any): Suggestion {
+  return {
+    id: r.id,
+    inviteId: r.invite_id,
+    categoryKey: r.category_key,
+    text: r.text,
+    status: r.status,
+    reply: r.reply,
+    decidedAt: r.decided_at,
+    addedToThemeAt: r.added_to_theme_at,
+    createdAt: r.created_at,
+  };
+}
+
+/**
+ * Saves the `suggest[categoryKey]` fields of an invite form. Blank ones, ones already on the menu
+ * and repeats of a suggestion still waiting for a reply are skipped; what was saved is returned.
+ */
+export function recordSuggestions(inviteId: string, menu: Menu, raw: unknown): Suggestion[] {
+  if (!raw || typeof raw !== "object") return [];
+  const db = getDb();
+  const pending = db.prepare(`SELECT 1 FROM suggestions WHERE invite_id = ? AND category_key = ? AND lower(text) = lower(?) AND status = 'pending'`);
+  const insert = db.prepare(`
+    INSERT INTO suggestions (id, invite_id, category_key, text, status, created_at) VALUES (?, ?, ?, ?, 'pending', ?)
+  `);
+  const now = new Date().toISOString();
+  const saved: Suggestion[] = [];
+  for (const c of menu.categories) {
+    const value = (raw as Record<string, unknown>)[c.key];
+    const text = typeof value === "string" ? value.trim().replace(/\s+/g, " ").slice(0, MAX_SUGGESTION_LENGTH) : "";
+    if (!text || c.options.some(o => o.toLowerCase() === text.toLowerCase())) continue;
+    if (pending.get(inviteId, c.key, text)) continue;
+    const id = nanoid(12);
+    insert.run(id, inviteId, c.key, text, now);
+    saved.push(rowToSuggestion(db.prepare(`SELECT * FROM suggestions WHERE id = ?`).get(id)));
+  }
+  return saved;
+}
+
+export function listSuggestionsForInvite(inviteId: string): Suggestion[] {
+  return (getDb().prepare(`SELECT * FROM suggestions WHERE invite_id = ? ORDER BY created_at`).all(inviteId) as any[]).map(rowToSuggestion);
+}
+
+/** Every suggestion for a date night, pending ones first, with who it came from. */
+export function listSuggestionsForDateNight(dateNightId: string): Array<Suggestion & { recipientEmail: string | null }> {
+  return (getDb().prepare(`
+    SELECT s.*, i.recipient_email FROM suggestions s JOIN invites i ON i.id = s.invite_id
+    WHERE i.date_night_id = ?
+    ORDER BY s.status != 'pending', s.created_at DESC
+  `).all(dateNightId) as any[]).map(r => ({ ...rowToSuggestion(r), recipientEmail: r.recipient_email }));
+}
+
+function getSuggestionIn(dateNightId: string, id: string): (Suggestion & { invite: any }) | undefined {
+  const row = getDb().prepare(`
+    SELECT s.* FROM suggestions s JOIN invites i ON i.id = s.invite_id WHERE s.id = ? AND i.date_night_id = ?
+  `).get(id, dateNightId) as any;
+  if (!row) return undefined;
+  return { ...rowToSuggestion(row), invite: getDb().prepare(`SELECT * FROM invites WHERE id = ?`).get(row.invite_id) };
+}
+
+/** The partner's picks for a category once a suggestion of theirs is accepted. */
+function picksWith(c: Menu["categories"][number], current: string[], text: string): string[] {
+  if (c.mode === "one") return [text];
+  // A ranking has to include every option; a partner's own idea goes first.
+  if (c.mode === "rank") return [text, ...current.filter(v => v !== text)];
+  if (current.includes(text)) return current;
+  return c.maxPicks && current.length >= c.maxPicks ? [...current.slice(0, c.maxPicks - 1), text] : [...current, text];
+}
+
+async function emailReply(s: Suggestion & { invite: any }, dn: any) {
+  if (!s.invite.recipient_email) return;
+  const email = renderSuggestionReplyEmail({
+    title: dn.title,
+    suggestion: s.text,
+    accepted: s.status === "accepted",
+    reply: s.reply,
+    inviteUrl: inviteUrl(s.invite.token),
+    locale: s.invite.locale,
+  });
+  await queueEmail({ kind: "suggestion_reply", inviteId: s.invite.id, to: s.invite.recipient_email, ...email });
+}
+
+/**
+ * Adds the suggestion to the date night's menu and to the partner's picks (recorded as a revision,
+ * like a change the partner made), then lets them know.
+ */
+export async function acceptSuggestion(dn: any, id: string, reply: string | null): Promise<{ ok: true } | { error: string }> {
+  const s = getSuggestionIn(dn.id, id);
+  if (!s) return { error: "Suggestion not found." };
+  if (s.status !== "pending") return { error: "That suggestion already has an answer." };
+
+  const menu = parseMenu(dn.menu_json);
+  const category = menu.categories.find(c => c.key === s.categoryKey);
+  if (!category) return { error: "That category isn’t on the menu anymore." };
+
+  const db = getDb();
+  const now = new Date().toISOString();
+  db.transaction(() => {
+    if (!category.options.includes(s.text)) category.options.push(s.text);
+    db.prepare(`UPDATE date_nights SET menu_json = ? WHERE id = ?`).run(JSON.stringify(menu), dn.id);
+
+    const sel = db.prepare(`SELECT * FROM selections WHERE invite_id = ?`).get(s.inviteId) as any;
+    if (sel) {
+      const current = parsePicks(sel.picks_json);
+      const picks: Picks = { ...current, [category.key]: picksWith(category, current[category.key] ?? [], s.text) };
+      const picksJson = JSON.stringify(picks);
+      db.prepare(`UPDATE selections SET picks_json = ?, updated_at = ? WHERE id = ?`).run(picksJson, now, sel.id);
+      db.prepare(`INSERT INTO selection_revisions (id, selection_id, picks_json, notes, created_at) VALUES (?, ?, ?, ?, ?)`)
+        .run(nanoid(12), sel.id, picksJson, sel.notes, now);
+    }
+    db.prepare(`UPDATE suggestions SET status = 'accepted', reply = ?, decided_at = ? WHERE id = ?`).run(reply, now, s.id);
+  })();
+
+  const updated = db.prepare(`SELECT * FROM date_nights WHERE id = ?`).get(dn.id);
+  refreshChecklist(updated);
+  await emailReply({ ...s, status: "accepted", reply }, updated);
+  return { ok: true };
+}
+
+export async function declineSuggestion(dn: any, id: string, reply: string | null): Promise<{ ok: true } | { error: string }> {
+  const s = getSuggestionIn(dn.id, id);
+  if (!s) return { error: "Suggestion not found." };
+  if (s.status !== "pending") return { error: "That suggestion already has an answer." };
+
+  getDb().prepare(`UPDATE suggestions SET status = 'declined', reply = ?, decided_at = ? WHERE id = ?`)
+    .run(reply, new Date().toISOString(), s.id);
+  await emailReply({ ...s, status: "declined", reply }, dn);
+  return { ok: true };
+}
+
+/** Makes an accepted suggestion one of the theme's default options, so future date nights offer it too. */
+export function addSuggestionToTheme(dn: any, id: string, user: User): { themeName: string } | { error: string } {
+  const s = getSuggestionIn(dn.id, id);
+  if (!s || s.status !== "accepted") return { error: "Only accepted suggestions can be added to the theme." };
+  const theme = getTheme(dn.theme_id);
+  if (!theme) return { error: "Theme missing." };
+  if (!canEditTheme(theme, user)) return { error: `You can’t change “${theme.name}” — duplicate it under Themes to have your own.` };
+  const category = theme.options.categories.find(c => c.key === s.categoryKey);
+  if (!category) return { error: `The theme “${theme.name}” doesn’t have that category.` };
+
+  if (!category.options.includes(s.text)) {
+    category.options.push(s.text);
+    updateTheme(theme.id, { name: theme.name, blurb: theme.blurb, options: theme.options });
+  }
+  getDb().prepare(`UPDATE suggestions SET added_to_theme_at = ? WHERE id = ?`).run(new Date().toISOString(), s.id);
+  return { themeName: theme.name };
+}
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { getDb } from "./db";
+import type { Menu } from "./menu";
+import { maskPicks, runReveals, teasers, unmaskPicks } from "./surprise";
+import { outbox, testAnswer, testDateNight, testInvite, testPlanner } from "./test_helpers";
+
+const menu: Menu = {
+  categories: [{
+    key: "dinner",
+    label: "Dinner",
+    mode: "one",
+    options: ["Pasta", "Soup", "Tacos", "Curry"],
+    details: { Pasta: { teaser: "Something warm" }, Soup: { teaser: "Something warm" }, Curry: { teaser: "Surprise #2" } },
+  }],
+};
+
+test("teasers stay unique within a category and map picks both ways", () => {
+  const tz = teasers(menu);
+  assert.deepEqual([...tz.dinner.values()], ["Something warm", "Surprise #3", "Surprise #4", "Surprise #2"]);
+  assert.deepEqual(unmaskPicks({ dinner: ["Surprise #4"] }, tz), { dinner: ["Tacos"] });
+  assert.deepEqual(maskPicks({ dinner: ["Soup"] }, tz), { dinner: ["Surprise #3"] });
+});
+
+test("picks the menu no longer has are dropped, never shown as they are", () => {
+  const tz = teasers(menu);
+  assert.deepEqual(maskPicks({ dinner: ["Lasagne", "Curry"], dessert: ["Cake"] }, tz), { dinner: ["Surprise #2"] });
+});
+
+test("the reveal goes out once it's due, once, to each partner who picked", async () => {
+  const owner = await testPlanner();
+  const dn = testDateNight(owner.id, { reveal_at: "2026-10-24T17:00:00.000Z" });
+  const picked = testInvite(dn.id);
+  testInvite(dn.id);
+  testAnswer(picked.id, { dinner: ["Picnic"], mood: ["Cozy"] });
+
+  await runReveals(new Date("2026-10-24T16:59:00.000Z"));
+  assert.equal(outbox().length, 0);
+
+  await runReveals(new Date("2026-10-24T17:00:00.000Z"));
+  await runReveals(new Date("2026-10-24T17:01:00.000Z"));
+  assert.deepEqual(outbox().map(m => [m.kind, m.to_address]), [["reveal", picked.recipient_email]]);
+  const row = getDb().prepare(`SELECT reveal_sent_at FROM date_nights WHERE id = ?`).get(dn.id) as any;
+  assert.equal(row.reveal_sent_at, "2026-10-24T17:00:00.000Z");
+});
@@ -0,0 +1,174 @@
+import { baseUrl } from "./config";
+import { getDb } from "./db";
+import { renderRevealEmail } from "./email";
+import { formatInstant, formatWhen } from "./format";
+import { t } from "./i18n";
+import { describePicks, parseMenu, parsePicks, type Menu, type Picks } from "./menu";
+import { queueEmail } from "./outbox";
+import type { Tally } from "./voting";
+
+/**
+ * Surprise mode: until the planner's reveal time, partners see each option by its teaser label
+ * ("Mystery dinner #2") without any of its details, and the blurb stays hidden. Everything a
+ * partner can read (invite and plan pages, their emails and calendar files) and the JSON API go
+ * through these helpers. At the reveal time the plan page opens up and the real plan is emailed.
+ */
+
+/** Option text → teaser label, per category key. */
+export type Teasers = Record<string, Map<string, string>>;
+
+/** True while a surprise date night's details are still hidden from partners. */
+export function surpriseHidden(dn: { reveal_at?: string | null }, now = new Date()) {
+  return Boolean(dn.reveal_at && dn.reveal_at > now.toISOString());
+}
+
+/**
+ * Each option's teaser, or "Surprise #n" (its place in the category) when it has none. Labels stay
+ * unique within a category, since partners' picks are sent back as teasers: a repeated teaser only
+ * counts for its first option, and a generated label moves on to the next free number.
+ */
+export function teasers(menu: Menu, locale?: string | null): Teasers {
+  return Object.fromEntries(menu.categories.map(c => {
+    const labels = new Map<string, string>();
+    const used = new Set<string>();
+    for (const o of c.options) {
+      const own = c.details?.[o]?.teaser;
+      if (own && !used.has(own)) {
+        labels.set(o, own);
+        used.add(own);
+      }
+    }
+    c.options.forEach((o, i) => {
+      if (labels.has(o)) return;
+      let n = i + 1;
+      while (used.has(t(locale, "surprise.teaser", { n }))) n++;
+      const label = t(locale, "surprise.teaser", { n });
+      used.add(label);
+      labels.set(o, label);
+    });
+    return [c.key, new Map(c.options.map(o => [o, labels.get(o)!]))];
+  }));
+}
+
+/** The menu as partners see it before the reveal: teasers only, no details. */
+export function maskMenu(menu: Menu, tz: Teasers): Menu {
+  return {
+    categories: menu.categories.map(({ details, ...c }) => ({ ...c, options: c.options.map(o => tz[c.key]?.get(o) ?? o) })),
+  };
+}
+
+/**
+ * Picks and votes as teasers. Anything without one (an option or category the planner has since
+ * removed) is dropped rather than shown as it is.
+ */
+export function maskPicks(picks: Picks, tz: Teasers): Picks {
+  return Object.fromEntries(Object.entries(picks)
+    .filter(([key]) => tz[key])
+    .map(([key, values]) => [key, values.flatMap(v => tz[key].get(v) ?? [])]));
+}
+
+/** Turns the invite form's teasers back into options; anything else is left for `validatePicks` to reject. */
+export function unmaskPicks(raw: unknown, tz: Teasers): unknown {
+  if (!raw || typeof raw !== "object") return raw;
+  return Object.fromEntries(Object.entries(raw).map(([key, v]) => {
+    const real = new Map([...(tz[key] ?? new Map<string, string>())].map(([o, teaser]) => [teaser, o]));
+    const values = Array.isArray(v) ? v : [v];
+    return [key, values.map(x => real.get(String(x).trim()) ?? x)];
+  }));
+}
+
+export function maskTally(tally: Tally, tz: Teasers): Tally {
+  const mask = (key: string, options: string[]) => options.flatMap(o => tz[key].get(o) ?? []);
+  return {
+    ...tally,
+    categories: tally.categories.filter(c => tz[c.key]).map(c => ({
+      ...c,
+      votes: c.votes.flatMap(v => (tz[c.key].has(v.option) ? [{ ...v, option: tz[c.key].get(v.option)! }] : [])),
+      winners: mask(c.key, c.winners),
+      tied: mask(c.key, c.tied),
+      eliminated: mask(c.key, c.eliminated),
+    })),
+  };
+}
+
+/** When the reveal happens, in the partner's language and the date night's time zone. */
+export function revealText(dn: any, locale?: string | null) {
+  return dn.reveal_at ? formatInstant(dn.reveal_at, locale, dn.time_zone) : null;
+}
+
+/** The blurb a partner may see now: the real one (or the fallback) once revealed, a teaser before. */
+export function partnerBlurb(dn: any, blurb: string | null, locale?: string | null, now = new Date()): string | null {
+  return surpriseHidden(dn, now) ? t(locale, "surprise.blurb", { time: revealText(dn, locale)! }) : blurb;
+}
+
+/**
+ * The picks as a partner may see them now: the real options with their details once revealed,
+ * teasers before.
+ */
+export function partnerPickLines(dn: any, menu: Menu, picks: Picks, locale?: string | null, now = new Date()) {
+  if (!surpriseHidden(dn, now)) return describePicks(menu, picks, locale);
+  const tz = teasers(menu, locale);
+  return describePicks(maskMenu(menu, tz), maskPicks(picks, tz), locale);
+}
+
+/**
+ * Emails each partner who has picked the real plan once the reveal time passes. The date night is
+ * claimed first, so the reveal goes out once; moving the reveal time sends it again then.
+ */
+export async function sendReveal(dn: any, now = new Date()) {
+  const db = getDb();
+  const claimed = db.prepare(`
+    UPDATE date_nights SET reveal_sent_at = ? WHERE id = ? AND reveal_at IS NOT NULL AND reveal_at <= ? AND reveal_sent_at IS NULL
+  `).run(now.toISOString(), dn.id, now.toISOString());
+  if (!claimed.changes) return;
+
+  const menu = parseMenu(dn.menu_json);
+  const invites = db.prepare(`
+    SELECT i.*, s.picks_json FROM invites i JOIN selections s ON s.invite_id = i.id
+    WHERE i.date_night_id = ? AND i.revoked_at IS NULL AND i.recipient_email IS NOT NULL
+  `).all(dn.id) as any[];
+  for (const inv of invites) {
+    const email = renderRevealEmail({
+      title: dn.title,
+      whenText: formatWhen(dn, inv.locale),
+      location: dn.location,
+      blurb: dn.blurb,
+      picks: describePicks(menu, parsePicks(inv.picks_json), inv.locale),
+      planUrl: `${baseUrl()}/invite/${inv.token}/plan`,
+      locale: inv.locale,
+    });
+    await queueEmail({ kind: "reveal", inviteId: inv.id, to: inv.recipient_email, ...email });
+  }
+}
+
+/** Sends every reveal that is due. */
+export async function runReveals(now: Date = new Date()) {
+  const due = getDb().prepare(`
+    SELECT * FROM date_nights WHERE reveal_at IS NOT NULL AND reveal_at <= ? AND reveal_sent_at IS NULL
+  `).all(now.toISOString()) as any[];
+  for (const dn of due) await sendReveal(dn, now);
+}
+
+let scheduler: NodeJS.Timeout | null = null;
+
+/** Checks every minute, so the reveal email arrives close to the time the planner chose. */
+export function startRevealScheduler(opts: { intervalMs?: number } = {}) {
+  if (scheduler) return;
+
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runReveals();
+    } catch (e) {
+      console.error("[surprise] tick failed", e);
+    } finally {
+      running = false;
+    }
+  };
+
+  scheduler = setInterval(tick, opts.intervalMs ?? 60_000);
+  scheduler.unref();
+  void tick();
+}
@@ -0,0 +1,59 @@
+import { nanoid } from "nanoid";
+
+import { createDateNight, getDateNight } from "./date_nights";
+import { getDb } from "./db";
+import type { Menu, Picks } from "./menu";
+import { createUser, type User } from "./users";
+
+/** Shared fixtures for the `*.test.ts` files; each test file has its own in-memory database. */
+export const TEST_MENU: Menu = {
+  categories: [
+    { key: "dinner", label: "Dinner", mode: "one", options: ["Pasta night", "Soup + fresh bread", "Picnic"] },
+    { key: "mood", label: "Mood", mode: "many", options: ["Cozy", "Romantic", "Playful"] },
+  ],
+};
+
+export function testPlanner(name = "Robin"): Promise<User> {
+  return createUser({ name, email: `${name.toLowerCase()}-${nanoid(6)}@example.com`, notifyEmail: null, password: "correct horse battery" });
+}
+
+/** A date night with `TEST_MENU`, plus any column set directly (`time_zone`, `group_json`, …). */
+export function testDateNight(ownerId: string, columns: Record<string, unknown> = {}): any {
+  const id = createDateNight({
+    title: "Test night",
+    themeId: "cottagecore-classic",
+    menu: TEST_MENU,
+    blurb: "",
+    dateIso: null,
+    startTime: null,
+    durationMinutes: null,
+    location: null,
+  }, ownerId);
+  for (const [column, value] of Object.entries(columns)) {
+    getDb().prepare(`UPDATE date_nights SET ${column} = ? WHERE id = ?`).run(value, id);
+  }
+  return getDateNight(id);
+}
+
+export function testInvite(dateNightId: string, columns: { recipient_email?: string | null; created_at?: string; nudge_eligible?: number } = {}): any {
+  const id = nanoid(12);
+  getDb().prepare(`
+    INSERT INTO invites (id, date_night_id, token, recipient_email, nudge_eligible, created_at) VALUES (?, ?, ?, ?, ?, ?)
+  `).run(
+    id, dateNightId, nanoid(22), columns.recipient_email === undefined ? `partner-${id}@example.com` : columns.recipient_email,
+    columns.nudge_eligible ?? 1, columns.created_at ?? new Date().toISOString()
+  );
+  return getDb().prepare(`SELECT * FROM invites WHERE id = ?`).get(id);
+}
+
+export function testAnswer(inviteId: string, picks: Picks, at = new Date().toISOString()) {
+  const db = getDb();
+  db.prepare(`INSERT INTO selections (id, invite_id, picks_json, notes, created_at) VALUES (?, ?, ?, NULL, ?)`)
+    .run(nanoid(12), inviteId, JSON.stringify(picks), at);
+  db.prepare(`UPDATE invites SET used_at = ? WHERE id = ?`).run(at, inviteId);
+}
+
+/** Emails queued so far, oldest first. */
+export function outbox(): Array<{ kind: string; to_address: string; subject: string; invite_id: string | null }> {
+  return getDb().prepare(`SELECT * FROM email_outbox ORDER BY created_at, rowid`).all() as any[];
+}
@@ -0,0 +1,14 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+/**
+ * Loaded before every test file (see the `test` script): each file gets its own in-memory database,
+ * UTC as the server's time zone, and emails written to a throwaway directory.
+ */
+process.env.TZ = "UTC";
+process.env.DB_PATH = ":memory:";
+process.env.EMAIL_TRANSPORT = "file";
+process.env.EMAIL_OUTBOX_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "date-night-test-"));
+
+process.on("exit", () => fs.rmSync(process.env.EMAIL_OUTBOX_DIR!, { recursive: true, force: true }));
@@ -1,23 +1,75 @@
+import { nanoid } from "nanoid";
+
+import { getDb } from "./db";
+import { parseMenu, type Menu } from "./menu";
+import type { User } from "./users";
+
 export type Theme = {
   id: string;
   name: string;
   blurb: string;
-  options: { dinner: string[]; activity: string[]; mood: string[] };
+  /** Default menu copied into each new date night that uses this theme. */
+  options: Menu;
+  archivedAt: string | null;
+  /** The planner who made it; null for the built-in themes and ones made before accounts, which everyone shares. */
+  ownerId: string | null;
 };
 
-export const THEMES: Theme[] = [
-  {
-    id: "cottagecore-classic",
-    name: "Cottagecore Classic",
-    blurb: "Warm bread, soft blankets, candlelight, and gentle joy.",
-    options: {
-      dinner: ["Soup + fresh bread", "Pasta night", "Charcuterie + fruit", "Takeout plated nicely"],
-      activity: ["Bake something sweet", "Cozy movie", "Board games", "Long chat + tea"],
-      mood: ["Romantic", "Soft & slow", "Playful", "Deep & cozy"],
-    },
-  },
-];
-
-export function getTheme(id: string) {
-  return THEMES.find(t => t.id === id);
+function rowToTheme(row: any): Theme {
+  return {
+    id: row.id,
+    name: row.name,
+    blurb: row.blurb ?? "",
+    options: parseMenu(row.options_json),
+    archivedAt: row.archived_at ?? null,
+    ownerId: row.owner_id ?? null,
+  };
+}
+
+/** Every planner can use any theme, but only its owner changes it; shared ones need `canManage`. */
+export function canEditTheme(theme: Theme, user: Pick<User, "id" | "canManage">) {
+  return theme.ownerId ? theme.ownerId === user.id : user.canManage;
+}
+
+/** Archived themes are still returned so existing date nights and invites keep rendering. */
+export function getTheme(id: string): Theme | undefined {
+  const row = getDb().prepare(`SELECT * FROM themes WHERE id = ?`).get(id);
+  return row ? rowToTheme(row) : undefined;
+}
+
+export function listThemes(opts: { includeArchived?: boolean } = {}): Theme[] {
+  const rows = getDb().prepare(`
+    SELECT * FROM themes
+    ${opts.includeArchived ? "" : "WHERE archived_at IS NULL"}
+    ORDER BY archived_at IS NOT NULL, name COLLATE NOCASE
+  `).all();
+  return rows.map(rowToTheme);
+}
+
+export function createTheme(input: { name: string; blurb: string; options: Menu }, ownerId: string): Theme {
+  const id = nanoid(12);
+  const now = new Date().toISOString();
+  getDb().prepare(`
+    INSERT INTO themes (id, name, blurb, options_json, archived_at, owner_id, created_at, updated_at)
+    VALUES (?, ?, ?, ?, NULL, ?, ?, ?)
+  `).run(id, input.name, input.blurb, JSON.stringify(input.options), ownerId, now, now);
+  return { id, ...input, archivedAt: null, ownerId };
+}
+
+export function updateTheme(id: string, input: { name: string; blurb: string; options: Menu }) {
+  getDb().prepare(`UPDATE themes SET name = ?, blurb = ?, options_json = ?, updated_at = ? WHERE id = ?`)
+    .run(input.name, input.blurb, JSON.stringify(input.options), new Date().toISOString(), id);
+}
+
+/** The copy belongs to `ownerId`, so duplicating is how a planner makes a shared theme their own. */
+export function duplicateTheme(id: string, ownerId: string): Theme | undefined {
+  const t = getTheme(id);
+  if (!t) return undefined;
+  return createTheme({ name: `${t.name} (copy)`, blurb: t.blurb, options: t.options }, ownerId);
+}
+
+export function setThemeArchived(id: string, archived: boolean) {
+  const now = new Date().toISOString();
+  getDb().prepare(`UPDATE themes SET archived_at = ?, updated_at = ? WHERE id = ?`)
+    .run(archived ? now : null, now, id);
 }
@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import zlib from "zlib";
+
+import { THUMBNAIL_SIZE, makeThumbnail } from "./thumbnails";
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+function chunk(type: string, data: Buffer) {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(data.length, 0);
+  head.write(type, 4, "latin1");
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(zlib.crc32(Buffer.concat([head.subarray(4), data])), 0);
+  return Buffer.concat([head, data, crc]);
+}
+
+function ihdr(width: number, height: number, colorType: number) {
+  const data = Buffer.alloc(13);
+  data.writeUInt32BE(width, 0);
+  data.writeUInt32BE(height, 4);
+  data[8] = 8;
+  data[9] = colorType;
+  return chunk("IHDR", data);
+}
+
+function png(...chunks: Buffer[]) {
+  return Buffer.concat([SIGNATURE, ...chunks, chunk("IEND", Buffer.alloc(0))]);
+}
+
+/** Width, height and the first pixel's RGBA of a PNG `makeThumbnail` wrote (RGBA, filter 0). */
+function inspect(data: Buffer) {
+  const width = data.readUInt32BE(16);
+  const height = data.readUInt32BE(20);
+  const idat = data.indexOf("IDAT", 0, "latin1");
+  const raw = zlib.inflateSync(data.subarray(idat + 4, idat + 4 + data.readUInt32BE(idat - 4)));
+  return { width, height, first: [...raw.subarray(1, 5)] };
+}
+
+test("scales an RGB PNG down to fit the thumbnail size, undoing row filters", () => {
+  const width = 640, height = 320;
+  const rows = Buffer.alloc((width * 3 + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * (width * 3 + 1);
+    // "Sub" filter on every other row: each byte is stored as the difference from the pixel to its left.
+    rows[row] = y % 2;
+    for (let x = 0; x < width; x++) rows.set(y % 2 && x ? [0, 0, 0] : [200, 40, 10], row + 1 + x * 3);
+  }
+  const thumb = makeThumbnail(png(ihdr(width, height, 2), chunk("IDAT", zlib.deflateSync(rows))), "png");
+  assert.equal(thumb?.ext, "png");
+  assert.deepEqual(inspect(thumb!.data), { width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE / 2, first: [200, 40, 10, 255] });
+});
+
+test("reads palette images, transparency included", () => {
+  const thumb = makeThumbnail(png(
+    ihdr(2, 1, 3),
+    chunk("PLTE", Buffer.from([0, 0, 0, 90, 180, 30])),
+    chunk("tRNS", Buffer.from([255, 128])),
+    chunk("IDAT", zlib.deflateSync(Buffer.from([0, 1, 1]))),
+  ), "png");
+  assert.deepEqual(inspect(thumb!.data), { width: 2, height: 1, first: [90, 180, 30, 128] });
+});
+
+test("gives up on damaged or hostile PNGs instead of throwing", () => {
+  const truncatedHeader = Buffer.concat([SIGNATURE, chunk("IHDR", Buffer.alloc(4))]);
+  const overlong = Buffer.from(ihdr(1, 1, 2));
+  overlong.writeUInt32BE(999, 0);
+  const missingColour = png(ihdr(2, 1, 3), chunk("PLTE", Buffer.from([1, 2, 3])), chunk("IDAT", zlib.deflateSync(Buffer.from([0, 0, 9]))));
+  // 1×1 pixel declared, 20 MB once inflated.
+  const bomb = png(ihdr(1, 1, 2), chunk("IDAT", zlib.deflateSync(Buffer.alloc(20_000_000))));
+
+  for (const body of [truncatedHeader, Buffer.concat([SIGNATURE, overlong]), missingColour, bomb, Buffer.from("not a png")]) {
+    assert.equal(makeThumbnail(body, "png"), null);
+  }
+});
@@ -0,0 +1,192 @@
+import zlib from "zlib";
+
+/**
+ * Small previews for uploaded photos, made without an image library: PNGs are decoded and scaled
+ * down here, and JPEGs from phones and cameras carry a ready-made preview in their EXIF data.
+ * Anything else (GIF, WebP, a JPEG without a preview, an unusual PNG) gets no thumbnail, and pages
+ * fall back to the original.
+ */
+export const THUMBNAIL_SIZE = 320;
+
+/** Bigger PNGs are left alone rather than decoded in memory. */
+const MAX_PNG_PIXELS = 16_000_000;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/** 8-bit, non-interlaced PNGs of any colour type, as RGBA. */
+function decodePng(buf: Buffer): { width: number; height: number; rgba: Buffer } | null {
+  if (!buf.subarray(0, 8).equals(PNG_SIGNATURE)) return null;
+  let width = 0, height = 0, colorType = -1;
+  let palette: Buffer | null = null, transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+  for (let at = 8; at + 8 <= buf.length;) {
+    const length = buf.readUInt32BE(at);
+    if (at + 12 + length > buf.length) return null;
+    const type = buf.toString("latin1", at + 4, at + 8);
+    const data = buf.subarray(at + 8, at + 8 + length);
+    if (type === "IHDR") {
+      if (length < 13) return null;
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      colorType = data[9];
+      if (data[8] !== 8 || data[12] !== 0 || !(colorType in PNG_CHANNELS)) return null;
+    } else if (type === "PLTE") palette = data;
+    else if (type === "tRNS") transparency = data;
+    else if (type === "IDAT") idat.push(data);
+    else if (type === "IEND") break;
+    at += 12 + length;
+  }
+  if (!width || !height || width * height > MAX_PNG_PIXELS || !idat.length) return null;
+  if (colorType === 3 && !palette) return null;
+
+  const channels = PNG_CHANNELS[colorType];
+  const stride = width * channels;
+  let raw: Buffer;
+  try {
+    // Capped at what the declared size needs, so a tiny image can't inflate to gigabytes.
+    raw = zlib.inflateSync(Buffer.concat(idat), { maxOutputLength: (stride + 1) * height });
+  } catch {
+    return null;
+  }
+  if (raw.length < (stride + 1) * height) return null;
+
+  const rgba = Buffer.alloc(width * height * 4);
+  let prev = Buffer.alloc(stride);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const row = Buffer.from(raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1)));
+    for (let i = 0; i < stride; i++) {
+      const left = i >= channels ? row[i - channels] : 0;
+      const up = prev[i];
+      const upLeft = i >= channels ? prev[i - channels] : 0;
+      if (filter === 1) row[i] += left;
+      else if (filter === 2) row[i] += up;
+      else if (filter === 3) row[i] += (left + up) >> 1;
+      else if (filter === 4) {
+        const p = left + up - upLeft;
+        const pa = Math.abs(p - left), pb = Math.abs(p - up), pc = Math.abs(p - upLeft);
+        row[i] += pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+      }
+    }
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      const s = x * channels;
+      if (colorType === 3) {
+        const idx = row[s];
+        if (idx * 3 + 3 > palette!.length) return null;
+        palette!.copy(rgba, o, idx * 3, idx * 3 + 3);
+        rgba[o + 3] = transparency && idx < transparency.length ? transparency[idx] : 255;
+      } else if (channels <= 2) {
+        rgba[o] = rgba[o + 1] = rgba[o + 2] = row[s];
+        rgba[o + 3] = channels === 2 ? row[s + 1] : 255;
+      } else {
+        rgba[o] = row[s];
+        rgba[o + 1] = row[s + 1];
+        rgba[o + 2] = row[s + 2];
+        rgba[o + 3] = channels === 4 ? row[s + 3] : 255;
+      }
+    }
+    prev = row;
+  }
+  return { width, height, rgba };
+}
+
+/** Averages each box of source pixels into one, keeping the aspect ratio. */
+function shrink(img: { width: number; height: number; rgba: Buffer }, maxSide: number) {
+  const scale = Math.min(1, maxSide / Math.max(img.width, img.height));
+  const width = Math.max(1, Math.round(img.width * scale));
+  const height = Math.max(1, Math.round(img.height * scale));
+  const sums = new Float64Array(width * height * 4);
+  const counts = new Uint32Array(width * height);
+  for (let y = 0; y < img.height; y++) {
+    const ty = Math.min(height - 1, Math.floor((y * height) / img.height));
+    for (let x = 0; x < img.width; x++) {
+      const t = ty * width + Math.min(width - 1, Math.floor((x * width) / img.width));
+      const o = (y * img.width + x) * 4;
+      for (let c = 0; c < 4; c++) sums[t * 4 + c] += img.rgba[o + c];
+      counts[t]++;
+    }
+  }
+  const rgba = Buffer.alloc(width * height * 4);
+  for (let t = 0; t < counts.length; t++) {
+    for (let c = 0; c < 4; c++) rgba[t * 4 + c] = Math.round(sums[t * 4 + c] / counts[t]);
+  }
+  return { width, height, rgba };
+}
+
+function pngChunk(type: string, data: Buffer) {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(data.length, 0);
+  head.write(type, 4, "latin1");
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(zlib.crc32(Buffer.concat([head.subarray(4), data])), 0);
+  return Buffer.concat([head, data, crc]);
+}
+
+function encodePng(img: { width: number; height: number; rgba: Buffer }) {
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(img.width, 0);
+  ihdr.writeUInt32BE(img.height, 4);
+  ihdr[8] = 8;
+  ihdr[9] = 6;
+  const rows = Buffer.alloc((img.width * 4 + 1) * img.height);
+  for (let y = 0; y < img.height; y++) {
+    img.rgba.copy(rows, y * (img.width * 4 + 1) + 1, y * img.width * 4, (y + 1) * img.width * 4);
+  }
+  return Buffer.concat([
+    PNG_SIGNATURE, pngChunk("IHDR", ihdr), pngChunk("IDAT", zlib.deflateSync(rows)), pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+/** The preview JPEG stored in IFD1 of a JPEG's EXIF block, if it has one. */
+function exifThumbnail(buf: Buffer): Buffer | null {
+  if (buf[0] !== 0xff || buf[1] !== 0xd8) return null;
+  for (let at = 2; at + 4 <= buf.length && buf[at] === 0xff;) {
+    const marker = buf[at + 1];
+    const length = buf.readUInt16BE(at + 2);
+    if (marker === 0xda) break;
+    if (marker === 0xe1 && buf.toString("latin1", at + 4, at + 10) === "Exif\0\0") {
+      const tiff = at + 10;
+      const le = buf.toString("latin1", tiff, tiff + 2) === "II";
+      const u16 = (o: number) => (le ? buf.readUInt16LE(o) : buf.readUInt16BE(o));
+      const u32 = (o: number) => (le ? buf.readUInt32LE(o) : buf.readUInt32BE(o));
+      try {
+        const ifd0 = tiff + u32(tiff + 4);
+        const ifd1Offset = u32(ifd0 + 2 + u16(ifd0) * 12);
+        if (!ifd1Offset) return null;
+        const ifd1 = tiff + ifd1Offset;
+        let offset = 0, size = 0;
+        for (let n = 0; n < u16(ifd1); n++) {
+          const entry = ifd1 + 2 + n * 12;
+          if (u16(entry) === 0x0201) offset = u32(entry + 8);
+          if (u16(entry) === 0x0202) size = u32(entry + 8);
+        }
+        const thumb = buf.subarray(tiff + offset, tiff + offset + size);
+        return offset && size && thumb.length === size && thumb[0] === 0xff && thumb[1] === 0xd8 ? Buffer.from(thumb) : null;
+      } catch {
+        // Offsets pointing past the end: a damaged EXIF block just means no preview.
+        return null;
+      }
+    }
+    at += 2 + length;
+  }
+  return null;
+}
+
+/** Never throws: a file the decoders can't make sense of just gets no thumbnail. */
+export function makeThumbnail(body: Buffer, ext: string): { data: Buffer; ext: "png" | "jpg" } | null {
+  try {
+    if (ext === "jpg") {
+      const data = exifThumbnail(body);
+      return data ? { data, ext: "jpg" } : null;
+    }
+    if (ext === "png") {
+      const img = decodePng(body);
+      return img ? { data: encodePng(shrink(img, THUMBNAIL_SIZE)), ext: "png" } : null;
+    }
+  } catch {
+    return null;
+  }
+  return null;
+}
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { getDb } from "./db";
+import { getTheme } from "./themes";
+import { outbox, testAnswer, testDateNight, testInvite, testPlanner } from "./test_helpers";
+import { EXPORT_FORMAT, exportDateNights, importExport, validateExport } from "./transfer";
+
+const count = (table: string) => (getDb().prepare(`SELECT COUNT(*) AS n FROM ${table}`).get() as any).n as number;
+
+test("rejects files that aren't an export, and points at the broken fields of one that is", () => {
+  assert.deepEqual(validateExport([]), ["The file isn’t a JSON object."]);
+  assert.equal(validateExport({ format: "something-else" }).length, 1);
+  assert.deepEqual(validateExport({ format: EXPORT_FORMAT, version: 99, themes: [], dateNights: [] }), [
+    "The export is version 99; this app reads up to version 1.",
+  ]);
+
+  const errors = validateExport({
+    format: EXPORT_FORMAT,
+    version: 1,
+    themes: [],
+    dateNights: [{
+      id: "a",
+      title: "",
+      createdAt: "2026-10-01T00:00:00.000Z",
+      themeId: "no-such-theme",
+      date: "next friday",
+      menu: { categories: [] },
+      invites: [{ id: "i", token: "t", createdAt: "2026-10-01T00:00:00.000Z", selection: { id: "s", picks: { dinner: "Pasta" }, createdAt: "x", revisions: [] } }],
+    }],
+  });
+  assert.deepEqual(errors, [
+    "dateNights[0].title: is required",
+    "dateNights[0].date: should be YYYY-MM-DD",
+    "dateNights[0].themeId: should name a theme in the export or on this instance",
+    "dateNights[0].invites[0].selection.picks: should map category keys to lists of options",
+  ]);
+});
+
+test("round-trips a date night, and a second import gets fresh ids and invite links", async () => {
+  const owner = await testPlanner();
+  const other = await testPlanner("Sam");
+  const dn = testDateNight(owner.id, { date_iso: "2026-11-20", time_zone: "Europe/Paris" });
+  const inv = testInvite(dn.id);
+  testAnswer(inv.id, { dinner: ["Picnic"], mood: ["Cozy", "Playful"] });
+
+  const doc = JSON.parse(JSON.stringify(exportDateNights([dn])));
+  assert.deepEqual(validateExport(doc), []);
+
+  const before = { dateNights: count("date_nights"), invites: count("invites"), selections: count("selections") };
+  const preview = importExport(doc, other.id, { dryRun: true });
+  assert.deepEqual({ dateNights: count("date_nights"), invites: count("invites"), selections: count("selections") }, before);
+
+  const report = importExport(doc, other.id, { dryRun: false });
+  // Fresh ids are random, so only the counts can match the preview.
+  assert.deepEqual({ ...report, dryRun: true, dateNights: report.dateNights.length }, { ...preview, dateNights: preview.dateNights.length });
+  assert.equal(report.invites, 1);
+  assert.equal(report.selections, 1);
+  assert.equal(report.regeneratedTokens, 1);
+  assert.ok(report.remappedIds >= 3);
+
+  const copy = getDb().prepare(`SELECT * FROM date_nights WHERE id = ?`).get(report.dateNights[0].id) as any;
+  assert.notEqual(copy.id, dn.id);
+  assert.equal(copy.owner_id, other.id);
+  assert.equal(copy.time_zone, "Europe/Paris");
+  const copiedInvite = getDb().prepare(`SELECT * FROM invites WHERE date_night_id = ?`).get(copy.id) as any;
+  assert.notEqual(copiedInvite.token, inv.token);
+  assert.equal(copiedInvite.nudge_eligible, 0);
+  const picks = getDb().prepare(`SELECT picks_json FROM selections WHERE invite_id = ?`).get(copiedInvite.id) as any;
+  assert.deepEqual(JSON.parse(picks.picks_json), { dinner: ["Picnic"], mood: ["Cozy", "Playful"] });
+  assert.equal(outbox().length, 0);
+});
+
+test("themes new to this instance come along and belong to the importer; existing ones are kept", async () => {
+  const owner = await testPlanner();
+  const dn = testDateNight(owner.id);
+  const doc = JSON.parse(JSON.stringify(exportDateNights([dn])));
+  doc.themes.push({ ...doc.themes[0], id: "picnic-days", name: "Picnic days" });
+  doc.themes[0].name = "Renamed elsewhere";
+  doc.dateNights[0].themeId = "picnic-days";
+
+  const report = importExport(doc, owner.id, { dryRun: false });
+  assert.deepEqual(report.themesCreated, ["Picnic days"]);
+  assert.deepEqual(report.themesKept, ["Cottagecore Classic"]);
+  assert.equal(getTheme("picnic-days")?.ownerId, owner.id);
+  assert.equal(getTheme("cottagecore-classic")?.name, "Cottagecore Classic");
+});
@@ -0,0 +1,399 @@
+import { nanoid } from "nanoid";
+
+import { parseDateSlots, slotsFromBody } from "./date_poll";
+import { getDb } from "./db";
+import { isValidTimeZone } from "./format";
+import { parseLocale } from "./i18n";
+import { parseMenu, parsePicks, type Menu, type Picks } from "./menu";
+import { parseReminderRules, type ReminderRules } from "./reminders";
+import { getTheme, type Theme } from "./themes";
+import { parseGroupSettings, parseTieBreaks, type GroupSettings } from "./voting";
+
+/**
+ * Versioned JSON export of date nights with everything needed to bring them back elsewhere: menu,
+ * invites, selections with their revisions, and the themes they use. Reminders already sent and
+ * queued emails are not part of it.
+ */
+export const EXPORT_FORMAT = "date-night-cottage/export";
+export const EXPORT_VERSION = 1;
+
+export type ExportedTheme = { id: string; name: string; blurb: string; options: Menu; archivedAt: string | null };
+
+export type ExportedSelection = {
+  id: string;
+  picks: Picks;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string | null;
+  revisions: Array<{ id: string; picks: Picks; notes: string | null; createdAt: string }>;
+};
+
+export type ExportedInvite = {
+  id: string;
+  token: string;
+  recipientEmail: string | null;
+  /** Missing in exports made before invites had a language. */
+  locale?: string | null;
+  usedAt: string | null;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  selection: ExportedSelection | null;
+};
+
+export type ExportedDateNight = {
+  id: string;
+  title: string;
+  themeId: string;
+  date: string | null;
+  startTime: string | null;
+  durationMinutes: number | null;
+  location: string | null;
+  blurb: string | null;
+  lockInAt: string | null;
+  /** Missing in exports made before date nights had a time zone. */
+  timeZone?: string | null;
+  /** Missing in exports made before options could have a cost. */
+  maxOptionCost?: number | null;
+  /** Missing in exports made before group date nights, and for one-on-one date nights. */
+  group?: GroupSettings | null;
+  tieBreaks?: Record<string, string>;
+  /** Kept so an imported group date night doesn't email its final plan all over again. */
+  finalPlanSentAt?: string | null;
+  /** Candidate dates while the date isn't set; missing in exports made before date polls. */
+  dateSlots?: Array<{ date: string; startTime: string | null }>;
+  /** Surprise mode's reveal time, and when the reveal email went out; missing in older exports. */
+  revealAt?: string | null;
+  revealSentAt?: string | null;
+  menu: Menu;
+  reminders: ReminderRules;
+  calendarSequence: number;
+  createdAt: string;
+  invites: ExportedInvite[];
+};
+
+export type ExportDocument = {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  themes: ExportedTheme[];
+  dateNights: ExportedDateNight[];
+};
+
+export type ImportReport = {
+  dryRun: boolean;
+  themesCreated: string[];
+  themesKept: string[];
+  dateNights: Array<{ id: string; title: string }>;
+  invites: number;
+  selections: number;
+  revisions: number;
+  /** Ids already taken on this instance, replaced with fresh ones. */
+  remappedIds: number;
+  /** Invite links already taken on this instance; those invites get a new link. */
+  regeneratedTokens: number;
+};
+
+export function exportDateNights(dateNights: any[]): ExportDocument {
+  const db = getDb();
+  const invitesStmt = db.prepare(`SELECT * FROM invites WHERE date_night_id = ? ORDER BY created_at`);
+  const selectionStmt = db.prepare(`SELECT * FROM selections WHERE invite_id = ?`);
+  const revisionsStmt = db.prepare(`SELECT * FROM selection_revisions WHERE selection_id = ? ORDER BY created_at`);
+
+  const themes = new Map<string, ExportedTheme>();
+  const exported = dateNights.map((dn): ExportedDateNight => {
+    const theme = getTheme(dn.theme_id);
+    if (theme && !themes.has(theme.id)) {
+      themes.set(theme.id, { id: theme.id, name: theme.name, blurb: theme.blurb, options: theme.options, archivedAt: theme.archivedAt });
+    }
+
+    const invites = (invitesStmt.all(dn.id) as any[]).map((inv): ExportedInvite => {
+      const sel = selectionStmt.get(inv.id) as any;
+      return {
+        id: inv.id,
+        token: inv.token,
+        recipientEmail: inv.recipient_email,
+        locale: inv.locale,
+        usedAt: inv.used_at,
+        expiresAt: inv.expires_at,
+        revokedAt: inv.revoked_at,
+        createdAt: inv.created_at,
+        selection: sel
+          ? {
+            id: sel.id,
+            picks: parsePicks(sel.picks_json),
+            notes: sel.notes,
+            createdAt: sel.created_at,
+            updatedAt: sel.updated_at,
+            revisions: (revisionsStmt.all(sel.id) as any[]).map(r => ({
+              id: r.id,
+              picks: parsePicks(r.picks_json),
+              notes: r.notes,
+              createdAt: r.created_at,
+            })),
+          }
+          : null,
+      };
+    });
+
+    return {
+      id: dn.id,
+      title: dn.title,
+      themeId: dn.theme_id,
+      date: dn.date_iso,
+      startTime: dn.start_time,
+      durationMinutes: dn.duration_minutes,
+      location: dn.location,
+      blurb: dn.blurb,
+      lockInAt: dn.lock_in_at,
+      timeZone: dn.time_zone,
+      maxOptionCost: dn.max_option_cost,
+      group: parseGroupSettings(dn.group_json),
+      tieBreaks: parseTieBreaks(dn.tie_breaks_json),
+      finalPlanSentAt: dn.final_plan_sent_at ?? null,
+      dateSlots: parseDateSlots(dn.date_slots_json).map(s => ({ date: s.dateIso, startTime: s.startTime })),
+      revealAt: dn.reveal_at ?? null,
+      revealSentAt: dn.reveal_sent_at ?? null,
+      menu: parseMenu(dn.menu_json),
+      reminders: parseReminderRules(dn.reminder_rules_json),
+      calendarSequence: dn.calendar_sequence ?? 0,
+      createdAt: dn.created_at,
+      invites,
+    };
+  });
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    themes: [...themes.values()],
+    dateNights: exported,
+  };
+}
+
+const isObject = (v: unknown): v is Record<string, any> => Boolean(v) && typeof v === "object" && !Array.isArray(v);
+const isString = (v: unknown): v is string => typeof v === "string" && v.length > 0;
+const isOptString = (v: unknown) => v === null || v === undefined || typeof v === "string";
+const isPicks = (v: unknown) => isObject(v) && Object.values(v).every(x => Array.isArray(x) && x.every(s => typeof s === "string"));
+const isMenu = (v: unknown) => isObject(v) && Array.isArray(v.categories);
+
+/**
+ * Checks the shape of an import document and returns every problem found (not just the first),
+ * each prefixed with where it is, e.g. `dateNights[0].invites[2].token`.
+ */
+export function validateExport(doc: unknown): string[] {
+  const errors: string[] = [];
+  const check = (ok: boolean, where: string, what: string) => {
+    if (!ok) errors.push(`${where}: ${what}`);
+  };
+
+  if (!isObject(doc)) return ["The file isn’t a JSON object."];
+  if (doc.format !== EXPORT_FORMAT) return [`This isn’t a date night export (expected format "${EXPORT_FORMAT}").`];
+  if (!Number.isInteger(doc.version) || doc.version < 1) return ["The export has no valid version."];
+  if (doc.version > EXPORT_VERSION) return [`The export is version ${doc.version}; this app reads up to version ${EXPORT_VERSION}.`];
+  if (!Array.isArray(doc.themes)) return ["themes: should be a list."];
+  if (!Array.isArray(doc.dateNights)) return ["dateNights: should be a list."];
+
+  const themeIds = new Set<string>();
+  doc.themes.forEach((t: any, i: number) => {
+    const at = `themes[${i}]`;
+    if (!isObject(t)) return check(false, at, "should be an object");
+    check(isString(t.id), `${at}.id`, "is required");
+    check(isString(t.name), `${at}.name`, "is required");
+    check(typeof t.blurb === "string", `${at}.blurb`, "should be text");
+    check(isMenu(t.options), `${at}.options`, "should be a menu with categories");
+    if (isString(t.id)) themeIds.add(t.id);
+  });
+
+  doc.dateNights.forEach((dn: any, i: number) => {
+    const at = `dateNights[${i}]`;
+    if (!isObject(dn)) return check(false, at, "should be an object");
+    check(isString(dn.id), `${at}.id`, "is required");
+    check(isString(dn.title), `${at}.title`, "is required");
+    check(isString(dn.createdAt), `${at}.createdAt`, "is required");
+    check(isMenu(dn.menu), `${at}.menu`, "should be a menu with categories");
+    check(dn.date === null || dn.date === undefined || /^\d{4}-\d{2}-\d{2}$/.test(dn.date), `${at}.date`, "should be YYYY-MM-DD");
+    for (const key of ["startTime", "location", "blurb", "lockInAt", "finalPlanSentAt", "revealAt", "revealSentAt"]) check(isOptString(dn[key]), `${at}.${key}`, "should be text");
+    check(!dn.timeZone || (typeof dn.timeZone === "string" && isValidTimeZone(dn.timeZone)), `${at}.timeZone`, "should be a time zone like Europe/Paris");
+    check(dn.maxOptionCost === null || dn.maxOptionCost === undefined || (typeof dn.maxOptionCost === "number" && dn.maxOptionCost >= 0), `${at}.maxOptionCost`, "should be a number");
+    check(
+      dn.dateSlots === undefined ||
+        (Array.isArray(dn.dateSlots) && !("error" in slotsFromBody(dn.dateSlots.map((s: any) => ({ date: s?.date, time: s?.startTime ?? "" }))))),
+      `${at}.dateSlots`,
+      "should be a list of { date, startTime }"
+    );
+    check(dn.durationMinutes === null || dn.durationMinutes === undefined || Number.isInteger(dn.durationMinutes), `${at}.durationMinutes`, "should be a whole number");
+    check(
+      isString(dn.themeId) && (themeIds.has(dn.themeId) || Boolean(getTheme(dn.themeId))),
+      `${at}.themeId`,
+      "should name a theme in the export or on this instance"
+    );
+    if (!Array.isArray(dn.invites)) return check(false, `${at}.invites`, "should be a list");
+
+    dn.invites.forEach((inv: any, j: number) => {
+      const ia = `${at}.invites[${j}]`;
+      if (!isObject(inv)) return check(false, ia, "should be an object");
+      check(isString(inv.id), `${ia}.id`, "is required");
+      check(isString(inv.token), `${ia}.token`, "is required");
+      check(isString(inv.createdAt), `${ia}.createdAt`, "is required");
+      for (const key of ["recipientEmail", "locale", "usedAt", "expiresAt", "revokedAt"]) check(isOptString(inv[key]), `${ia}.${key}`, "should be text");
+      if (inv.selection === null || inv.selection === undefined) return;
+
+      const sel = inv.selection;
+      const sa = `${ia}.selection`;
+      if (!isObject(sel)) return check(false, sa, "should be an object or null");
+      check(isString(sel.id), `${sa}.id`, "is required");
+      check(isPicks(sel.picks), `${sa}.picks`, "should map category keys to lists of options");
+      check(isString(sel.createdAt), `${sa}.createdAt`, "is required");
+      check(isOptString(sel.notes), `${sa}.notes`, "should be text");
+      if (!Array.isArray(sel.revisions)) return check(false, `${sa}.revisions`, "should be a list");
+      sel.revisions.forEach((r: any, k: number) => {
+        const ra = `${sa}.revisions[${k}]`;
+        if (!isObject(r)) return check(false, ra, "should be an object");
+        check(isString(r.id), `${ra}.id`, "is required");
+        check(isPicks(r.picks), `${ra}.picks`, "should map category keys to lists of options");
+        check(isString(r.createdAt), `${ra}.createdAt`, "is required");
+      });
+    });
+  });
+
+  return errors;
+}
+
+/** Thrown inside the import transaction to roll a dry run back once the report is complete. */
+class DryRunRollback extends Error {}
+
+function sameTheme(existing: Theme, t: ExportedTheme) {
+  return existing.name === t.name && existing.blurb === t.blurb && JSON.stringify(existing.options) === JSON.stringify(parseMenu(JSON.stringify(t.options)));
+}
+
+/**
+ * Imports a validated export for `ownerId`. Ids that already exist here are replaced with fresh
+ * ones and clashing invite tokens are regenerated, so an import never overwrites anything. Themes
+ * that already exist (same id) are kept as they are here; new ones belong to `ownerId`. A dry run
+ * does all of that inside a transaction and rolls it back, so the preview matches what a real
+ * import would do.
+ */
+export function importExport(doc: ExportDocument, ownerId: string, opts: { dryRun: boolean }): ImportReport {
+  const db = getDb();
+  const report: ImportReport = {
+    dryRun: opts.dryRun,
+    themesCreated: [],
+    themesKept: [],
+    dateNights: [],
+    invites: 0,
+    selections: 0,
+    revisions: 0,
+    remappedIds: 0,
+    regeneratedTokens: 0,
+  };
+
+  const exists = (table: string) => db.prepare(`SELECT 1 FROM ${table} WHERE id = ?`);
+  const dateNightExists = exists("date_nights");
+  const inviteExists = exists("invites");
+  const selectionExists = exists("selections");
+  const revisionExists = exists("selection_revisions");
+  const tokenExists = db.prepare(`SELECT 1 FROM invites WHERE token = ?`);
+  const freshId = (id: string, stmt: ReturnType<typeof exists>) => {
+    if (!stmt.get(id)) return id;
+    report.remappedIds++;
+    return nanoid(12);
+  };
+
+  const insertTheme = db.prepare(`
+    INSERT INTO themes (id, name, blurb, options_json, archived_at, owner_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertDateNight = db.prepare(`
+    INSERT INTO date_nights
+      (id, owner_id, title, theme_id, date_iso, start_time, duration_minutes, location, menu_json, blurb,
+       lock_in_at, time_zone, max_option_cost, reminder_rules_json, group_json, tie_breaks_json, final_plan_sent_at,
+       date_slots_json, reveal_at, reveal_sent_at, calendar_sequence, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertInvite = db.prepare(`
+    INSERT INTO invites (id, date_night_id, token, recipient_email, locale, used_at, expires_at, revoked_at, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertSelection = db.prepare(`
+    INSERT INTO selections (id, invite_id, picks_json, notes, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  const insertRevision = db.prepare(`
+    INSERT INTO selection_revisions (id, selection_id, picks_json, notes, created_at) VALUES (?, ?, ?, ?, ?)
+  `);
+
+  const run = db.transaction(() => {
+    const now = new Date().toISOString();
+    for (const t of doc.themes) {
+      const existing = getTheme(t.id);
+      if (existing) {
+        if (!sameTheme(existing, t)) report.themesKept.push(existing.name);
+        continue;
+      }
+      insertTheme.run(t.id, t.name, t.blurb, JSON.stringify(parseMenu(JSON.stringify(t.options))), t.archivedAt ?? null, ownerId, now, now);
+      report.themesCreated.push(t.name);
+    }
+
+    for (const dn of doc.dateNights) {
+      const dnId = freshId(dn.id, dateNightExists);
+      insertDateNight.run(
+        dnId, ownerId, dn.title, dn.themeId, dn.date ?? null, dn.startTime ?? null, dn.durationMinutes ?? null,
+        dn.location ?? null, JSON.stringify(parseMenu(JSON.stringify(dn.menu))), dn.blurb ?? null, dn.lockInAt ?? null,
+        dn.timeZone || null, dn.maxOptionCost ?? null,
+        dn.reminders ? JSON.stringify(parseReminderRules(JSON.stringify(dn.reminders))) : null,
+        dn.group ? JSON.stringify(parseGroupSettings(JSON.stringify(dn.group))) : null,
+        dn.tieBreaks ? JSON.stringify(parseTieBreaks(JSON.stringify(dn.tieBreaks))) : null,
+        dn.finalPlanSentAt ?? null,
+        dn.dateSlots?.length ? JSON.stringify(dn.dateSlots.map(s => ({ dateIso: s.date, startTime: s.startTime || null }))) : null,
+        dn.revealAt ?? null, dn.revealSentAt ?? null,
+        Number(dn.calendarSequence) || 0, dn.createdAt
+      );
+      report.dateNights.push({ id: dnId, title: dn.title });
+
+      for (const inv of dn.invites) {
+        const invId = freshId(inv.id, inviteExists);
+        let token = inv.token;
+        if (tokenExists.get(token)) {
+          token = nanoid(22);
+          report.regeneratedTokens++;
+        }
+        insertInvite.run(
+          invId, dnId, token, inv.recipientEmail ?? null, parseLocale(inv.locale) ?? null, inv.usedAt ?? null, inv.expiresAt ?? null,
+          inv.revokedAt ?? null, inv.createdAt
+        );
+        report.invites++;
+
+        const sel = inv.selection;
+        if (!sel) continue;
+        const selId = freshId(sel.id, selectionExists);
+        insertSelection.run(selId, invId, JSON.stringify(sel.picks), sel.notes ?? null, sel.createdAt, sel.updatedAt ?? null);
+        report.selections++;
+
+        for (const r of sel.revisions) {
+          insertRevision.run(freshId(r.id, revisionExists), selId, JSON.stringify(r.picks), r.notes ?? null, r.createdAt);
+          report.revisions++;
+        }
+      }
+    }
+
+    if (opts.dryRun) throw new DryRunRollback();
+  });
+
+  try {
+    run();
+  } catch (e) {
+    if (!(e instanceof DryRunRollback)) throw e;
+  }
+  return report;
+}
+
+/** One-line summary for flashes and the CLI. */
+export function describeImport(r: ImportReport) {
+  const parts = [
+    `${r.dateNights.length} date night${r.dateNights.length === 1 ? "" : "s"}`,
+    `${r.invites} invite${r.invites === 1 ? "" : "s"}`,
+    `${r.selections} selection${r.selections === 1 ? "" : "s"}`,
+    `${r.revisions} revision${r.revisions === 1 ? "" : "s"}`,
+  ];
+  if (r.themesCreated.length) parts.push(`themes ${r.themesCreated.join(", ")}`);
+  return parts.join(", ");
+}
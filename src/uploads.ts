@@ -0,0 +1,60 @@
+import fs from "fs";
+import path from "path";
+import { nanoid } from "nanoid";
+
+import { makeThumbnail } from "./thumbnails";
+
+/**
+ * Images uploaded from the admin pages (photos for menu options) and memories photos. Files live in
+ * `UPLOADS_DIR` (`./uploads` by default) and are served from `/uploads/`; menus only keep the path.
+ */
+const IMAGE_TYPES: Record<string, { ext: string; looksRight: (b: Buffer) => boolean }> = {
+  "image/png": { ext: "png", looksRight: b => b.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  "image/jpeg": { ext: "jpg", looksRight: b => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff },
+  "image/gif": { ext: "gif", looksRight: b => b.subarray(0, 4).toString("latin1") === "GIF8" },
+  "image/webp": { ext: "webp", looksRight: b => b.subarray(0, 4).toString("latin1") === "RIFF" && b.subarray(8, 12).toString("latin1") === "WEBP" },
+};
+
+export const IMAGE_CONTENT_TYPES = Object.keys(IMAGE_TYPES);
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+export function uploadsDir() {
+  return process.env.UPLOADS_DIR || path.join(process.cwd(), "uploads");
+}
+
+/** Only paths this app handed out are accepted back, so a menu can't point anywhere else. */
+export function isUploadPath(p: string) {
+  return /^\/uploads\/[\w-]+(\.thumb)?\.(png|jpg|gif|webp)$/.test(p);
+}
+
+/**
+ * Checks the file starts with the claimed type's magic bytes (the rest isn't inspected) before
+ * writing it. With `thumbnail`, a small preview is written next to it as `<name>.thumb.<ext>`;
+ * `thumbPath` is the original when none could be made.
+ */
+export function saveImageUpload(
+  body: Buffer,
+  contentType: string,
+  opts: { thumbnail?: boolean } = {}
+): { path: string; thumbPath: string } | { error: string } {
+  const type = IMAGE_TYPES[contentType.split(";")[0].trim().toLowerCase()];
+  if (!type) return { error: "Please upload a PNG, JPEG, GIF or WebP image." };
+  if (body.length === 0 || !type.looksRight(body)) return { error: "That file doesn’t look like the image it says it is." };
+
+  const dir = uploadsDir();
+  fs.mkdirSync(dir, { recursive: true });
+  const id = nanoid(16);
+  const name = `${id}.${type.ext}`;
+  const thumb = opts.thumbnail ? makeThumbnail(body, type.ext) : null;
+  fs.writeFileSync(path.join(dir, name), body);
+  if (!thumb) return { path: `/uploads/${name}`, thumbPath: `/uploads/${name}` };
+  const thumbName = `${id}.thumb.${thumb.ext}`;
+  fs.writeFileSync(path.join(dir, thumbName), thumb.data);
+  return { path: `/uploads/${name}`, thumbPath: `/uploads/${thumbName}` };
+}
+
+/** Removes an uploaded file (and quietly ignores one that's already gone). */
+export function removeUpload(p: string) {
+  if (!isUploadPath(p)) return;
+  fs.rmSync(path.join(uploadsDir(), path.basename(p)), { force: true });
+}
@@ -0,0 +1,146 @@
+import crypto from "crypto";
+import { nanoid } from "nanoid";
+import { promisify } from "util";
+
+import { getDb } from "./db";
+
+export type User = {
+  id: string;
+  email: string;
+  name: string;
+  /** Where this planner's notifications go; the sign-in email when empty. */
+  notifyEmail: string | null;
+  /** Can add planners and edit the shared themes and email templates; the first account always can. */
+  canManage: boolean;
+  createdAt: string;
+};
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number, opts: crypto.ScryptOptions) => Promise<Buffer>;
+
+const SCRYPT = { N: 16384, r: 8, p: 1, keylen: 64 };
+export const MIN_PASSWORD_LENGTH = 10;
+
+/** Stored as `scrypt$N$r$p$salt$hash` so the cost can be raised later without breaking old hashes. */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, SCRYPT.keylen, { N: SCRYPT.N, r: SCRYPT.r, p: SCRYPT.p });
+  return ["scrypt", SCRYPT.N, SCRYPT.r, SCRYPT.p, salt.toString("base64"), hash.toString("base64")].join("$");
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64");
+  const actual = await scrypt(password, Buffer.from(salt, "base64"), expected.length, { N: Number(N), r: Number(r), p: Number(p) });
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+export function rowToUser(row: any): User {
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    notifyEmail: row.notify_email,
+    canManage: Boolean(row.can_manage),
+    createdAt: row.created_at,
+  };
+}
+
+export function notifyAddress(u: Pick<User, "email" | "notifyEmail">) {
+  return u.notifyEmail || u.email;
+}
+
+export function countUsers(): number {
+  return (getDb().prepare(`SELECT COUNT(*) AS n FROM users`).get() as { n: number }).n;
+}
+
+export function getUser(id: string): User | undefined {
+  const row = getDb().prepare(`SELECT * FROM users WHERE id = ?`).get(id);
+  return row ? rowToUser(row) : undefined;
+}
+
+export function getUserByEmail(email: string): User | undefined {
+  const row = getDb().prepare(`SELECT * FROM users WHERE email = ?`).get(email.trim());
+  return row ? rowToUser(row) : undefined;
+}
+
+export function listUsers(): User[] {
+  return getDb().prepare(`SELECT * FROM users ORDER BY name COLLATE NOCASE`).all().map(rowToUser);
+}
+
+function isEmail(s: string) {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(s);
+}
+
+/** Checks the account fields shared by setup, "add a planner" and account settings. */
+export function accountFromBody(body: any, opts: { requirePassword: boolean }):
+  { name: string; email: string; notifyEmail: string | null; password: string | null } | { error: string } {
+  const name = String(body.name || "").trim();
+  const email = String(body.email || "").trim();
+  const notifyEmail = String(body.notifyEmail || "").trim() || null;
+  const password = String(body.password || "");
+
+  if (!name) return { error: "Please add a name." };
+  if (!isEmail(email)) return { error: "That sign-in email doesn’t look right." };
+  if (notifyEmail && !isEmail(notifyEmail)) return { error: "That notification email doesn’t look right." };
+  if ((opts.requirePassword || password) && password.length < MIN_PASSWORD_LENGTH) {
+    return { error: `Passwords need at least ${MIN_PASSWORD_LENGTH} characters.` };
+  }
+  return { name, email, notifyEmail, password: password || null };
+}
+
+export async function createUser(input: {
+  name: string;
+  email: string;
+  notifyEmail: string | null;
+  password: string;
+  canManage?: boolean;
+}): Promise<User> {
+  const id = nanoid(12);
+  const now = new Date().toISOString();
+  const passwordHash = await hashPassword(input.password);
+  getDb().prepare(`
+    INSERT INTO users (id, email, name, password_hash, notify_email, can_manage, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(id, input.email, input.name, passwordHash, input.notifyEmail, input.canManage ? 1 : 0, now, now);
+  return getUser(id)!;
+}
+
+/**
+ * The very first account takes over everything made while the app had a single shared password,
+ * so nothing becomes unreachable, and can manage the cottage.
+ */
+export async function createFirstUser(input: { name: string; email: string; notifyEmail: string | null; password: string }) {
+  const user = await createUser({ ...input, canManage: true });
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare(`UPDATE date_nights SET owner_id = ? WHERE owner_id IS NULL`).run(user.id);
+    db.prepare(`UPDATE api_tokens SET user_id = ? WHERE user_id IS NULL`).run(user.id);
+  })();
+  return user;
+}
+
+export async function updateUser(id: string, input: { name: string; email: string; notifyEmail: string | null; password: string | null }) {
+  const now = new Date().toISOString();
+  const db = getDb();
+  db.prepare(`UPDATE users SET name = ?, email = ?, notify_email = ?, updated_at = ? WHERE id = ?`)
+    .run(input.name, input.email, input.notifyEmail, now, id);
+  if (input.password) {
+    db.prepare(`UPDATE users SET password_hash = ? WHERE id = ?`).run(await hashPassword(input.password), id);
+  }
+}
+
+/** Returns the user for a correct email/password pair. Unknown emails cost the same as wrong passwords. */
+export async function authenticate(email: string, password: string): Promise<User | undefined> {
+  const row = getDb().prepare(`SELECT * FROM users WHERE email = ?`).get(email.trim()) as any;
+  if (!row) {
+    await hashPassword(password);
+    return undefined;
+  }
+  return (await verifyPassword(password, row.password_hash)) ? rowToUser(row) : undefined;
+}
+
+export async function checkPassword(userId: string, password: string): Promise<boolean> {
+  const row = getDb().prepare(`SELECT password_hash FROM users WHERE id = ?`).get(userId) as any;
+  return row ? verifyPassword(password, row.password_hash) : false;
+}
@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { getDb } from "./db";
+import type { MenuCategory } from "./menu";
+import { outbox, testAnswer, testDateNight, testInvite, testPlanner } from "./test_helpers";
+import { runFinalPlans, tallyCategory } from "./voting";
+
+const one: MenuCategory = { key: "dinner", label: "Dinner", mode: "one", options: ["Pasta", "Soup", "Tacos"] };
+const rank: MenuCategory = { ...one, mode: "rank" };
+const many: MenuCategory = { key: "mood", label: "Mood", mode: "many", maxPicks: 2, options: ["Cozy", "Romantic", "Playful"] };
+
+test("plurality: most votes wins, and a tie goes to the option listed first", () => {
+  const won = tallyCategory(one, [{ dinner: ["Soup"] }, { dinner: ["Soup"] }, { dinner: ["Tacos"] }], "plurality");
+  assert.deepEqual(won.winners, ["Soup"]);
+  assert.deepEqual(won.votes, [{ option: "Pasta", count: 0 }, { option: "Soup", count: 2 }, { option: "Tacos", count: 1 }]);
+
+  const tied = tallyCategory(one, [{ dinner: ["Tacos"] }, { dinner: ["Soup"] }], "plurality");
+  assert.deepEqual(tied.winners, ["Soup"]);
+  assert.equal(tied.tieBrokenBy, "menu");
+});
+
+test("planner rule: a tie stays open until the planner picks one of the tied options", () => {
+  const selections = [{ dinner: ["Tacos"] }, { dinner: ["Soup"] }];
+  const open = tallyCategory(one, selections, "planner");
+  assert.deepEqual(open.winners, []);
+  assert.deepEqual(open.tied, ["Soup", "Tacos"]);
+
+  assert.deepEqual(tallyCategory(one, selections, "planner", "Pasta").tied, ["Soup", "Tacos"]);
+  const settled = tallyCategory(one, selections, "planner", "Tacos");
+  assert.deepEqual(settled.winners, ["Tacos"]);
+  assert.equal(settled.tieBrokenBy, "planner");
+});
+
+test("pick several: keeps what at least half the voters chose, up to the pick limit", () => {
+  const selections = [{ mood: ["Cozy", "Romantic", "Playful"] }, { mood: ["Cozy", "Playful"] }, { mood: ["Cozy"] }, { mood: ["Romantic"] }];
+  assert.deepEqual(tallyCategory(many, selections, "plurality").winners, ["Cozy", "Romantic"]);
+  assert.deepEqual(tallyCategory({ ...many, maxPicks: 1 }, selections, "plurality").winners, ["Cozy"]);
+  assert.deepEqual(tallyCategory(many, [{ mood: ["Playful"] }, { mood: ["Cozy"] }, { mood: ["Romantic"] }], "plurality").winners, ["Cozy"]);
+});
+
+test("ranked choice: the least-liked option drops out and its votes move on", () => {
+  const ballots = [
+    { dinner: ["Pasta"] },
+    { dinner: ["Pasta"] },
+    { dinner: ["Soup", "Tacos"] },
+    { dinner: ["Tacos", "Soup"] },
+    { dinner: ["Tacos", "Soup"] },
+  ];
+  // Most first choices would be a Pasta/Tacos tie; Soup dropping out hands its vote to Tacos.
+  const result = tallyCategory(rank, ballots, "ranked");
+  assert.deepEqual(result.eliminated, ["Soup"]);
+  assert.deepEqual(result.winners, ["Tacos"]);
+});
+
+test("ranked choice: a dead heat goes to the option listed first, and ballots only count options still on the menu", () => {
+  const heat = tallyCategory(rank, [{ dinner: ["Pasta"] }, { dinner: ["Soup"] }, { dinner: ["Tacos"] }], "ranked");
+  assert.deepEqual(heat.eliminated, []);
+  assert.deepEqual(heat.winners, ["Pasta"]);
+
+  const stale = tallyCategory(rank, [{ dinner: ["Gone", "Soup"] }, { dinner: ["Pasta"] }, { dinner: ["Soup"] }], "ranked");
+  assert.deepEqual(stale.winners, ["Soup"]);
+});
+
+test("the final plan goes out when picks lock in, even with votes missing, and only once", async () => {
+  const owner = await testPlanner();
+  const dn = testDateNight(owner.id, {
+    group_json: JSON.stringify({ rule: "plurality", showTally: false }),
+    lock_in_at: "2026-10-20T18:00:00.000Z",
+  });
+  const voted = testInvite(dn.id);
+  testInvite(dn.id);
+  testAnswer(voted.id, { dinner: ["Picnic"], mood: ["Cozy"] });
+  const ctx = { plannerEmails: () => ["planner@example.com"] };
+
+  await runFinalPlans(ctx, new Date("2026-10-20T17:59:00.000Z"));
+  assert.equal(outbox().length, 0);
+
+  await runFinalPlans(ctx, new Date("2026-10-20T18:00:00.000Z"));
+  await runFinalPlans(ctx, new Date("2026-10-20T18:05:00.000Z"));
+  assert.equal(outbox().filter(m => m.kind === "final_plan").length, 3);
+  const row = getDb().prepare(`SELECT final_plan_sent_at FROM date_nights WHERE id = ?`).get(dn.id) as any;
+  assert.equal(row.final_plan_sent_at, "2026-10-20T18:00:00.000Z");
+});
@@ -0,0 +1,293 @@
+import { getDb } from "./db";
+import { renderFinalPlanEmail } from "./email";
+import { formatWhen } from "./format";
+import { inviteState, inviteUrl } from "./invites";
+import { formatPickValue, parseMenu, parsePicks, type Menu, type MenuCategory, type Picks } from "./menu";
+import { queueEmail } from "./outbox";
+import { maskTally, surpriseHidden, teasers } from "./surprise";
+
+/**
+ * Group date nights: every invitee's picks are votes, tallied per category into one shared plan.
+ * Once everyone has answered (or the lock-in time passes) the final plan is emailed to all of them.
+ */
+export const RESOLUTION_RULES = [
+  { rule: "plurality", label: "Most votes wins (a tie goes to the option listed first)" },
+  { rule: "ranked", label: "Ranked choice: least-liked options drop out until one has a majority" },
+  { rule: "planner", label: "Most votes wins, and I break ties" },
+] as const;
+
+export type ResolutionRule = (typeof RESOLUTION_RULES)[number]["rule"];
+
+export type GroupSettings = {
+  rule: ResolutionRule;
+  /** Invitees see the running tally on their invite page once they've voted. */
+  showTally: boolean;
+};
+
+export type CategoryTally = {
+  key: string;
+  label: string;
+  mode: MenuCategory["mode"];
+  /** Votes per option in menu order; a ranking counts first choices. */
+  votes: Array<{ option: string; count: number }>;
+  winners: string[];
+  /** Options level for the last winning spot, waiting for the planner to choose. */
+  tied: string[];
+  tieBrokenBy: "planner" | "menu" | null;
+  /** Ranked choice only: options that dropped out, in order. */
+  eliminated: string[];
+};
+
+export type Tally = {
+  /** Invites that haven't been revoked. */
+  invited: number;
+  voted: number;
+  /** Open invites that could still vote. */
+  waiting: number;
+  categories: CategoryTally[];
+};
+
+export type FinalPlanContext = {
+  /** Planner addresses for a date night (owner and co-planners). */
+  plannerEmails: (dn: any) => string[];
+};
+
+/** Null when the date night isn't a group one. */
+export function parseGroupSettings(json: string | null | undefined): GroupSettings | null {
+  if (!json) return null;
+  try {
+    const g = JSON.parse(json);
+    if (!g || typeof g !== "object") return null;
+    const rule = RESOLUTION_RULES.some(r => r.rule === g.rule) ? g.rule : "plurality";
+    return { rule, showTally: g.showTally === true };
+  } catch {
+    return null;
+  }
+}
+
+/** Reads `groupMode`, `resolutionRule` and `showTally` from the edit form. */
+export function groupFromBody(body: any): { group: GroupSettings | null } | { error: string; field: string } {
+  if (!body.groupMode) return { group: null };
+  const rule = String(body.resolutionRule || "plurality");
+  if (!RESOLUTION_RULES.some(r => r.rule === rule)) {
+    return { error: "Please choose how votes are decided.", field: "resolutionRule" };
+  }
+  return { group: { rule: rule as ResolutionRule, showTally: Boolean(body.showTally) } };
+}
+
+export function parseTieBreaks(json: string | null | undefined): Record<string, string> {
+  try {
+    const v = JSON.parse(json || "{}");
+    return v && typeof v === "object" ? Object.fromEntries(Object.entries(v).filter((e): e is [string, string] => typeof e[1] === "string")) : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Each voter's choices for a category that are still on the menu, in their order. */
+function ballotsFor(c: MenuCategory, selections: Picks[]): string[][] {
+  return selections.map(p => (p[c.key] ?? []).filter(o => c.options.includes(o))).filter(b => b.length > 0);
+}
+
+/**
+ * Instant runoff: count each ballot for its highest-ranked option still standing, drop the
+ * option(s) with the fewest votes, and repeat until one has a majority. Returns who's left
+ * standing (more than one means a dead heat) and who dropped out.
+ */
+function instantRunoff(options: string[], ballots: string[][]): { standing: string[]; eliminated: string[] } {
+  let standing = [...options];
+  const eliminated: string[] = [];
+  for (;;) {
+    const counts = new Map(standing.map(o => [o, 0]));
+    let active = 0;
+    for (const b of ballots) {
+      const choice = b.find(o => counts.has(o));
+      if (choice === undefined) continue;
+      counts.set(choice, counts.get(choice)! + 1);
+      active++;
+    }
+    if (active === 0) return { standing, eliminated };
+    const top = Math.max(...counts.values());
+    if (top * 2 > active) return { standing: standing.filter(o => counts.get(o) === top), eliminated };
+    const fewest = Math.min(...counts.values());
+    const out = standing.filter(o => counts.get(o) === fewest);
+    if (out.length === standing.length) return { standing, eliminated };
+    standing = standing.filter(o => !out.includes(o));
+    eliminated.push(...out);
+  }
+}
+
+/**
+ * Fills `slots` winning spots from options ordered best first. Options level on votes across the
+ * last spot are a tie: the planner's pick settles it under the "planner" rule (until then it's
+ * left open), otherwise the option listed first on the menu goes through.
+ */
+function fillSlots(
+  ranked: Array<{ option: string; count: number }>, slots: number, rule: ResolutionRule, tieBreak: string | undefined
+): Pick<CategoryTally, "winners" | "tied" | "tieBrokenBy"> {
+  if (ranked.length <= slots) return { winners: ranked.map(r => r.option), tied: [], tieBrokenBy: null };
+  const cutoff = ranked[slots - 1].count;
+  const above = ranked.filter(r => r.count > cutoff).map(r => r.option);
+  const level = ranked.filter(r => r.count === cutoff).map(r => r.option);
+  const open = slots - above.length;
+  if (level.length <= open) return { winners: [...above, ...level], tied: [], tieBrokenBy: null };
+  if (rule === "planner") {
+    if (!tieBreak || !level.includes(tieBreak)) return { winners: above, tied: level, tieBrokenBy: null };
+    const rest = level.filter(o => o !== tieBreak);
+    return { winners: [...above, tieBreak, ...rest.slice(0, open - 1)], tied: [], tieBrokenBy: "planner" };
+  }
+  return { winners: [...above, ...level.slice(0, open)], tied: [], tieBrokenBy: "menu" };
+}
+
+/**
+ * One category's result. A single-choice or ranked category has one winner; a pick-several one
+ * keeps every option at least half the voters chose (or the favourite, when none is that popular),
+ * up to its pick limit.
+ */
+export function tallyCategory(c: MenuCategory, selections: Picks[], rule: ResolutionRule, tieBreak?: string): CategoryTally {
+  const ballots = ballotsFor(c, selections);
+  const votes = c.options.map(option => ({
+    option,
+    count: ballots.filter(b => (c.mode === "rank" ? b[0] === option : b.includes(option))).length,
+  }));
+  const base = { key: c.key, label: c.label, mode: c.mode, votes, eliminated: [] as string[] };
+  if (!ballots.length) return { ...base, winners: [], tied: [], tieBrokenBy: null };
+
+  if (rule === "ranked" && c.mode !== "many") {
+    const { standing, eliminated } = instantRunoff(c.options, ballots);
+    return { ...base, eliminated, ...fillSlots(standing.map(option => ({ option, count: 0 })), 1, rule, tieBreak) };
+  }
+
+  // A stable sort keeps menu order among equal counts, which is what breaks ties by default.
+  const ranked = votes.filter(v => v.count > 0).sort((a, b) => b.count - a.count);
+  let slots = 1;
+  if (c.mode === "many") {
+    const popular = ranked.filter(v => v.count * 2 >= ballots.length).length;
+    slots = Math.max(1, Math.min(popular, c.maxPicks ?? popular));
+  }
+  const result = fillSlots(ranked, slots, rule, tieBreak);
+  result.winners.sort((a, b) => c.options.indexOf(a) - c.options.indexOf(b));
+  return { ...base, ...result };
+}
+
+export function tallyVotes(menu: Menu, selections: Picks[], settings: GroupSettings, tieBreaks: Record<string, string> = {}) {
+  return menu.categories.map(c => tallyCategory(c, selections, settings.rule, tieBreaks[c.key]));
+}
+
+function groupInvites(dn: any) {
+  return (getDb().prepare(`
+    SELECT i.*, s.picks_json FROM invites i LEFT JOIN selections s ON s.invite_id = i.id
+    WHERE i.date_night_id = ? ORDER BY i.created_at
+  `).all(dn.id) as any[]).filter(i => !i.revoked_at);
+}
+
+/** The date night's tally so far; null when it isn't a group date night. */
+export function groupTally(dn: any, now = new Date()): Tally | null {
+  const settings = parseGroupSettings(dn.group_json);
+  if (!settings) return null;
+  const invites = groupInvites(dn);
+  const selections = invites.filter(i => i.picks_json).map(i => parsePicks(i.picks_json));
+  return {
+    invited: invites.length,
+    voted: selections.length,
+    waiting: invites.filter(i => inviteState(i, now) === "open").length,
+    categories: tallyVotes(parseMenu(dn.menu_json), selections, settings, parseTieBreaks(dn.tie_breaks_json)),
+  };
+}
+
+/** Settles a tie under the "planner" rule; the choice has to be one of the tied options. */
+export function breakTie(dn: any, categoryKey: string, option: string): { ok: true } | { error: string } {
+  const tally = groupTally(dn);
+  const category = tally?.categories.find(c => c.key === categoryKey);
+  if (!category) return { error: "That category isn’t on the menu anymore." };
+  if (!category.tied.includes(option)) return { error: "That option isn’t one of the tied ones." };
+  const tieBreaks = { ...parseTieBreaks(dn.tie_breaks_json), [categoryKey]: option };
+  getDb().prepare(`UPDATE date_nights SET tie_breaks_json = ? WHERE id = ?`).run(JSON.stringify(tieBreaks), dn.id);
+  return { ok: true };
+}
+
+/** What stops the final plan going out yet, or null when it's ready. */
+export function finalPlanBlocker(dn: any, tally: Tally, now = new Date()): string | null {
+  if (tally.voted === 0) return "Nobody has voted yet.";
+  const ties = tally.categories.filter(c => c.tied.length).map(c => c.label);
+  if (ties.length) return `Waiting for you to break the tie in ${ties.join(", ")}.`;
+  const deadlinePassed = Boolean(dn.lock_in_at && dn.lock_in_at <= now.toISOString());
+  if (tally.waiting > 0 && !deadlinePassed) return `Waiting for ${tally.waiting} more to vote.`;
+  return null;
+}
+
+function planLines(tally: Tally) {
+  return tally.categories
+    .filter(c => c.winners.length)
+    .map(c => ({ label: c.label, value: formatPickValue({ mode: c.mode === "rank" ? "one" : c.mode }, c.winners) }));
+}
+
+/**
+ * Emails the final plan to every invitee with an address (in their language) and the planners,
+ * once it's ready. It goes out once; `force` sends it again (or before everyone has voted), as
+ * long as no tie is left open.
+ */
+export async function sendFinalPlan(
+  dn: any, ctx: FinalPlanContext, opts: { force?: boolean; now?: Date } = {}
+): Promise<{ ok: true } | { error: string }> {
+  const now = opts.now ?? new Date();
+  const tally = groupTally(dn, now);
+  if (!tally) return { error: "This isn’t a group date night." };
+  const blocker = finalPlanBlocker(dn, tally, now);
+  if (blocker && !(opts.force && tally.voted > 0 && !tally.categories.some(c => c.tied.length))) return { error: blocker };
+
+  const claimed = getDb().prepare(`
+    UPDATE date_nights SET final_plan_sent_at = ? WHERE id = ? AND (final_plan_sent_at IS NULL OR ?)
+  `).run(now.toISOString(), dn.id, opts.force ? 1 : 0);
+  if (!claimed.changes) return { error: "The final plan has already been sent." };
+
+  const lines = planLines(tally);
+  // Invitees of a surprise only learn the teasers until the reveal.
+  const hidden = surpriseHidden(dn, now);
+  for (const inv of groupInvites(dn).filter(i => i.recipient_email)) {
+    const picks = hidden ? planLines(maskTally(tally, teasers(parseMenu(dn.menu_json), inv.locale))) : lines;
+    const email = renderFinalPlanEmail({
+      title: dn.title, whenText: formatWhen(dn, inv.locale), location: dn.location, picks, url: inviteUrl(inv.token), locale: inv.locale,
+    });
+    await queueEmail({ kind: "final_plan", inviteId: inv.id, to: inv.recipient_email, ...email });
+  }
+  const plannerEmail = renderFinalPlanEmail({ title: dn.title, whenText: formatWhen(dn), location: dn.location, picks: lines, url: null });
+  for (const to of ctx.plannerEmails(dn)) await queueEmail({ kind: "final_plan", inviteId: null, to, ...plannerEmail });
+  return { ok: true };
+}
+
+/** Sends the final plan if it's ready and hasn't gone out; quietly does nothing otherwise. */
+export async function sendFinalPlanIfReady(dn: any, ctx: FinalPlanContext, now = new Date()) {
+  if (dn.final_plan_sent_at) return;
+  const tally = groupTally(dn, now);
+  if (tally && !finalPlanBlocker(dn, tally, now)) await sendFinalPlan(dn, ctx, { now });
+}
+
+/** Catches the plans that become ready when picks lock in. */
+export async function runFinalPlans(ctx: FinalPlanContext, now: Date = new Date()) {
+  const due = getDb().prepare(`SELECT * FROM date_nights WHERE group_json IS NOT NULL AND final_plan_sent_at IS NULL`).all() as any[];
+  for (const dn of due) await sendFinalPlanIfReady(dn, ctx, now);
+}
+
+let scheduler: NodeJS.Timeout | null = null;
+
+export function startFinalPlanScheduler(ctx: FinalPlanContext, opts: { intervalMs?: number } = {}) {
+  if (scheduler) return;
+
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runFinalPlans(ctx);
+    } catch (e) {
+      console.error("[voting] tick failed", e);
+    } finally {
+      running = false;
+    }
+  };
+
+  scheduler = setInterval(tick, opts.intervalMs ?? 5 * 60_000);
+  scheduler.unref();
+  void tick();
+}
@@ -0,0 +1,306 @@
+import crypto from "crypto";
+import { nanoid } from "nanoid";
+
+import { baseUrl } from "./config";
+import { getDb } from "./db";
+
+/**
+ * Outgoing webhooks. Planners register endpoints for the events they care about; each event is
+ * POSTed as JSON, signed with the endpoint's secret, and retried with backoff like the email outbox.
+ *
+ * Receivers check `X-DateNight-Signature: sha256=<hex>`, the HMAC-SHA256 of
+ * `<X-DateNight-Timestamp>.<raw body>` keyed with the secret.
+ */
+export const WEBHOOK_EVENTS = [
+  { event: "date_night.created", label: "A date night is created" },
+  { event: "date_night.deleted", label: "A date night is deleted" },
+  { event: "invite.created", label: "An invite is created" },
+  { event: "invite.opened", label: "A partner first opens their invite" },
+  { event: "selection.submitted", label: "Picks come in" },
+  { event: "selection.updated", label: "Picks are changed" },
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number]["event"];
+
+export type Webhook = {
+  id: string;
+  userId: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  active: boolean;
+  createdAt: string;
+};
+
+export type DeliveryStatus = "pending" | "sending" | "delivered" | "failed";
+
+export type WebhookDelivery = {
+  id: string;
+  webhookId: string;
+  event: string;
+  payload: string;
+  status: DeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  responseBody: string | null;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  deliveredAt: string | null;
+  redeliveryOf: string | null;
+  createdAt: string;
+};
+
+/** Same rhythm as the email outbox: delay before attempt N+1, giving up after the last entry. */
+const RETRY_DELAYS_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000, 12 * 60 * 60_000];
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+const TIMEOUT_MS = 10_000;
+/** Enough of a receiver's reply to debug with, without filling the database. */
+const MAX_RESPONSE_CHARS = 1000;
+
+function rowToWebhook(r: any): Webhook {
+  return {
+    id: r.id,
+    userId: r.user_id,
+    url: r.url,
+    secret: r.secret,
+    events: JSON.parse(r.events_json),
+    active: Boolean(r.active),
+    createdAt: r.created_at,
+  };
+}
+
+function rowToDelivery(r: any): WebhookDelivery {
+  return {
+    id: r.id,
+    webhookId: r.webhook_id,
+    event: r.event,
+    payload: r.payload_json,
+    status: r.status,
+    attempts: r.attempts,
+    responseStatus: r.response_status,
+    responseBody: r.response_body,
+    lastError: r.last_error,
+    nextAttemptAt: r.next_attempt_at,
+    deliveredAt: r.delivered_at,
+    redeliveryOf: r.redelivery_of,
+    createdAt: r.created_at,
+  };
+}
+
+export function webhookFromBody(body: any): { url: string; events: WebhookEvent[] } | { error: string; field: string } {
+  const url = String(body.url || "").trim();
+  let parsed: URL | null = null;
+  try {
+    parsed = new URL(url);
+  } catch {}
+  if (!parsed || !["http:", "https:"].includes(parsed.protocol)) {
+    return { error: "Please enter an http(s) URL for the webhook.", field: "url" };
+  }
+  const raw = Array.isArray(body.events) ? body.events : body.events ? [body.events] : [];
+  const events = WEBHOOK_EVENTS.map(e => e.event).filter(e => raw.includes(e));
+  if (!events.length) return { error: "Pick at least one event to send.", field: "events" };
+  return { url, events };
+}
+
+export function createWebhook(userId: string, input: { url: string; events: WebhookEvent[] }): Webhook {
+  const id = nanoid(12);
+  getDb().prepare(`
+    INSERT INTO webhooks (id, user_id, url, secret, events_json, active, created_at) VALUES (?, ?, ?, ?, ?, 1, ?)
+  `).run(id, userId, input.url, `whsec_${nanoid(32)}`, JSON.stringify(input.events), new Date().toISOString());
+  return getWebhook(id, userId)!;
+}
+
+export function getWebhook(id: string, userId: string): Webhook | undefined {
+  const row = getDb().prepare(`SELECT * FROM webhooks WHERE id = ? AND user_id = ?`).get(id, userId);
+  return row ? rowToWebhook(row) : undefined;
+}
+
+export function listWebhooks(userId: string): Webhook[] {
+  return (getDb().prepare(`SELECT * FROM webhooks WHERE user_id = ? ORDER BY created_at`).all(userId) as any[]).map(rowToWebhook);
+}
+
+export function setWebhookActive(id: string, userId: string, active: boolean) {
+  getDb().prepare(`UPDATE webhooks SET active = ? WHERE id = ? AND user_id = ?`).run(active ? 1 : 0, id, userId);
+}
+
+/** Its delivery log goes with it (ON DELETE CASCADE). */
+export function deleteWebhook(id: string, userId: string) {
+  getDb().prepare(`DELETE FROM webhooks WHERE id = ? AND user_id = ?`).run(id, userId);
+}
+
+export function listDeliveries(webhookId: string, limit = 25): WebhookDelivery[] {
+  return (getDb().prepare(`SELECT * FROM webhook_deliveries WHERE webhook_id = ? ORDER BY created_at DESC LIMIT ?`)
+    .all(webhookId, limit) as any[]).map(rowToDelivery);
+}
+
+export function signPayload(secret: string, timestamp: string, body: string) {
+  return `sha256=${crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+function insertDelivery(webhookId: string, event: string, payloadJson: string, redeliveryOf: string | null = null) {
+  const id = nanoid(12);
+  const now = new Date().toISOString();
+  getDb().prepare(`
+    INSERT INTO webhook_deliveries
+      (id, webhook_id, event, payload_json, status, attempts, next_attempt_at, redelivery_of, created_at, updated_at)
+    VALUES (?, ?, ?, ?, 'pending', 0, ?, ?, ?, ?)
+  `).run(id, webhookId, event, payloadJson, now, redeliveryOf, now, now);
+  return id;
+}
+
+/** Attempts one delivery; a row already claimed by another attempt is left alone. */
+export async function deliverWebhook(id: string): Promise<WebhookDelivery> {
+  const db = getDb();
+  const claimed = db.prepare(`
+    UPDATE webhook_deliveries SET status = 'sending', updated_at = ? WHERE id = ? AND status IN ('pending', 'failed')
+  `).run(new Date().toISOString(), id);
+
+  const row = db.prepare(`
+    SELECT d.*, w.url, w.secret FROM webhook_deliveries d JOIN webhooks w ON w.id = d.webhook_id WHERE d.id = ?
+  `).get(id) as any;
+  if (!row) throw new Error(`Webhook delivery ${id} not found`);
+  if (claimed.changes === 0) return rowToDelivery(row);
+
+  const attempts = row.attempts + 1;
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+  try {
+    const res = await fetch(row.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "DateNightCottage-Webhooks",
+        "X-DateNight-Event": row.event,
+        "X-DateNight-Delivery": row.id,
+        "X-DateNight-Timestamp": timestamp,
+        "X-DateNight-Signature": signPayload(row.secret, timestamp, row.payload_json),
+      },
+      body: row.payload_json,
+      redirect: "manual",
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    responseStatus = res.status;
+    responseBody = (await res.text().catch(() => "")).slice(0, MAX_RESPONSE_CHARS);
+    if (!res.ok) error = `Receiver answered ${res.status}`;
+  } catch (e: any) {
+    error = e?.name === "TimeoutError" ? `No answer within ${TIMEOUT_MS / 1000}s` : e?.cause?.message || e?.message || String(e);
+  }
+
+  const now = Date.now();
+  const delay = RETRY_DELAYS_MS[attempts - 1];
+  const giveUp = attempts >= MAX_ATTEMPTS || delay === undefined;
+  db.prepare(`
+    UPDATE webhook_deliveries
+    SET status = ?, attempts = ?, response_status = ?, response_body = ?, last_error = ?, next_attempt_at = ?,
+        delivered_at = ?, updated_at = ?
+    WHERE id = ?
+  `).run(
+    !error ? "delivered" : giveUp ? "failed" : "pending",
+    attempts,
+    responseStatus,
+    responseBody,
+    error,
+    error && !giveUp ? new Date(now + delay).toISOString() : null,
+    error ? null : new Date(now).toISOString(),
+    new Date(now).toISOString(),
+    id
+  );
+  if (error) console.error(`[webhooks] ${row.event} to ${row.url} failed (attempt ${attempts}): ${error}`);
+
+  return rowToDelivery(db.prepare(`SELECT * FROM webhook_deliveries WHERE id = ?`).get(id));
+}
+
+/** What payloads say about a date night; enough to find it again through the API. */
+export function dateNightPayload(dn: any) {
+  return {
+    id: dn.id,
+    title: dn.title,
+    themeId: dn.theme_id,
+    date: dn.date_iso,
+    startTime: dn.start_time,
+    timeZone: dn.time_zone,
+    url: `${baseUrl()}/admin/date-night/${dn.id}`,
+  };
+}
+
+export function invitePayload(inv: any) {
+  return {
+    id: inv.id,
+    recipientEmail: inv.recipient_email,
+    locale: inv.locale,
+    url: `${baseUrl()}/invite/${inv.token}`,
+    expiresAt: inv.expires_at,
+    openedAt: inv.opened_at,
+  };
+}
+
+/**
+ * Sends an event about a date night to the active webhooks of its owner and co-planners that
+ * subscribe to it. Deliveries happen in the background so the page or API call isn't held up.
+ */
+export function emitEvent(event: WebhookEvent, dateNight: { id: string; owner_id: string | null }, data: Record<string, unknown>) {
+  const hooks = (getDb().prepare(`
+    SELECT * FROM webhooks
+    WHERE active = 1 AND (user_id = ? OR user_id IN (SELECT user_id FROM date_night_shares WHERE date_night_id = ?))
+  `).all(dateNight.owner_id, dateNight.id) as any[]).map(rowToWebhook).filter(w => w.events.includes(event));
+  if (!hooks.length) return;
+
+  const payload = JSON.stringify({ id: `evt_${nanoid(16)}`, event, createdAt: new Date().toISOString(), data });
+  for (const w of hooks) {
+    const id = insertDelivery(w.id, event, payload);
+    deliverWebhook(id).catch(e => console.error("[webhooks] delivery failed", e));
+  }
+}
+
+/** A `ping` to one endpoint, delivered right away so the admin page can show how it went. */
+export async function sendTestEvent(webhook: Webhook): Promise<WebhookDelivery> {
+  const payload = JSON.stringify({
+    id: `evt_${nanoid(16)}`,
+    event: "ping",
+    createdAt: new Date().toISOString(),
+    data: { webhookId: webhook.id, events: webhook.events },
+  });
+  return deliverWebhook(insertDelivery(webhook.id, "ping", payload));
+}
+
+/** Sends a past delivery's exact payload again as a new delivery (the event id stays the same). */
+export async function redeliver(deliveryId: string, userId: string): Promise<WebhookDelivery | undefined> {
+  const row = getDb().prepare(`
+    SELECT d.* FROM webhook_deliveries d JOIN webhooks w ON w.id = d.webhook_id WHERE d.id = ? AND w.user_id = ?
+  `).get(deliveryId, userId) as any;
+  if (!row) return undefined;
+  return deliverWebhook(insertDelivery(row.webhook_id, row.event, row.payload_json, row.id));
+}
+
+export async function processDueWebhooks(now = new Date()) {
+  const due = getDb().prepare(`
+    SELECT id FROM webhook_deliveries WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY next_attempt_at
+  `).all(now.toISOString()) as Array<{ id: string }>;
+  for (const { id } of due) await deliverWebhook(id);
+}
+
+let worker: NodeJS.Timeout | null = null;
+
+export function startWebhookWorker(intervalMs = 30_000) {
+  if (worker) return;
+
+  // Anything left mid-send by a previous process never finished; let it go round again.
+  getDb().prepare(`UPDATE webhook_deliveries SET status = 'pending', next_attempt_at = ? WHERE status = 'sending'`)
+    .run(new Date().toISOString());
+
+  let running = false;
+  worker = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await processDueWebhooks();
+    } catch (e) {
+      console.error("[webhooks] worker tick failed", e);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  worker.unref();
+}